@@ -8,34 +8,90 @@ import {
   TextInput,
   ScrollView,
   Switch,
+  Share,
 } from 'react-native';
 import { supabase, type League } from '@/lib/supabase';
+import {
+  fetchLeagueExport,
+  fetchSeasonArchivedAt,
+  fetchSlate,
+  fetchUserLeagues,
+  publishWeek as publishLeagueWeek,
+  recordSurvivorStatus,
+  RepositoryError,
+  setTiebreakerGame,
+  startNewSeason as startLeagueSeason,
+  updateLeagueSettings as saveLeagueSettings,
+  type GameWithLine,
+  type LeagueSettings,
+} from '@/lib/repository';
+import {
+  EXPORT_KINDS,
+  formatExport,
+  getExportFileName,
+  type ExportFormat,
+  type ExportKind,
+} from '@/lib/export';
+import { DEFAULT_TIEBREAK_RULES, getTiebreakerGame, TIEBREAK_RULES, type TiebreakRule } from '@/lib/tiebreakers';
+import { DEFAULT_FIRST_WEEK, guessSeason, isWeekComplete, loadSeasonCalendar, type SeasonCalendar } from '@/lib/season';
+import { formatWeeklyTime, parseWeeklyTime, type LockMode } from '@/lib/schedule';
+import { useSeasonCalendar } from '@/components/useSeasonCalendar';
 
 export default function AdminScreen() {
   const [leagues, setLeagues] = useState<League[]>([]);
   const [selectedLeague, setSelectedLeague] = useState<League | null>(null);
   const [loading, setLoading] = useState(false);
-  const [season, setSeason] = useState('2024');
-  const [week, setWeek] = useState('1');
+  const calendar = useSeasonCalendar();
+  const [season, setSeason] = useState(String(guessSeason()));
+  const [week, setWeek] = useState(String(DEFAULT_FIRST_WEEK));
   
   // League settings state
   const [pickLimit, setPickLimit] = useState(5);
   const [pushPoints, setPushPoints] = useState(0.5);
-  const [lockMode, setLockMode] = useState<'per_game' | 'global'>('per_game');
+  const [confidenceScoring, setConfidenceScoring] = useState(false);
+  const [lockMode, setLockMode] = useState<LockMode>('per_game');
   const [globalLockAt, setGlobalLockAt] = useState('');
+  const [tiebreakRules, setTiebreakRules] = useState<TiebreakRule[]>(DEFAULT_TIEBREAK_RULES);
+
+  // Tiebreaker game picker for the publish form's week
+  const [tiebreakerSlate, setTiebreakerSlate] = useState<GameWithLine[] | null>(null);
+
+  // Standings and pick log export
+  const [exportSeason, setExportSeason] = useState(String(guessSeason()));
+  const [exportFirstWeek, setExportFirstWeek] = useState(String(DEFAULT_FIRST_WEEK));
+  const [exportLastWeek, setExportLastWeek] = useState(String(DEFAULT_FIRST_WEEK));
+  const [exportKind, setExportKind] = useState<ExportKind>('season_standings');
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+
+  // Season to archive
+  const [archiveSeason, setArchiveSeason] = useState(String(guessSeason()));
 
   useEffect(() => {
     loadCommissionerLeagues();
   }, []);
 
+  useEffect(() => {
+    // Default the publish form to the week in progress
+    if (calendar) {
+      setSeason(String(calendar.season));
+      setWeek(String(calendar.currentWeek));
+      setExportSeason(String(calendar.season));
+      setExportFirstWeek(String(calendar.firstWeek));
+      setExportLastWeek(String(calendar.currentWeek));
+      setArchiveSeason(String(calendar.season));
+    }
+  }, [calendar]);
+
   useEffect(() => {
     if (selectedLeague) {
       // Update form with selected league settings
       setPickLimit(selectedLeague.pick_limit || 5);
       setPushPoints(selectedLeague.push_points || 0.5);
-      // Default to per_game lock mode for now
-      setLockMode('per_game');
-      setGlobalLockAt('');
+      setConfidenceScoring(selectedLeague.scoring_mode === 'confidence');
+      setLockMode(selectedLeague.lock_mode ?? 'per_game');
+      setGlobalLockAt(selectedLeague.global_lock_at ?? '');
+      setTiebreakRules(selectedLeague.tiebreak_rules ?? DEFAULT_TIEBREAK_RULES);
+      setTiebreakerSlate(null);
     }
   }, [selectedLeague]);
 
@@ -45,25 +101,7 @@ export default function AdminScreen() {
       if (!user) return;
 
       // Get leagues where user is commissioner
-      const { data: memberData, error } = await supabase
-        .from('league_members')
-        .select(`
-          leagues (
-            id,
-            name,
-            invite_code,
-            created_by,
-            pick_limit,
-            push_points,
-            created_at
-          )
-        `)
-        .eq('user_id', user.id)
-        .eq('role', 'commish');
-
-      if (error) throw error;
-
-      const commissionerLeagues = memberData?.map(member => member.leagues as any) || [];
+      const commissionerLeagues: League[] = await fetchUserLeagues(user.id, 'commish');
       setLeagues(commissionerLeagues);
       
       if (commissionerLeagues.length > 0) {
@@ -84,28 +122,40 @@ export default function AdminScreen() {
     const seasonNum = parseInt(season);
     const weekNum = parseInt(week);
 
-    if (isNaN(seasonNum) || isNaN(weekNum) || weekNum < 1 || weekNum > 17) {
+    if (isNaN(seasonNum) || isNaN(weekNum)) {
       Alert.alert('Error', 'Please enter valid season and week numbers');
       return;
     }
 
     try {
       setLoading(true);
-      
+
+      // Check the week against the schedule of the season being published
+      const seasonCalendar = calendar?.season === seasonNum ? calendar : await loadSeasonCalendar(seasonNum);
+      if (weekNum < seasonCalendar.firstWeek || weekNum > seasonCalendar.lastWeek) {
+        Alert.alert('Error', `Season ${seasonNum} runs from week ${seasonCalendar.firstWeek} to week ${seasonCalendar.lastWeek}`);
+        return;
+      }
+
       // Call the publish_week edge function
-      const { data, error } = await supabase.functions.invoke('publish_week', {
-        body: {
-          league_id: selectedLeague.id,
-          season: seasonNum,
-          week: weekNum
-        }
-      });
+      const data = await publishLeagueWeek(selectedLeague.id, seasonNum, weekNum);
 
-      if (error) throw error;
+      // Earlier weeks are graded by now, so bring survivor strikes and
+      // eliminations on the membership rows up to date
+      let survivorNote = '';
+      if (selectedLeague.league_type === 'survivor') {
+        try {
+          await recordSurvivorStatus(selectedLeague.id, seasonNum, graded => isWeekComplete(seasonCalendar, graded));
+        } catch (error) {
+          console.error('Error recording survivor status:', error);
+          survivorNote = '\n\nSurvivor strikes could not be recorded; they will be on the next publish.';
+        }
+      }
 
       Alert.alert(
         'Success', 
-        `Week ${week} slate published for ${selectedLeague.name}!\n\nGames: ${data?.games_count || 0}\nLines: ${data?.lines_count || 0}`
+        `Week ${week} slate published for ${selectedLeague.name}!\n\nGames: ${data.games_count}\nLines: ${data.lines_count}` +
+          survivorNote
       );
     } catch (error) {
       console.error('Error publishing week:', error);
@@ -115,40 +165,208 @@ export default function AdminScreen() {
     }
   };
 
+  const loadTiebreakerSlate = async () => {
+    if (!selectedLeague) return;
+
+    const seasonNum = parseInt(season);
+    const weekNum = parseInt(week);
+    if (isNaN(seasonNum) || isNaN(weekNum)) {
+      Alert.alert('Error', 'Please enter valid season and week numbers');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setTiebreakerSlate(await fetchSlate(selectedLeague.id, seasonNum, weekNum));
+    } catch (error) {
+      console.error('Error loading slate:', error);
+      Alert.alert('Error', 'Failed to load the slate');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const chooseTiebreakerGame = async (gameId: string) => {
+    if (!selectedLeague) return;
+
+    try {
+      setLoading(true);
+      await setTiebreakerGame(selectedLeague.id, parseInt(season), parseInt(week), gameId);
+      setTiebreakerSlate(current => current && current.map(item => ({
+        ...item,
+        line: { ...item.line, is_tiebreaker: item.game.id === gameId },
+      })));
+    } catch (error) {
+      console.error('Error setting tiebreaker game:', error);
+      Alert.alert('Error', 'Failed to set the tiebreaker game');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const exportLeagueData = async () => {
+    if (!selectedLeague) {
+      Alert.alert('Error', 'Please select a league');
+      return;
+    }
+
+    const seasonNum = parseInt(exportSeason);
+    const firstWeek = parseInt(exportFirstWeek);
+    const lastWeek = parseInt(exportLastWeek);
+
+    if (isNaN(seasonNum) || isNaN(firstWeek) || isNaN(lastWeek) || firstWeek > lastWeek) {
+      Alert.alert('Error', 'Please enter a valid season and week range');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const data = await fetchLeagueExport(selectedLeague.id, seasonNum, firstWeek, lastWeek, user.id);
+
+      await Share.share({
+        title: getExportFileName(exportKind, exportFormat, data),
+        message: formatExport(exportKind, exportFormat, data),
+      });
+    } catch (error) {
+      console.error('Error exporting league data:', error);
+      Alert.alert('Error', 'Failed to export league data');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startNewSeason = async () => {
+    if (!selectedLeague) {
+      Alert.alert('Error', 'Please select a league');
+      return;
+    }
+
+    const finishedSeason = parseInt(archiveSeason);
+    if (isNaN(finishedSeason)) {
+      Alert.alert('Error', 'Please enter a valid season');
+      return;
+    }
+
+    let seasonCalendar: SeasonCalendar;
+    let archivedAt: string | null;
+    try {
+      setLoading(true);
+      [seasonCalendar, archivedAt] = await Promise.all([
+        calendar?.season === finishedSeason ? calendar : loadSeasonCalendar(finishedSeason),
+        fetchSeasonArchivedAt(selectedLeague.id, finishedSeason),
+      ]);
+    } catch (error) {
+      console.error('Error checking season:', error);
+      Alert.alert('Error', 'Failed to load the season. Check your internet connection and try again.');
+      return;
+    } finally {
+      setLoading(false);
+    }
+
+    if (archivedAt) {
+      Alert.alert(
+        'Already Archived',
+        `Season ${finishedSeason} for ${selectedLeague.name} was archived on ${new Date(archivedAt).toLocaleDateString()}.`
+      );
+      return;
+    }
+    if (!isWeekComplete(seasonCalendar, seasonCalendar.lastWeek)) {
+      Alert.alert(
+        'Season In Progress',
+        `Season ${finishedSeason} runs through week ${seasonCalendar.lastWeek}. Archive it once that week is over.`
+      );
+      return;
+    }
+
+    Alert.alert(
+      'Start New Season',
+      `This archives Season ${finishedSeason} for ${selectedLeague.name} and records its champion. ` +
+        'It has not been archived before. ' +
+        'Members and settings carry over to the new season and survivor status is reset.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Start Season',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              setLoading(true);
+              const champions = await startLeagueSeason(
+                selectedLeague.id,
+                finishedSeason,
+                week => isWeekComplete(seasonCalendar, week)
+              );
+              const names = champions.map(champion => (champion.user_email || 'Unknown').split('@')[0]);
+
+              Alert.alert(
+                'Success',
+                `Season ${finishedSeason} archived.` +
+                  (names.length > 0 ? `\n\n🏆 Champion: ${names.join(', ')}` : '') +
+                  `\n\nSeason ${finishedSeason + 1} is open.`
+              );
+            } catch (error) {
+              console.error('Error starting new season:', error);
+              if (error instanceof RepositoryError && error.code === 'PLAYOFFS_UNDECIDED') {
+                Alert.alert('Playoffs Not Finished', 'Archive the season once the playoff final has been played.');
+                return;
+              }
+              if (error instanceof RepositoryError && (error.code === 'SEASON_ARCHIVED' || error.code === 'SEASON_IN_PROGRESS')) {
+                Alert.alert('Error', error.message);
+                return;
+              }
+              Alert.alert('Error', 'Failed to start the new season');
+            } finally {
+              setLoading(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // Swap a rule with the one above it
+  const moveTiebreakRuleUp = (index: number) => {
+    if (index === 0) return;
+    const rules = [...tiebreakRules];
+    [rules[index - 1], rules[index]] = [rules[index], rules[index - 1]];
+    setTiebreakRules(rules);
+  };
+
   const updateLeagueSettings = async () => {
     if (!selectedLeague) {
       Alert.alert('Error', 'Please select a league');
       return;
     }
 
+    // Blank uses the default Saturday noon lock
+    const lockTime = globalLockAt.trim() ? parseWeeklyTime(globalLockAt) : null;
+    if (lockMode === 'global' && globalLockAt.trim() && !lockTime) {
+      Alert.alert('Invalid Lock Time', 'Enter a day and Eastern time, e.g. "Saturday 12:00 PM"');
+      return;
+    }
+
     try {
       setLoading(true);
-      
-      const newSettings = {
+
+      const scoringMode = confidenceScoring ? 'confidence' : 'standard';
+      const newSettings: LeagueSettings = {
         pick_limit: pickLimit,
         push_points: pushPoints,
+        scoring_mode: scoringMode,
+        tiebreak_rules: tiebreakRules,
         lock_mode: lockMode,
-        ...(lockMode === 'global' && globalLockAt ? { global_lock_at: globalLockAt } : {})
+        global_lock_at: lockTime ? formatWeeklyTime(lockTime) : null,
       };
 
-      const { error } = await supabase
-        .from('leagues')
-        .update({
-          pick_limit: pickLimit,
-          push_points: pushPoints
-        })
-        .eq('id', selectedLeague.id);
-
-      if (error) throw error;
+      await saveLeagueSettings(selectedLeague.id, newSettings);
 
       Alert.alert('Success', 'League settings updated!');
       
       // Update local state
-      setSelectedLeague({
-        ...selectedLeague,
-        pick_limit: pickLimit,
-        push_points: pushPoints
-      });
+      setSelectedLeague({ ...selectedLeague, ...newSettings });
       
       // Refresh leagues
       loadCommissionerLeagues();
@@ -217,7 +435,7 @@ export default function AdminScreen() {
                   style={styles.input}
                   value={season}
                   onChangeText={setSeason}
-                  placeholder="2024"
+                  placeholder={String(guessSeason())}
                   keyboardType="numeric"
                 />
               </View>
@@ -244,6 +462,44 @@ export default function AdminScreen() {
             </TouchableOpacity>
           </View>
 
+          {/* Tiebreaker Game Section */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Weekly Tiebreaker Game</Text>
+            <Text style={styles.sectionDescription}>
+              Members predict the total points in this game for Week {week}. Defaults to the last kickoff.
+            </Text>
+
+            {tiebreakerSlate?.map(item => {
+              const isSelected = getTiebreakerGame(tiebreakerSlate)?.game.id === item.game.id;
+              return (
+                <TouchableOpacity
+                  key={item.game.id}
+                  style={[styles.leagueOption, isSelected && styles.selectedLeagueOption]}
+                  onPress={() => chooseTiebreakerGame(item.game.id)}
+                  disabled={loading}
+                >
+                  <Text style={[styles.leagueOptionText, isSelected && styles.selectedLeagueOptionText]}>
+                    {item.game.away} @ {item.game.home}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+
+            {tiebreakerSlate?.length === 0 && (
+              <Text style={styles.sectionDescription}>No slate published for this week yet.</Text>
+            )}
+
+            <TouchableOpacity
+              style={[styles.secondaryButton, loading && styles.disabledButton]}
+              onPress={loadTiebreakerSlate}
+              disabled={loading}
+            >
+              <Text style={styles.secondaryButtonText}>
+                {tiebreakerSlate ? 'Reload Games' : 'Load Games'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+
           {/* League Settings Section */}
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>League Settings</Text>
@@ -270,6 +526,18 @@ export default function AdminScreen() {
               />
             </View>
 
+            <View style={styles.settingItem}>
+              <Text style={styles.settingLabel}>Scoring Mode</Text>
+              <View style={styles.switchRow}>
+                <Text style={styles.switchLabel}>Standard</Text>
+                <Switch
+                  value={confidenceScoring}
+                  onValueChange={setConfidenceScoring}
+                />
+                <Text style={styles.switchLabel}>Confidence</Text>
+              </View>
+            </View>
+
             <View style={styles.settingItem}>
               <Text style={styles.settingLabel}>Lock Mode</Text>
               <View style={styles.switchRow}>
@@ -282,15 +550,34 @@ export default function AdminScreen() {
               </View>
             </View>
 
+            <View style={styles.settingItem}>
+              <Text style={styles.settingLabel}>Tie-break Order</Text>
+              {tiebreakRules.map((rule, index) => (
+                <View key={rule} style={styles.ruleRow}>
+                  <Text style={styles.ruleText}>
+                    {index + 1}. {TIEBREAK_RULES.find(option => option.rule === rule)?.label}
+                  </Text>
+                  {index > 0 && (
+                    <TouchableOpacity onPress={() => moveTiebreakRuleUp(index)}>
+                      <Text style={styles.ruleMove}>↑</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              ))}
+            </View>
+
             {lockMode === 'global' && (
               <View style={styles.settingItem}>
-                <Text style={styles.settingLabel}>Global Lock Time (optional)</Text>
+                <Text style={styles.settingLabel}>Global Lock Time (Eastern)</Text>
                 <TextInput
                   style={styles.input}
                   value={globalLockAt}
                   onChangeText={setGlobalLockAt}
                   placeholder="e.g., Saturday 12:00 PM"
                 />
+                <Text style={styles.settingHint}>
+                  Every pick locks at this time each week; games that kick off earlier lock at kickoff. Leave blank for Saturday 12:00 PM.
+                </Text>
               </View>
             )}
             
@@ -304,6 +591,113 @@ export default function AdminScreen() {
               </Text>
             </TouchableOpacity>
           </View>
+
+          {/* Export Section */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Export</Text>
+            <Text style={styles.sectionDescription}>
+              Share standings or the full pick log as CSV or JSON for your spreadsheets
+            </Text>
+
+            <View style={styles.inputRow}>
+              <View style={styles.inputHalf}>
+                <Text style={styles.inputLabel}>Season</Text>
+                <TextInput
+                  style={styles.input}
+                  value={exportSeason}
+                  onChangeText={setExportSeason}
+                  placeholder={String(guessSeason())}
+                  keyboardType="numeric"
+                />
+              </View>
+              <View style={styles.inputHalf}>
+                <Text style={styles.inputLabel}>From Week</Text>
+                <TextInput
+                  style={styles.input}
+                  value={exportFirstWeek}
+                  onChangeText={setExportFirstWeek}
+                  placeholder="1"
+                  keyboardType="numeric"
+                />
+              </View>
+              <View style={styles.inputHalf}>
+                <Text style={styles.inputLabel}>To Week</Text>
+                <TextInput
+                  style={styles.input}
+                  value={exportLastWeek}
+                  onChangeText={setExportLastWeek}
+                  placeholder="1"
+                  keyboardType="numeric"
+                />
+              </View>
+            </View>
+
+            <View style={styles.optionRow}>
+              {(Object.keys(EXPORT_KINDS) as ExportKind[]).map(kind => (
+                <TouchableOpacity
+                  key={kind}
+                  style={[styles.leagueOption, exportKind === kind && styles.selectedLeagueOption]}
+                  onPress={() => setExportKind(kind)}
+                >
+                  <Text style={[styles.leagueOptionText, exportKind === kind && styles.selectedLeagueOptionText]}>
+                    {EXPORT_KINDS[kind].label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <View style={styles.optionRow}>
+              {(['csv', 'json'] as const).map(format => (
+                <TouchableOpacity
+                  key={format}
+                  style={[styles.leagueOption, exportFormat === format && styles.selectedLeagueOption]}
+                  onPress={() => setExportFormat(format)}
+                >
+                  <Text style={[styles.leagueOptionText, exportFormat === format && styles.selectedLeagueOptionText]}>
+                    {format.toUpperCase()}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <TouchableOpacity
+              style={[styles.secondaryButton, loading && styles.disabledButton]}
+              onPress={exportLeagueData}
+              disabled={loading}
+            >
+              <Text style={styles.secondaryButtonText}>{loading ? 'Exporting...' : 'Export & Share'}</Text>
+            </TouchableOpacity>
+          </View>
+
+          {/* Season Section */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Season</Text>
+            <Text style={styles.sectionDescription}>
+              Archive a season once its last week and any playoffs are over. Its standings and picks become
+              read-only and the league moves on to the next season.
+            </Text>
+
+            <View style={styles.inputRow}>
+              <View style={styles.inputHalf}>
+                <Text style={styles.inputLabel}>Season</Text>
+                <TextInput
+                  style={styles.input}
+                  value={archiveSeason}
+                  onChangeText={setArchiveSeason}
+                  placeholder={String(guessSeason())}
+                  keyboardType="numeric"
+                />
+              </View>
+            </View>
+
+            <TouchableOpacity
+              style={[styles.secondaryButton, loading && styles.disabledButton]}
+              onPress={startNewSeason}
+              disabled={loading}
+            >
+              <Text style={styles.secondaryButtonText}>Start New Season</Text>
+            </TouchableOpacity>
+          </View>
         </>
       )}
     </ScrollView>
@@ -342,6 +736,11 @@ const styles = StyleSheet.create({
     color: '#666',
     marginBottom: 16,
   },
+  settingHint: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 4,
+  },
   leagueOption: {
     paddingVertical: 12,
     paddingHorizontal: 16,
@@ -369,6 +768,12 @@ const styles = StyleSheet.create({
   inputHalf: {
     flex: 1,
   },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
   inputLabel: {
     fontSize: 14,
     fontWeight: '600',
@@ -410,6 +815,23 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#333',
   },
+  ruleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  ruleText: {
+    fontSize: 16,
+    color: '#333',
+  },
+  ruleMove: {
+    fontSize: 18,
+    color: '#007AFF',
+    paddingHorizontal: 12,
+  },
   primaryButton: {
     backgroundColor: '#007AFF',
     paddingVertical: 16,
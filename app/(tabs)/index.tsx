@@ -8,11 +8,22 @@ import {
   ScrollView,
   RefreshControl,
 } from 'react-native';
-import { supabase, type League } from '@/lib/supabase';
+import { supabase } from '@/lib/supabase';
+import {
+  fetchAwards,
+  fetchLeagueMembers,
+  fetchNextKickoff,
+  fetchPicks,
+  fetchUserLeagues,
+  type LeagueMemberWithEmail,
+  type LeagueWithRole,
+} from '@/lib/repository';
+import type { Award } from '@/lib/awards';
 import { router } from 'expo-router';
 import { testFrontendBackendIntegration } from '@/lib/test-integration';
-
-type LeagueWithRole = League & { role: 'commish' | 'player' };
+import { DEFAULT_FIRST_WEEK, getWeekLabel, guessSeason, isWeekComplete } from '@/lib/season';
+import AwardRow from '@/components/AwardRow';
+import { useSeasonCalendar } from '@/components/useSeasonCalendar';
 
 type WeekSummary = {
   totalPicks: number;
@@ -25,20 +36,24 @@ export default function HomeScreen() {
   const [leagues, setLeagues] = useState<LeagueWithRole[]>([]);
   const [currentLeague, setCurrentLeague] = useState<LeagueWithRole | null>(null);
   const [weekSummary, setWeekSummary] = useState<WeekSummary | null>(null);
+  const [latestAwards, setLatestAwards] = useState<Award[]>([]);
+  const [members, setMembers] = useState<LeagueMemberWithEmail[]>([]);
   const [loading, setLoading] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
-  const [currentSeason] = useState(2025);
-  const [currentWeek] = useState(1);
+  const calendar = useSeasonCalendar();
+  const currentSeason = calendar?.season ?? guessSeason();
+  const currentWeek = calendar?.currentWeek ?? DEFAULT_FIRST_WEEK;
 
   useEffect(() => {
     loadLeagues();
   }, []);
 
   useEffect(() => {
-    if (currentLeague) {
+    if (currentLeague && calendar) {
       loadWeekSummary();
+      loadLatestAwards();
     }
-  }, [currentLeague]);
+  }, [currentLeague, calendar]);
 
   const loadLeagues = async () => {
     try {
@@ -47,28 +62,7 @@ export default function HomeScreen() {
       if (!user) return;
 
       // Get leagues where user is a member
-      const { data: memberData, error } = await supabase
-        .from('league_members')
-        .select(`
-          role,
-          leagues (
-            id,
-            name,
-            invite_code,
-            created_by,
-            pick_limit,
-            push_points,
-            created_at
-          )
-        `)
-        .eq('user_id', user.id);
-
-      if (error) throw error;
-
-      const formattedLeagues: LeagueWithRole[] = memberData?.map(member => ({
-        ...(member.leagues as any),
-        role: member.role as 'commish' | 'player'
-      })) || [];
+      const formattedLeagues = await fetchUserLeagues(user.id);
 
       setLeagues(formattedLeagues);
       
@@ -92,32 +86,14 @@ export default function HomeScreen() {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
-      // Get user's picks for current week
-      const { data: picks, error: picksError } = await supabase
-        .from('picks')
-        .select('*')
-        .eq('league_id', currentLeague.id)
-        .eq('user_id', user.id)
-        .eq('season', currentSeason)
-        .eq('week', currentWeek);
-
-      if (picksError) throw picksError;
-
-      // Get upcoming games for countdown
-      const { data: games, error: gamesError } = await supabase
-        .from('games')
-        .select('kickoff')
-        .eq('season', currentSeason)
-        .eq('week', currentWeek)
-        .gte('kickoff', new Date().toISOString())
-        .order('kickoff', { ascending: true })
-        .limit(1);
+      // Get user's picks for current week and the next kickoff for the countdown
+      const [picks, nextKickoff] = await Promise.all([
+        fetchPicks(currentLeague.id, user.id, currentSeason, currentWeek),
+        fetchNextKickoff(currentSeason, currentWeek),
+      ]);
 
-      if (gamesError) throw gamesError;
-
-      const nextKickoff = games?.[0]?.kickoff ? new Date(games[0].kickoff) : null;
       const pickLimit = currentLeague.pick_limit || 5;
-      const totalPicks = picks?.length || 0;
+      const totalPicks = picks.length;
 
       setWeekSummary({
         totalPicks,
@@ -130,6 +106,27 @@ export default function HomeScreen() {
     }
   };
 
+  // The most recent final week's awards for the current league
+  const loadLatestAwards = async () => {
+    if (!currentLeague) return;
+
+    try {
+      const [{ weekly }, leagueMembers] = await Promise.all([
+        fetchAwards(currentLeague.id, currentSeason, week => isWeekComplete(calendar, week)),
+        fetchLeagueMembers(currentLeague.id),
+      ]);
+      setLatestAwards(weekly.filter(award => award.week === weekly[0]?.week));
+      setMembers(leagueMembers);
+    } catch (error) {
+      console.error('Error loading awards:', error);
+    }
+  };
+
+  const getUserName = (id: string) => {
+    const email = members.find(member => member.user_id === id)?.users?.email;
+    return (email || 'Unknown').split('@')[0];
+  };
+
   const formatTimeUntil = (date: Date): string => {
     const now = new Date();
     const diff = date.getTime() - now.getTime();
@@ -180,7 +177,10 @@ export default function HomeScreen() {
           onRefresh={() => {
             setRefreshing(true);
             loadLeagues();
-            if (currentLeague) loadWeekSummary();
+            if (currentLeague && calendar) {
+              loadWeekSummary();
+              loadLatestAwards();
+            }
           }} 
         />
       }
@@ -216,7 +216,7 @@ export default function HomeScreen() {
       {/* Week Summary */}
       {weekSummary && (
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Week {currentWeek} Summary</Text>
+          <Text style={styles.sectionTitle}>{getWeekLabel(calendar, currentWeek)} Summary</Text>
           
           <View style={styles.summaryCard}>
             <View style={styles.summaryRow}>
@@ -247,6 +247,28 @@ export default function HomeScreen() {
         </View>
       )}
 
+      {/* Latest Awards */}
+      {currentLeague && latestAwards.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>
+            {getWeekLabel(calendar, latestAwards[0].week as number)} Awards
+          </Text>
+          {latestAwards.map(award => (
+            <AwardRow
+              key={`${award.kind}-${award.user_id}-${award.detail}`}
+              award={award}
+              userName={getUserName(award.user_id)}
+            />
+          ))}
+          <TouchableOpacity
+            style={styles.switchButton}
+            onPress={() => router.push(`/league/${currentLeague.id}/awards`)}
+          >
+            <Text style={styles.switchButtonText}>See All Awards</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
       {/* Quick Actions */}
       {currentLeague && (
         <View style={styles.section}>
@@ -10,13 +10,65 @@ import {
   Modal,
   FlatList,
 } from 'react-native';
-import { supabase } from '@/lib/supabase';
-import type { League, LeagueMember } from '@/lib/supabase';
+import { supabase, type League } from '@/lib/supabase';
+import {
+  createLeague as insertLeague,
+  fetchUserLeagues,
+  joinLeagueByInviteCode,
+  RepositoryError,
+  updateLeagueSettings as saveLeagueSettings,
+  type LeagueWithRole,
+} from '@/lib/repository';
 import { useAuth } from '@/contexts/AuthContext';
 import { router } from 'expo-router';
 import { testFrontendBackendIntegration } from '@/lib/test-integration';
 
-type LeagueWithRole = League & { role: 'commish' | 'player' };
+type ScoringMode = NonNullable<League['scoring_mode']>;
+
+const SCORING_MODES: { mode: ScoringMode; label: string }[] = [
+  { mode: 'standard', label: 'Standard' },
+  { mode: 'confidence', label: 'Confidence' },
+];
+
+type PickMode = NonNullable<League['pick_mode']>;
+
+const PICK_MODES: { mode: PickMode; label: string }[] = [
+  { mode: 'spread', label: 'Spread' },
+  { mode: 'straight_up', label: 'Straight Up' },
+];
+
+// null counts totals against the pick limit alongside sides
+const TOTALS_LIMITS: { limit: number | null; label: string }[] = [
+  { limit: null, label: 'Shared' },
+  { limit: 1, label: '1' },
+  { limit: 2, label: '2' },
+  { limit: 3, label: '3' },
+  { limit: 5, label: '5' },
+];
+
+type RankBy = NonNullable<League['standings_rank_by']>;
+
+const RANK_BY_OPTIONS: { rankBy: RankBy; label: string }[] = [
+  { rankBy: 'points', label: 'Points' },
+  { rankBy: 'win_percentage', label: 'Win %' },
+];
+
+// null counts every week / sets no minimum
+const BEST_WEEKS_OPTIONS: (number | null)[] = [null, 8, 10, 12];
+const DROP_WEEKS_OPTIONS: (number | null)[] = [null, 1, 2, 3];
+const MIN_WEEKS_OPTIONS: (number | null)[] = [null, 3, 5, 8];
+
+// null turns playoffs off
+const PLAYOFF_TEAMS_OPTIONS: (number | null)[] = [null, 4, 6, 8];
+const PLAYOFF_AFTER_WEEK_OPTIONS = [10, 11, 12, 13];
+const DEFAULT_PLAYOFF_AFTER_WEEK = 12;
+
+type LeagueType = NonNullable<League['league_type']>;
+
+const LEAGUE_TYPES: { type: LeagueType; label: string }[] = [
+  { type: 'ats', label: 'Pick\'em' },
+  { type: 'survivor', label: 'Survivor' },
+];
 
 export default function LeagueScreen() {
   const [leagues, setLeagues] = useState<LeagueWithRole[]>([]);
@@ -31,6 +83,20 @@ export default function LeagueScreen() {
   const [leagueName, setLeagueName] = useState('');
   const [pickLimit, setPickLimit] = useState(5);
   const [pushPoints, setPushPoints] = useState(0.5);
+  const [scoringMode, setScoringMode] = useState<ScoringMode>('standard');
+  const [leagueType, setLeagueType] = useState<LeagueType>('ats');
+  const [pickMode, setPickMode] = useState<PickMode>('spread');
+  const [survivorStrikes, setSurvivorStrikes] = useState(1);
+  const [totalsPickLimit, setTotalsPickLimit] = useState<number | null>(null);
+
+  // Season standings rules (settings only)
+  const [bestWeeks, setBestWeeks] = useState<number | null>(null);
+  const [dropWeeks, setDropWeeks] = useState<number | null>(null);
+  const [minWeeks, setMinWeeks] = useState<number | null>(null);
+  const [rankBy, setRankBy] = useState<RankBy>('points');
+  const [headToHead, setHeadToHead] = useState(false);
+  const [playoffTeams, setPlayoffTeams] = useState<number | null>(null);
+  const [playoffAfterWeek, setPlayoffAfterWeek] = useState(DEFAULT_PLAYOFF_AFTER_WEEK);
 
   // Join league form
   const [inviteCode, setInviteCode] = useState('');
@@ -45,28 +111,7 @@ export default function LeagueScreen() {
       if (!user) return;
 
       // Get leagues where user is a member
-      const { data: memberData, error } = await supabase
-        .from('league_members')
-        .select(`
-          role,
-          leagues (
-            id,
-            name,
-            invite_code,
-            created_by,
-            pick_limit,
-            push_points,
-            created_at
-          )
-        `)
-        .eq('user_id', user.id);
-
-      if (error) throw error;
-
-      const formattedLeagues: LeagueWithRole[] = memberData?.map(member => ({
-        ...(member.leagues as any),
-        role: member.role as 'commish' | 'player'
-      })) || [];
+      const formattedLeagues = await fetchUserLeagues(user.id);
 
       setLeagues(formattedLeagues);
     } catch (error) {
@@ -87,38 +132,22 @@ export default function LeagueScreen() {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
-      // Generate invite code
-      const code = Math.random().toString(36).substring(2, 8).toUpperCase();
-
-      const { data, error } = await supabase
-        .from('leagues')
-        .insert({
-          name: leagueName.trim(),
-          invite_code: code,
-          created_by: user.id,
-          pick_limit: pickLimit,
-          push_points: pushPoints,
-        })
-        .select()
-        .single();
-
-      if (error) throw error;
-
-      // Add creator as commissioner
-      const { error: memberError } = await supabase
-        .from('league_members')
-        .insert({
-          league_id: data.id,
-          user_id: user.id,
-          role: 'commish',
-        });
-
-      if (memberError) throw memberError;
+      // Creates the league and adds the creator as commissioner
+      const league = await insertLeague(user.id, {
+        name: leagueName.trim(),
+        pick_limit: pickLimit,
+        push_points: pushPoints,
+        scoring_mode: scoringMode,
+        league_type: leagueType,
+        survivor_strikes: survivorStrikes,
+        pick_mode: pickMode,
+        totals_pick_limit: totalsPickLimit,
+      });
 
       setShowCreateModal(false);
       setLeagueName('');
       fetchLeagues();
-      Alert.alert('Success', `League created! Invite code: ${code}`);
+      Alert.alert('Success', `League created! Invite code: ${league.invite_code}`);
     } catch (error) {
       console.error('Error creating league:', error);
       Alert.alert('Error', `Failed to create league: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -135,47 +164,21 @@ export default function LeagueScreen() {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
-      // Find league by invite code
-      const { data: league, error: leagueError } = await supabase
-        .from('leagues')
-        .select('*')
-        .eq('invite_code', inviteCode.trim().toUpperCase())
-        .single();
+      const league = await joinLeagueByInviteCode(user.id, inviteCode);
 
-      if (leagueError || !league) {
+      setShowJoinModal(false);
+      setInviteCode('');
+      fetchLeagues();
+      Alert.alert('Success', `Joined "${league.name}"!`);
+    } catch (error) {
+      if (error instanceof RepositoryError && error.code === 'INVALID_INVITE_CODE') {
         Alert.alert('Error', 'Invalid invite code');
         return;
       }
-
-      // Check if already a member
-      const { data: existing } = await supabase
-        .from('league_members')
-        .select('*')
-        .eq('league_id', league.id)
-        .eq('user_id', user.id)
-        .single();
-
-      if (existing) {
+      if (error instanceof RepositoryError && error.code === 'ALREADY_MEMBER') {
         Alert.alert('Error', 'You are already a member of this league');
         return;
       }
-
-      // Join league
-      const { error } = await supabase
-        .from('league_members')
-        .insert({
-          league_id: league.id,
-          user_id: user.id,
-          role: 'player',
-        });
-
-      if (error) throw error;
-
-      setShowJoinModal(false);
-      setInviteCode('');
-      fetchLeagues();
-      Alert.alert('Success', `Joined "${league.name}"!`);
-    } catch (error) {
       console.error('Error joining league:', error);
       Alert.alert('Error', 'Failed to join league');
     }
@@ -185,15 +188,19 @@ export default function LeagueScreen() {
     if (!selectedLeague) return;
 
     try {
-      const { error } = await supabase
-        .from('leagues')
-        .update({
-          pick_limit: pickLimit,
-          push_points: pushPoints,
-        })
-        .eq('id', selectedLeague.id);
-
-      if (error) throw error;
+      await saveLeagueSettings(selectedLeague.id, {
+        pick_limit: pickLimit,
+        push_points: pushPoints,
+        scoring_mode: scoringMode,
+        totals_pick_limit: totalsPickLimit,
+        standings_best_weeks: bestWeeks,
+        standings_drop_weeks: dropWeeks,
+        standings_min_weeks: minWeeks,
+        standings_rank_by: rankBy,
+        head_to_head: headToHead,
+        playoff_teams: playoffTeams,
+        playoff_after_week: playoffTeams ? playoffAfterWeek : null,
+      });
 
       setShowSettingsModal(false);
       fetchLeagues();
@@ -212,6 +219,15 @@ export default function LeagueScreen() {
     setSelectedLeague(league);
     setPickLimit(league.pick_limit);
     setPushPoints(league.push_points);
+    setScoringMode(league.scoring_mode || 'standard');
+    setTotalsPickLimit(league.totals_pick_limit ?? null);
+    setBestWeeks(league.standings_best_weeks ?? null);
+    setDropWeeks(league.standings_drop_weeks ?? null);
+    setMinWeeks(league.standings_min_weeks ?? null);
+    setRankBy(league.standings_rank_by || 'points');
+    setHeadToHead(!!league.head_to_head);
+    setPlayoffTeams(league.playoff_teams ?? null);
+    setPlayoffAfterWeek(league.playoff_after_week ?? DEFAULT_PLAYOFF_AFTER_WEEK);
     setShowSettingsModal(true);
   };
 
@@ -249,12 +265,35 @@ export default function LeagueScreen() {
         </View>
       </View>
       
-      <Text style={styles.leagueDetail}>
-        Pick Limit: {item.pick_limit} per week
-      </Text>
-      <Text style={styles.leagueDetail}>
-        Push Scoring: {item.push_points} points
-      </Text>
+      {item.league_type === 'survivor' ? (
+        <Text style={styles.leagueDetail}>
+          Survivor: out after {item.survivor_strikes ?? 1} {(item.survivor_strikes ?? 1) === 1 ? 'loss or missed week' : 'losses or missed weeks'}
+        </Text>
+      ) : (
+        <>
+          <Text style={styles.leagueDetail}>
+            Pick Limit: {item.pick_limit} per week
+            {item.totals_pick_limit != null && ` + ${item.totals_pick_limit} totals`}
+          </Text>
+          <Text style={styles.leagueDetail}>
+            Push Scoring: {item.push_points} points
+          </Text>
+          {item.pick_mode === 'straight_up' && (
+            <Text style={styles.leagueDetail}>Straight-up picks</Text>
+          )}
+          {item.scoring_mode === 'confidence' && (
+            <Text style={styles.leagueDetail}>Confidence scoring</Text>
+          )}
+          {item.head_to_head && (
+            <Text style={styles.leagueDetail}>Weekly head-to-head matchups</Text>
+          )}
+          {!!item.playoff_teams && (
+            <Text style={styles.leagueDetail}>
+              Top {item.playoff_teams} playoff after Week {item.playoff_after_week ?? DEFAULT_PLAYOFF_AFTER_WEEK}
+            </Text>
+          )}
+        </>
+      )}
       
       {item.role === 'commish' && (
         <View style={styles.inviteCodeSection}>
@@ -381,51 +420,172 @@ export default function LeagueScreen() {
             onChangeText={setLeagueName}
           />
 
-          <Text style={styles.label}>Pick Limit per Week</Text>
+          <Text style={styles.label}>Format</Text>
           <View style={styles.pickerContainer}>
-            {[3, 5, 8, 10, 12, 15, 20].map((limit) => (
+            {LEAGUE_TYPES.map(({ type, label }) => (
               <TouchableOpacity
-                key={limit}
+                key={type}
                 style={[
                   styles.pickerOption,
-                  pickLimit === limit && styles.pickerOptionSelected,
+                  leagueType === type && styles.pickerOptionSelected,
                 ]}
-                onPress={() => setPickLimit(limit)}
+                onPress={() => setLeagueType(type)}
               >
                 <Text
                   style={[
                     styles.pickerText,
-                    pickLimit === limit && styles.pickerTextSelected,
+                    leagueType === type && styles.pickerTextSelected,
                   ]}
                 >
-                  {limit}
+                  {label}
                 </Text>
               </TouchableOpacity>
             ))}
           </View>
 
-          <Text style={styles.label}>Push Scoring</Text>
-          <View style={styles.pickerContainer}>
-            {[0, 0.5, 1].map((points) => (
-              <TouchableOpacity
-                key={points}
-                style={[
-                  styles.pickerOption,
-                  pushPoints === points && styles.pickerOptionSelected,
-                ]}
-                onPress={() => setPushPoints(points)}
-              >
-                <Text
-                  style={[
-                    styles.pickerText,
-                    pushPoints === points && styles.pickerTextSelected,
-                  ]}
-                >
-                  {points}
-                </Text>
-              </TouchableOpacity>
-            ))}
-          </View>
+          {leagueType === 'survivor' ? (
+            <>
+              <Text style={styles.label}>Losses Before Elimination</Text>
+              <View style={styles.pickerContainer}>
+                {[1, 2, 3].map((strikes) => (
+                  <TouchableOpacity
+                    key={strikes}
+                    style={[
+                      styles.pickerOption,
+                      survivorStrikes === strikes && styles.pickerOptionSelected,
+                    ]}
+                    onPress={() => setSurvivorStrikes(strikes)}
+                  >
+                    <Text
+                      style={[
+                        styles.pickerText,
+                        survivorStrikes === strikes && styles.pickerTextSelected,
+                      ]}
+                    >
+                      {strikes}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </>
+          ) : (
+            <>
+              <Text style={styles.label}>Pick Type</Text>
+              <View style={styles.pickerContainer}>
+                {PICK_MODES.map(({ mode, label }) => (
+                  <TouchableOpacity
+                    key={mode}
+                    style={[
+                      styles.pickerOption,
+                      pickMode === mode && styles.pickerOptionSelected,
+                    ]}
+                    onPress={() => setPickMode(mode)}
+                  >
+                    <Text
+                      style={[
+                        styles.pickerText,
+                        pickMode === mode && styles.pickerTextSelected,
+                      ]}
+                    >
+                      {label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <Text style={styles.label}>Pick Limit per Week</Text>
+              <View style={styles.pickerContainer}>
+                {[3, 5, 8, 10, 12, 15, 20].map((limit) => (
+                  <TouchableOpacity
+                    key={limit}
+                    style={[
+                      styles.pickerOption,
+                      pickLimit === limit && styles.pickerOptionSelected,
+                    ]}
+                    onPress={() => setPickLimit(limit)}
+                  >
+                    <Text
+                      style={[
+                        styles.pickerText,
+                        pickLimit === limit && styles.pickerTextSelected,
+                      ]}
+                    >
+                      {limit}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <Text style={styles.label}>Totals Limit per Week</Text>
+              <View style={styles.pickerContainer}>
+                {TOTALS_LIMITS.map(({ limit, label }) => (
+                  <TouchableOpacity
+                    key={label}
+                    style={[
+                      styles.pickerOption,
+                      totalsPickLimit === limit && styles.pickerOptionSelected,
+                    ]}
+                    onPress={() => setTotalsPickLimit(limit)}
+                  >
+                    <Text
+                      style={[
+                        styles.pickerText,
+                        totalsPickLimit === limit && styles.pickerTextSelected,
+                      ]}
+                    >
+                      {label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <Text style={styles.label}>Push Scoring</Text>
+              <View style={styles.pickerContainer}>
+                {[0, 0.5, 1].map((points) => (
+                  <TouchableOpacity
+                    key={points}
+                    style={[
+                      styles.pickerOption,
+                      pushPoints === points && styles.pickerOptionSelected,
+                    ]}
+                    onPress={() => setPushPoints(points)}
+                  >
+                    <Text
+                      style={[
+                        styles.pickerText,
+                        pushPoints === points && styles.pickerTextSelected,
+                      ]}
+                    >
+                      {points}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <Text style={styles.label}>Scoring</Text>
+              <View style={styles.pickerContainer}>
+                {SCORING_MODES.map(({ mode, label }) => (
+                  <TouchableOpacity
+                    key={mode}
+                    style={[
+                      styles.pickerOption,
+                      scoringMode === mode && styles.pickerOptionSelected,
+                    ]}
+                    onPress={() => setScoringMode(mode)}
+                  >
+                    <Text
+                      style={[
+                        styles.pickerText,
+                        scoringMode === mode && styles.pickerTextSelected,
+                      ]}
+                    >
+                      {label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </>
+          )}
 
           <View style={styles.modalButtons}>
             <TouchableOpacity
@@ -477,7 +637,7 @@ export default function LeagueScreen() {
 
       {/* League Settings Modal */}
       <Modal visible={showSettingsModal} animationType="slide" presentationStyle="pageSheet">
-        <View style={styles.modalContainer}>
+        <ScrollView style={styles.modalContainer}>
           <Text style={styles.modalTitle}>League Settings</Text>
           <Text style={styles.modalSubtitle}>{selectedLeague?.name}</Text>
           
@@ -504,6 +664,29 @@ export default function LeagueScreen() {
             ))}
           </View>
 
+          <Text style={styles.label}>Totals Limit per Week</Text>
+          <View style={styles.pickerContainer}>
+            {TOTALS_LIMITS.map(({ limit, label }) => (
+              <TouchableOpacity
+                key={label}
+                style={[
+                  styles.pickerOption,
+                  totalsPickLimit === limit && styles.pickerOptionSelected,
+                ]}
+                onPress={() => setTotalsPickLimit(limit)}
+              >
+                <Text
+                  style={[
+                    styles.pickerText,
+                    totalsPickLimit === limit && styles.pickerTextSelected,
+                  ]}
+                >
+                  {label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
           <Text style={styles.label}>Push Scoring</Text>
           <View style={styles.pickerContainer}>
             {[0, 0.5, 1].map((points) => (
@@ -527,6 +710,194 @@ export default function LeagueScreen() {
             ))}
           </View>
 
+          <Text style={styles.label}>Scoring</Text>
+          <View style={styles.pickerContainer}>
+            {SCORING_MODES.map(({ mode, label }) => (
+              <TouchableOpacity
+                key={mode}
+                style={[
+                  styles.pickerOption,
+                  scoringMode === mode && styles.pickerOptionSelected,
+                ]}
+                onPress={() => setScoringMode(mode)}
+              >
+                <Text
+                  style={[
+                    styles.pickerText,
+                    scoringMode === mode && styles.pickerTextSelected,
+                  ]}
+                >
+                  {label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.label}>Count Best Weeks</Text>
+          <View style={styles.pickerContainer}>
+            {BEST_WEEKS_OPTIONS.map((weeks) => (
+              <TouchableOpacity
+                key={String(weeks)}
+                style={[
+                  styles.pickerOption,
+                  bestWeeks === weeks && styles.pickerOptionSelected,
+                ]}
+                onPress={() => setBestWeeks(weeks)}
+              >
+                <Text
+                  style={[
+                    styles.pickerText,
+                    bestWeeks === weeks && styles.pickerTextSelected,
+                  ]}
+                >
+                  {weeks ?? 'All'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.label}>Drop Lowest Weeks</Text>
+          <View style={styles.pickerContainer}>
+            {DROP_WEEKS_OPTIONS.map((weeks) => (
+              <TouchableOpacity
+                key={String(weeks)}
+                style={[
+                  styles.pickerOption,
+                  dropWeeks === weeks && styles.pickerOptionSelected,
+                ]}
+                onPress={() => setDropWeeks(weeks)}
+              >
+                <Text
+                  style={[
+                    styles.pickerText,
+                    dropWeeks === weeks && styles.pickerTextSelected,
+                  ]}
+                >
+                  {weeks ?? 'None'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.label}>Weeks to Qualify</Text>
+          <View style={styles.pickerContainer}>
+            {MIN_WEEKS_OPTIONS.map((weeks) => (
+              <TouchableOpacity
+                key={String(weeks)}
+                style={[
+                  styles.pickerOption,
+                  minWeeks === weeks && styles.pickerOptionSelected,
+                ]}
+                onPress={() => setMinWeeks(weeks)}
+              >
+                <Text
+                  style={[
+                    styles.pickerText,
+                    minWeeks === weeks && styles.pickerTextSelected,
+                  ]}
+                >
+                  {weeks ?? 'Any'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.label}>Rank Season By</Text>
+          <View style={styles.pickerContainer}>
+            {RANK_BY_OPTIONS.map(({ rankBy: option, label }) => (
+              <TouchableOpacity
+                key={option}
+                style={[
+                  styles.pickerOption,
+                  rankBy === option && styles.pickerOptionSelected,
+                ]}
+                onPress={() => setRankBy(option)}
+              >
+                <Text
+                  style={[
+                    styles.pickerText,
+                    rankBy === option && styles.pickerTextSelected,
+                  ]}
+                >
+                  {label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.label}>Head-to-Head Matchups</Text>
+          <View style={styles.pickerContainer}>
+            {[false, true].map((enabled) => (
+              <TouchableOpacity
+                key={String(enabled)}
+                style={[
+                  styles.pickerOption,
+                  headToHead === enabled && styles.pickerOptionSelected,
+                ]}
+                onPress={() => setHeadToHead(enabled)}
+              >
+                <Text
+                  style={[
+                    styles.pickerText,
+                    headToHead === enabled && styles.pickerTextSelected,
+                  ]}
+                >
+                  {enabled ? 'On' : 'Off'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.label}>Playoff Teams</Text>
+          <View style={styles.pickerContainer}>
+            {PLAYOFF_TEAMS_OPTIONS.map((teams) => (
+              <TouchableOpacity
+                key={String(teams)}
+                style={[
+                  styles.pickerOption,
+                  playoffTeams === teams && styles.pickerOptionSelected,
+                ]}
+                onPress={() => setPlayoffTeams(teams)}
+              >
+                <Text
+                  style={[
+                    styles.pickerText,
+                    playoffTeams === teams && styles.pickerTextSelected,
+                  ]}
+                >
+                  {teams ?? 'Off'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {playoffTeams !== null && (
+            <>
+              <Text style={styles.label}>Regular Season Ends After Week</Text>
+              <View style={styles.pickerContainer}>
+                {PLAYOFF_AFTER_WEEK_OPTIONS.map((week) => (
+                  <TouchableOpacity
+                    key={week}
+                    style={[
+                      styles.pickerOption,
+                      playoffAfterWeek === week && styles.pickerOptionSelected,
+                    ]}
+                    onPress={() => setPlayoffAfterWeek(week)}
+                  >
+                    <Text
+                      style={[
+                        styles.pickerText,
+                        playoffAfterWeek === week && styles.pickerTextSelected,
+                      ]}
+                    >
+                      {week}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </>
+          )}
+
           <View style={styles.modalButtons}>
             <TouchableOpacity
               style={[styles.modalButton, styles.cancelButton]}
@@ -541,7 +912,7 @@ export default function LeagueScreen() {
               <Text style={styles.buttonText}>Save</Text>
             </TouchableOpacity>
           </View>
-        </View>
+        </ScrollView>
       </Modal>
     </View>
   );
@@ -8,6 +8,7 @@ import 'react-native-reanimated';
 import { supabase } from '@/lib/supabase';
 import type { Session } from '@supabase/supabase-js';
 import { AuthProvider, useAuth } from '@/contexts/AuthContext';
+import { PickOutboxProvider } from '@/contexts/PickOutboxContext';
 
 import { useColorScheme } from '@/components/useColorScheme';
 
@@ -47,7 +48,9 @@ export default function RootLayout() {
 
   return (
     <AuthProvider>
-      <RootLayoutNav />
+      <PickOutboxProvider>
+        <RootLayoutNav />
+      </PickOutboxProvider>
     </AuthProvider>
   );
 }
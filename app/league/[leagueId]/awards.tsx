@@ -0,0 +1,170 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  Alert,
+} from 'react-native';
+import { useLocalSearchParams } from 'expo-router';
+import {
+  fetchAwards,
+  fetchLeague,
+  fetchLeagueMembers,
+  type AwardsSummary,
+  type LeagueMemberWithEmail,
+} from '@/lib/repository';
+import type { League } from '@/lib/supabase';
+import type { Award } from '@/lib/awards';
+import { getWeekLabel, guessSeason, isWeekComplete } from '@/lib/season';
+import AwardRow from '@/components/AwardRow';
+import { useSeasonCalendar } from '@/components/useSeasonCalendar';
+
+export default function LeagueAwardsScreen() {
+  const { leagueId } = useLocalSearchParams<{ leagueId: string }>();
+  const [league, setLeague] = useState<League | null>(null);
+  const [members, setMembers] = useState<LeagueMemberWithEmail[]>([]);
+  const [awards, setAwards] = useState<AwardsSummary>({ weekly: [], season: [] });
+  const [loading, setLoading] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const calendar = useSeasonCalendar();
+  const currentSeason = calendar?.season ?? guessSeason();
+
+  useEffect(() => {
+    if (leagueId && calendar) {
+      loadAwards();
+    }
+  }, [leagueId, calendar]);
+
+  const loadAwards = async () => {
+    if (!leagueId) return;
+
+    try {
+      setLoading(true);
+      const [leagueData, leagueMembers, summary] = await Promise.all([
+        fetchLeague(leagueId),
+        fetchLeagueMembers(leagueId),
+        fetchAwards(leagueId, currentSeason, week => isWeekComplete(calendar, week)),
+      ]);
+      setLeague(leagueData);
+      setMembers(leagueMembers);
+      setAwards(summary);
+    } catch (error) {
+      console.error('Error loading awards:', error);
+      Alert.alert('Error', 'Failed to load awards');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const getUserName = (id: string) => {
+    const email = members.find(member => member.user_id === id)?.users?.email;
+    return (email || 'Unknown').split('@')[0];
+  };
+
+  const renderAwards = (list: Award[]) =>
+    list.map(award => (
+      <AwardRow
+        key={`${award.kind}-${award.week}-${award.user_id}-${award.detail}`}
+        award={award}
+        userName={getUserName(award.user_id)}
+      />
+    ));
+
+  const weeks = Array.from(new Set(awards.weekly.map(award => award.week as number)));
+
+  return (
+    <ScrollView
+      style={styles.container}
+      refreshControl={
+        <RefreshControl refreshing={refreshing} onRefresh={() => {
+          setRefreshing(true);
+          loadAwards();
+        }} />
+      }
+    >
+      {/* Header */}
+      <View style={styles.header}>
+        <Text style={styles.title}>{league?.name || 'League'} Awards</Text>
+        <Text style={styles.subtitle}>Season {currentSeason} • Awarded once each week is final</Text>
+      </View>
+
+      {!loading && awards.weekly.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyText}>No Awards Yet</Text>
+          <Text style={styles.emptySubtext}>
+            Awards are handed out after the first week is graded.
+          </Text>
+        </View>
+      ) : (
+        <>
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Season Leaders</Text>
+            {renderAwards(awards.season)}
+          </View>
+
+          {weeks.map(week => (
+            <View key={week} style={styles.section}>
+              <Text style={styles.sectionTitle}>{getWeekLabel(calendar, week)}</Text>
+              {renderAwards(awards.weekly.filter(award => award.week === week))}
+            </View>
+          ))}
+        </>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    backgroundColor: '#fff',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+  },
+  section: {
+    backgroundColor: '#fff',
+    marginTop: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 4,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingHorizontal: 32,
+    paddingVertical: 48,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#666',
+    marginBottom: 8,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+});
@@ -0,0 +1,438 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Switch,
+  RefreshControl,
+  Alert,
+} from 'react-native';
+import { useLocalSearchParams } from 'expo-router';
+import { supabase } from '@/lib/supabase';
+import {
+  fetchLedger,
+  fetchLeagueMembers,
+  fetchLeagueWithRole,
+  setDuesPaid,
+  updateLeagueSettings,
+  type LeagueMemberWithEmail,
+  type LeagueWithRole,
+} from '@/lib/repository';
+import { formatMoney, type Ledger, type Payout } from '@/lib/ledger';
+import { getWeekLabel, guessSeason, isWeekComplete } from '@/lib/season';
+import { useSeasonCalendar } from '@/components/useSeasonCalendar';
+
+const PLACE_LABELS = ['1st', '2nd', '3rd'];
+
+// Blank clears an amount; anything else must be a non-negative number
+function parseAmount(text: string): number | null | undefined {
+  if (text.trim() === '') return null;
+  const amount = Number(text);
+  return Number.isFinite(amount) && amount >= 0 ? amount : undefined;
+}
+
+export default function LeagueLedgerScreen() {
+  const { leagueId } = useLocalSearchParams<{ leagueId: string }>();
+  const [league, setLeague] = useState<LeagueWithRole | null>(null);
+  const [members, setMembers] = useState<LeagueMemberWithEmail[]>([]);
+  const [ledger, setLedger] = useState<Ledger>({ members: [], payouts: [], collected: 0, outstanding: 0, paid_out: 0 });
+  const [loading, setLoading] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const calendar = useSeasonCalendar();
+  const currentSeason = calendar?.season ?? guessSeason();
+
+  // Payout structure form (commissioner only)
+  const [entryFee, setEntryFee] = useState('');
+  const [weeklyPayout, setWeeklyPayout] = useState('');
+  const [seasonPayouts, setSeasonPayouts] = useState('');
+
+  useEffect(() => {
+    if (leagueId && calendar) {
+      loadLedger();
+    }
+  }, [leagueId, calendar]);
+
+  useEffect(() => {
+    if (league) {
+      setEntryFee(league.entry_fee != null ? String(league.entry_fee) : '');
+      setWeeklyPayout(league.weekly_payout != null ? String(league.weekly_payout) : '');
+      setSeasonPayouts((league.season_payouts ?? []).join(', '));
+    }
+  }, [league]);
+
+  const loadLedger = async () => {
+    if (!leagueId) return;
+
+    try {
+      setLoading(true);
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const [leagueWithRole, leagueMembers, summary] = await Promise.all([
+        fetchLeagueWithRole(leagueId, user.id),
+        fetchLeagueMembers(leagueId),
+        fetchLedger(leagueId, currentSeason, week => isWeekComplete(calendar, week)),
+      ]);
+      setLeague(leagueWithRole);
+      setMembers(leagueMembers);
+      setLedger(summary);
+    } catch (error) {
+      console.error('Error loading ledger:', error);
+      Alert.alert('Error', 'Failed to load the ledger');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const toggleDuesPaid = async (userId: string, paid: boolean) => {
+    if (!leagueId) return;
+
+    try {
+      await setDuesPaid(leagueId, currentSeason, userId, paid);
+      await loadLedger();
+    } catch (error) {
+      console.error('Error updating dues:', error);
+      Alert.alert('Error', 'Failed to update the payment');
+    }
+  };
+
+  const savePayoutStructure = async () => {
+    if (!leagueId || !league) return;
+
+    const fee = parseAmount(entryFee);
+    const weekly = parseAmount(weeklyPayout);
+    const season = seasonPayouts.split(',').filter(part => part.trim() !== '').map(parseAmount);
+    if (fee === undefined || weekly === undefined || season.some(amount => amount == null)) {
+      Alert.alert('Error', 'Please enter amounts as numbers, with season prizes separated by commas');
+      return;
+    }
+
+    const settings = {
+      entry_fee: fee,
+      weekly_payout: weekly,
+      season_payouts: season.length > 0 ? (season as number[]) : null,
+    };
+
+    try {
+      setLoading(true);
+      await updateLeagueSettings(leagueId, settings);
+      setLeague({ ...league, ...settings });
+      await loadLedger();
+      Alert.alert('Success', 'Payout structure updated!');
+    } catch (error) {
+      console.error('Error saving payout structure:', error);
+      Alert.alert('Error', 'Failed to save the payout structure');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getUserName = (id: string) => {
+    const email = members.find(member => member.user_id === id)?.users?.email;
+    return (email || 'Unknown').split('@')[0];
+  };
+
+  const describePayout = (payout: Payout) =>
+    payout.kind === 'weekly'
+      ? `${getWeekLabel(calendar, payout.week as number)} High Score`
+      : `Season ${PLACE_LABELS[(payout.place as number) - 1] ?? `#${payout.place}`} Place`;
+
+  const isCommissioner = league?.role === 'commish';
+  const hasStructure = !!league?.entry_fee || !!league?.weekly_payout || (league?.season_payouts ?? []).length > 0;
+
+  if (league && !isCommissioner && !hasStructure) {
+    return (
+      <View style={[styles.container, styles.emptyState]}>
+        <Text style={styles.emptyText}>No Dues or Prizes</Text>
+        <Text style={styles.emptySubtext}>
+          The commissioner hasn't set an entry fee or payouts for this league.
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView
+      style={styles.container}
+      refreshControl={
+        <RefreshControl refreshing={refreshing} onRefresh={() => {
+          setRefreshing(true);
+          loadLedger();
+        }} />
+      }
+    >
+      {/* Header */}
+      <View style={styles.header}>
+        <Text style={styles.title}>{league?.name || 'League'} Ledger</Text>
+        <Text style={styles.subtitle}>
+          Season {currentSeason} • Entry fee {formatMoney(league?.entry_fee ?? 0)} • Bookkeeping only
+        </Text>
+        <View style={styles.totals}>
+          <View style={styles.total}>
+            <Text style={styles.totalValue}>{formatMoney(ledger.collected)}</Text>
+            <Text style={styles.totalLabel}>Collected</Text>
+          </View>
+          <View style={styles.total}>
+            <Text style={styles.totalValue}>{formatMoney(ledger.outstanding)}</Text>
+            <Text style={styles.totalLabel}>Outstanding</Text>
+          </View>
+          <View style={styles.total}>
+            <Text style={styles.totalValue}>{formatMoney(ledger.paid_out)}</Text>
+            <Text style={styles.totalLabel}>Paid Out</Text>
+          </View>
+        </View>
+      </View>
+
+      {/* Members */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Members</Text>
+        {ledger.members.map(member => (
+          <View key={member.user_id} style={styles.memberRow}>
+            <View style={styles.memberInfo}>
+              <Text style={styles.memberName}>{getUserName(member.user_id)}</Text>
+              <Text style={styles.memberDetail}>
+                Won {formatMoney(member.winnings)}
+                {member.projected > 0 ? ` • ${formatMoney(member.projected)} pending` : ''}
+              </Text>
+            </View>
+            {isCommissioner ? (
+              <Switch
+                value={member.paid}
+                onValueChange={paid => toggleDuesPaid(member.user_id, paid)}
+                disabled={loading}
+              />
+            ) : (
+              <Text style={[styles.duesBadge, member.paid ? styles.paidBadge : styles.unpaidBadge]}>
+                {member.paid ? 'Paid' : 'Unpaid'}
+              </Text>
+            )}
+          </View>
+        ))}
+      </View>
+
+      {/* Payouts */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Payouts</Text>
+        {ledger.payouts.length === 0 ? (
+          <Text style={styles.memberDetail}>Prizes show up here once weeks are graded.</Text>
+        ) : (
+          ledger.payouts.map(payout => (
+            <View key={`${payout.kind}-${payout.week}-${payout.place}-${payout.user_id}`} style={styles.payoutRow}>
+              <View style={styles.memberInfo}>
+                <Text style={styles.payoutTitle}>{describePayout(payout)}</Text>
+                <Text style={styles.memberDetail}>
+                  {getUserName(payout.user_id)}{payout.final ? '' : ' • pending'}
+                </Text>
+              </View>
+              <Text style={[styles.payoutAmount, !payout.final && styles.pendingAmount]}>
+                {formatMoney(payout.amount)}
+              </Text>
+            </View>
+          ))
+        )}
+      </View>
+
+      {/* Payout Structure (commissioner only) */}
+      {isCommissioner && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Payout Structure</Text>
+
+          <Text style={styles.inputLabel}>Entry Fee</Text>
+          <TextInput
+            style={styles.input}
+            value={entryFee}
+            onChangeText={setEntryFee}
+            placeholder="e.g., 20"
+            keyboardType="decimal-pad"
+          />
+
+          <Text style={styles.inputLabel}>Weekly High Score</Text>
+          <TextInput
+            style={styles.input}
+            value={weeklyPayout}
+            onChangeText={setWeeklyPayout}
+            placeholder="e.g., 10"
+            keyboardType="decimal-pad"
+          />
+
+          <Text style={styles.inputLabel}>Season Prizes (1st, 2nd, 3rd)</Text>
+          <TextInput
+            style={styles.input}
+            value={seasonPayouts}
+            onChangeText={setSeasonPayouts}
+            placeholder="e.g., 100, 50, 25"
+            keyboardType="numbers-and-punctuation"
+          />
+
+          <TouchableOpacity
+            style={[styles.saveButton, loading && styles.disabledButton]}
+            onPress={savePayoutStructure}
+            disabled={loading}
+          >
+            <Text style={styles.saveButtonText}>Save Payout Structure</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    backgroundColor: '#fff',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+  },
+  totals: {
+    flexDirection: 'row',
+    marginTop: 12,
+  },
+  total: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  totalValue: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  totalLabel: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  section: {
+    backgroundColor: '#fff',
+    marginTop: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 4,
+  },
+  memberRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  memberInfo: {
+    flex: 1,
+  },
+  memberName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  memberDetail: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  duesBadge: {
+    fontSize: 12,
+    fontWeight: '600',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  paidBadge: {
+    backgroundColor: '#d4edda',
+    color: '#28a745',
+  },
+  unpaidBadge: {
+    backgroundColor: '#f8d7da',
+    color: '#dc3545',
+  },
+  payoutRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  payoutTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  payoutAmount: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#34C759',
+  },
+  pendingAmount: {
+    color: '#999',
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginTop: 8,
+    marginBottom: 4,
+    color: '#333',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  saveButton: {
+    backgroundColor: '#f0f0f0',
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  saveButtonText: {
+    color: '#007AFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  emptyState: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#666',
+    marginBottom: 8,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+});
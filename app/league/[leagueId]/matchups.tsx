@@ -0,0 +1,385 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  RefreshControl,
+  Alert,
+} from 'react-native';
+import { useLocalSearchParams } from 'expo-router';
+import { supabase } from '@/lib/supabase';
+import {
+  fetchHeadToHead,
+  fetchLeagueMembers,
+  fetchLeagueWithRole,
+  saveMatchupSchedule,
+  type HeadToHeadSummary,
+  type LeagueMemberWithEmail,
+  type LeagueWithRole,
+} from '@/lib/repository';
+import { formatHeadToHeadRecord, generateRoundRobin, type MatchupResult } from '@/lib/matchups';
+import {
+  clampWeek,
+  DEFAULT_FIRST_WEEK,
+  DEFAULT_LAST_WEEK,
+  getFirstUnstartedWeek,
+  getWeekLabel,
+  guessSeason,
+  isWeekComplete,
+} from '@/lib/season';
+import { useSeasonCalendar } from '@/components/useSeasonCalendar';
+
+export default function LeagueMatchupsScreen() {
+  const { leagueId } = useLocalSearchParams<{ leagueId: string }>();
+  const [league, setLeague] = useState<LeagueWithRole | null>(null);
+  const [members, setMembers] = useState<LeagueMemberWithEmail[]>([]);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [summary, setSummary] = useState<HeadToHeadSummary>({ results: [], records: [] });
+  const [weekOverride, setWeekOverride] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const calendar = useSeasonCalendar();
+  const currentSeason = calendar?.season ?? guessSeason();
+  const selectedWeek = weekOverride ?? calendar?.currentWeek ?? DEFAULT_FIRST_WEEK;
+  const firstWeek = calendar?.firstWeek ?? DEFAULT_FIRST_WEEK;
+  const lastWeek = calendar?.lastWeek ?? DEFAULT_LAST_WEEK;
+
+  useEffect(() => {
+    if (leagueId && calendar) {
+      loadMatchups();
+    }
+  }, [leagueId, calendar]);
+
+  const loadMatchups = async () => {
+    if (!leagueId) return;
+
+    try {
+      setLoading(true);
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+      setUserId(user.id);
+
+      const [leagueWithRole, leagueMembers, headToHead] = await Promise.all([
+        fetchLeagueWithRole(leagueId, user.id),
+        fetchLeagueMembers(leagueId),
+        fetchHeadToHead(leagueId, currentSeason, week => isWeekComplete(calendar, week)),
+      ]);
+      setLeague(leagueWithRole);
+      setMembers(leagueMembers);
+      setSummary(headToHead);
+    } catch (error) {
+      console.error('Error loading matchups:', error);
+      Alert.alert('Error', 'Failed to load matchups');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  // Weeks that have kicked off keep their matchups; regenerating starts from
+  // the first week that hasn't
+  const scheduleFromWeek = calendar ? getFirstUnstartedWeek(calendar) : null;
+
+  const generateSchedule = async () => {
+    if (!leagueId || !calendar || scheduleFromWeek === null) return;
+
+    const fromWeek = scheduleFromWeek;
+    const weeks = calendar.weeks.map(week => week.week).filter(week => week >= fromWeek);
+    const userIds = [...members]
+      .sort((a, b) => a.joined_at.localeCompare(b.joined_at))
+      .map(member => member.user_id);
+    // Pick the rotation up after the rounds already kept
+    const keptRounds = new Set(summary.results.filter(result => result.week < fromWeek).map(result => result.week)).size;
+
+    try {
+      setLoading(true);
+      await saveMatchupSchedule(leagueId, currentSeason, generateRoundRobin(userIds, weeks, keptRounds), fromWeek);
+      await loadMatchups();
+    } catch (error) {
+      console.error('Error generating schedule:', error);
+      Alert.alert('Error', 'Failed to generate the schedule');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const confirmGenerateSchedule = () => {
+    if (scheduleFromWeek === null) {
+      Alert.alert('Season Under Way', 'Every week has kicked off, so there are no weeks left to schedule.');
+      return;
+    }
+
+    Alert.alert(
+      'Generate Schedule',
+      `Pair all ${members.length} members for ${getWeekLabel(calendar, scheduleFromWeek)} onward? Existing matchups from that week on are replaced.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Generate', onPress: generateSchedule },
+      ]
+    );
+  };
+
+  const getUserName = (id: string | null) => {
+    const email = members.find(member => member.user_id === id)?.users?.email;
+    return (email || 'Unknown').split('@')[0];
+  };
+
+  const renderSide = (id: string, points: number, result: MatchupResult) => {
+    const isWinner = result.winner_user_id === id;
+    const record = summary.records.find(candidate => candidate.user_id === id);
+
+    return (
+      <View style={styles.side}>
+        <Text style={[styles.sideName, id === userId && styles.ownName]} numberOfLines={1}>
+          {getUserName(id)}
+        </Text>
+        <Text style={styles.sideRecord}>{formatHeadToHeadRecord(record)}</Text>
+        <Text style={[styles.sidePoints, isWinner && styles.winnerPoints]}>
+          {points.toFixed(1)}{isWinner ? ' W' : ''}
+        </Text>
+      </View>
+    );
+  };
+
+  const renderMatchup = ({ item }: { item: MatchupResult }) => {
+    if (!item.away_user_id) {
+      return (
+        <View style={styles.matchupRow}>
+          <Text style={styles.byeText}>{getUserName(item.home_user_id)} has a bye</Text>
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.matchupRow}>
+        {renderSide(item.home_user_id, item.home_points, item)}
+        <Text style={styles.versus}>{item.final ? (item.winner_user_id ? 'Final' : 'Tie') : 'vs'}</Text>
+        {renderSide(item.away_user_id, item.away_points ?? 0, item)}
+      </View>
+    );
+  };
+
+  if (league && !league.head_to_head) {
+    return (
+      <View style={[styles.container, styles.emptyContainer]}>
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyText}>Head-to-Head Is Off</Text>
+          <Text style={styles.emptySubtext}>
+            The commissioner can turn on weekly matchups in League Settings.
+          </Text>
+        </View>
+      </View>
+    );
+  }
+
+  const weekMatchups = summary.results.filter(result => result.week === selectedWeek);
+  const ownRecord = summary.records.find(record => record.user_id === userId);
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Text style={styles.title}>{league?.name || 'League'} Matchups</Text>
+        <Text style={styles.subtitle}>
+          Season {currentSeason} • Your record {formatHeadToHeadRecord(ownRecord)}
+        </Text>
+        {league?.role === 'commish' && (
+          <TouchableOpacity
+            style={[styles.generateButton, loading && styles.disabledButton]}
+            onPress={confirmGenerateSchedule}
+            disabled={loading}
+          >
+            <Text style={styles.generateButtonText}>
+              {summary.results.length > 0 ? 'Regenerate Schedule' : 'Generate Schedule'}
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {/* Week Selector */}
+      <View style={styles.weekSelector}>
+        <Text style={styles.selectorLabel}>{getWeekLabel(calendar, selectedWeek)}:</Text>
+        <View style={styles.weekControls}>
+          <TouchableOpacity
+            style={styles.weekButton}
+            onPress={() => setWeekOverride(clampWeek(calendar, selectedWeek - 1))}
+            disabled={selectedWeek <= firstWeek}
+          >
+            <Text style={styles.weekButtonText}>← Prev</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.weekButton}
+            onPress={() => setWeekOverride(clampWeek(calendar, selectedWeek + 1))}
+            disabled={selectedWeek >= lastWeek}
+          >
+            <Text style={styles.weekButtonText}>Next →</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {/* Matchups List */}
+      <FlatList
+        data={weekMatchups}
+        renderItem={renderMatchup}
+        keyExtractor={(item) => `${item.week}-${item.home_user_id}`}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={() => {
+            setRefreshing(true);
+            loadMatchups();
+          }} />
+        }
+        ListEmptyComponent={
+          loading ? null : (
+            <View style={styles.emptyState}>
+              <Text style={styles.emptyText}>No Matchups</Text>
+              <Text style={styles.emptySubtext}>
+                Matchups appear once the commissioner generates the schedule.
+              </Text>
+            </View>
+          )
+        }
+        contentContainerStyle={weekMatchups.length === 0 ? styles.emptyContainer : undefined}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    backgroundColor: '#fff',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+  },
+  generateButton: {
+    backgroundColor: '#f0f0f0',
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  generateButtonText: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  weekSelector: {
+    backgroundColor: '#fff',
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  selectorLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  weekControls: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  weekButton: {
+    backgroundColor: '#f0f0f0',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+  },
+  weekButtonText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  matchupRow: {
+    backgroundColor: '#fff',
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 16,
+    paddingHorizontal: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  side: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  sideName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  ownName: {
+    color: '#007AFF',
+  },
+  sideRecord: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  sidePoints: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 4,
+  },
+  winnerPoints: {
+    color: '#34C759',
+  },
+  versus: {
+    width: 48,
+    textAlign: 'center',
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#999',
+  },
+  byeText: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 14,
+    color: '#666',
+    fontStyle: 'italic',
+  },
+  emptyContainer: {
+    flex: 1,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#666',
+    marginBottom: 8,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+});
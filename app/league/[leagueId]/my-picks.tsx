@@ -2,16 +2,14 @@ import React, { useEffect, useState } from 'react';
 import { View, Text, StyleSheet, FlatList, TouchableOpacity, Alert, RefreshControl } from 'react-native';
 import { useLocalSearchParams } from 'expo-router';
 import { supabase } from '@/lib/supabase';
-import type { Pick, League } from '@/lib/supabase';
-
-type PickWithGame = Pick & { 
-  games: {
-    home: string;
-    away: string;
-    kickoff: string;
-    status: string;
-  };
-};
+import { getPickGrade, tallyGrades } from '@/lib/grading';
+import { describePick, getRecordLabel, isStraightUp } from '@/lib/pick-mode';
+import { isSeasonArchived } from '@/lib/league-seasons';
+import { isPickLocked } from '@/lib/schedule';
+import { deletePick as removePick, fetchLeague, fetchPickHistory, type PickWithGame } from '@/lib/repository';
+import type { League } from '@/lib/supabase';
+import SeasonSelector from '@/components/SeasonSelector';
+import { useLeagueSeasons } from '@/components/useLeagueSeasons';
 
 type WeeklyPicks = {
   week: number;
@@ -25,6 +23,9 @@ export default function LeagueMyPicksScreen() {
   const [weeklyPicks, setWeeklyPicks] = useState<WeeklyPicks[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [seasonOverride, setSeasonOverride] = useState<number | null>(null);
+  const { seasons, currentSeason } = useLeagueSeasons(leagueId);
+  const selectedSeason = seasonOverride ?? currentSeason;
 
   useEffect(() => {
     if (leagueId) {
@@ -35,14 +36,7 @@ export default function LeagueMyPicksScreen() {
 
   const loadLeague = async () => {
     try {
-      const { data, error } = await supabase
-        .from('leagues')
-        .select('*')
-        .eq('id', leagueId)
-        .single();
-
-      if (error) throw error;
-      setLeague(data);
+      setLeague(await fetchLeague(leagueId));
     } catch (error) {
       console.error('Error loading league:', error);
     }
@@ -54,29 +48,12 @@ export default function LeagueMyPicksScreen() {
       const { data: user } = await supabase.auth.getUser();
       if (!user.user) return;
 
-      const { data, error } = await supabase
-        .from('picks')
-        .select(`
-          *,
-          games:game_id (
-            home,
-            away,
-            kickoff,
-            status
-          )
-        `)
-        .eq('league_id', leagueId)
-        .eq('user_id', user.user.id)
-        .order('season', { ascending: false })
-        .order('week', { ascending: false })
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
+      const data = await fetchPickHistory(leagueId, user.user.id);
       
       // Group picks by week and season
       const groupedPicks: { [key: string]: WeeklyPicks } = {};
       
-      (data || []).forEach((pick: any) => {
+      data.forEach(pick => {
         const key = `${pick.season}-${pick.week}`;
         if (!groupedPicks[key]) {
           groupedPicks[key] = {
@@ -104,11 +81,19 @@ export default function LeagueMyPicksScreen() {
     }
   };
 
-  const deletePick = async (pick: Pick) => {
-    if (pick.locked) {
+  // Locked by the backend or by the league's lock mode
+  const isLockedPick = (pick: PickWithGame) =>
+    pick.locked || (!!pick.games && isPickLocked(new Date(pick.games.kickoff), league));
+
+  const deletePick = async (pick: PickWithGame) => {
+    if (isLockedPick(pick)) {
       Alert.alert('Cannot Delete', 'This pick is locked and cannot be modified');
       return;
     }
+    if (isSeasonArchived(seasons, pick.season)) {
+      Alert.alert('Cannot Delete', 'This season is archived and its picks are read-only');
+      return;
+    }
 
     Alert.alert(
       'Delete Pick',
@@ -120,16 +105,7 @@ export default function LeagueMyPicksScreen() {
           style: 'destructive',
           onPress: async () => {
             try {
-              const { error } = await supabase
-                .from('picks')
-                .delete()
-                .eq('league_id', pick.league_id)
-                .eq('user_id', pick.user_id)
-                .eq('season', pick.season)
-                .eq('week', pick.week)
-                .eq('game_id', pick.game_id);
-
-              if (error) throw error;
+              await removePick(pick);
               fetchPicks();
             } catch (error) {
               console.error('Error deleting pick:', error);
@@ -141,25 +117,31 @@ export default function LeagueMyPicksScreen() {
     );
   };
 
+  const pushPoints = league?.push_points ?? 0;
+  const isConfidence = league?.scoring_mode === 'confidence';
+  const straightUp = isStraightUp(league);
+
   const renderPick = ({ item }: { item: PickWithGame }) => {
+    const grade = getPickGrade(item, item.games, pushPoints);
+
     const getStatusColor = () => {
-      if (item.result === 'WIN') return '#28a745';
-      if (item.result === 'LOSS') return '#dc3545';
-      if (item.result === 'PUSH') return '#ffc107';
+      if (grade?.result === 'WIN') return '#28a745';
+      if (grade?.result === 'LOSS') return '#dc3545';
+      if (grade?.result === 'PUSH') return '#ffc107';
       if (item.locked) return '#6c757d';
       return '#007bff';
     };
 
     const getStatusText = () => {
-      if (item.result) return item.result;
+      if (grade) return grade.result;
       if (item.locked) return 'LOCKED';
       return 'PENDING';
     };
 
     const getStatusIcon = () => {
-      if (item.result === 'WIN') return '✅';
-      if (item.result === 'LOSS') return '❌';
-      if (item.result === 'PUSH') return '➖';
+      if (grade?.result === 'WIN') return '✅';
+      if (grade?.result === 'LOSS') return '❌';
+      if (grade?.result === 'PUSH') return '➖';
       if (item.locked) return '🔒';
       return '⏳';
     };
@@ -179,21 +161,27 @@ export default function LeagueMyPicksScreen() {
         
         <View style={styles.pickDetails}>
           <Text style={styles.pickText}>
-            Picked: <Text style={styles.pickSide}>{item.side}</Text> ({item.line_value > 0 ? '+' : ''}{item.line_value})
+            Picked: <Text style={styles.pickSide}>{describePick(item, item.games, straightUp)}</Text>{item.confidence ? ` · Confidence ${item.confidence}` : ''}
           </Text>
-          {item.points !== undefined && (
-            <Text style={[styles.pointsText, { color: item.points > 0 ? '#28a745' : '#dc3545' }]}>
-              Points: {item.points > 0 ? '+' : ''}{item.points}
+          {grade && (
+            <Text style={[styles.pointsText, { color: grade.points > 0 ? '#28a745' : '#dc3545' }]}>
+              Points: {grade.points > 0 ? '+' : ''}{grade.points}
             </Text>
           )}
-          {!item.result && (
+          {!grade && (
             <Text style={styles.pendingText}>
               {item.locked ? 'Waiting for game result' : 'Not submitted yet'}
             </Text>
           )}
         </View>
 
-        {!item.locked && (
+        {!!item.edit_history?.length && (
+          <Text style={styles.editedText}>
+            Changed {item.edit_history.length} {item.edit_history.length === 1 ? 'time' : 'times'} before it locked
+          </Text>
+        )}
+
+        {!isLockedPick(item) && !isSeasonArchived(seasons, item.season) && (
           <TouchableOpacity
             style={styles.deleteButton}
             onPress={() => deletePick(item)}
@@ -206,25 +194,26 @@ export default function LeagueMyPicksScreen() {
   };
 
   const renderWeekSection = ({ item }: { item: WeeklyPicks }) => {
-    const weekWins = item.picks.filter(p => p.result === 'WIN').length;
-    const weekLosses = item.picks.filter(p => p.result === 'LOSS').length;
-    const weekPushes = item.picks.filter(p => p.result === 'PUSH').length;
-    const weekPending = item.picks.filter(p => !p.result).length;
+    const grades = item.picks.map(p => getPickGrade(p, p.games, pushPoints));
+    const { wins: weekWins, losses: weekLosses, pushes: weekPushes, points: weekPoints } = tallyGrades(grades);
+    const weekPending = grades.filter(g => !g).length;
     
     return (
       <View style={styles.weekSection}>
         <View style={styles.weekHeader}>
           <Text style={styles.weekTitle}>Week {item.week}, {item.season}</Text>
           <View style={styles.weekStats}>
+            <Text style={styles.recordLabel}>{getRecordLabel(league)}</Text>
             {weekWins > 0 && <Text style={styles.weekWins}>{weekWins}W</Text>}
             {weekLosses > 0 && <Text style={styles.weekLosses}>{weekLosses}L</Text>}
             {weekPushes > 0 && <Text style={styles.weekPushes}>{weekPushes}P</Text>}
+            {isConfidence && weekPoints > 0 && <Text style={styles.weekWins}>{weekPoints} pts</Text>}
             {weekPending > 0 && <Text style={styles.weekPending}>{weekPending} pending</Text>}
           </View>
         </View>
         
         {item.picks.map((pick, index) => (
-          <View key={`${pick.league_id}-${pick.game_id}`} style={styles.pickInWeek}>
+          <View key={`${pick.league_id}-${pick.game_id}-${pick.side}`} style={styles.pickInWeek}>
             {renderPick({ item: pick })}
           </View>
         ))}
@@ -240,21 +229,33 @@ export default function LeagueMyPicksScreen() {
     );
   }
 
+  // Before the season history loads every season is listed
+  const seasonPicks = selectedSeason === null
+    ? weeklyPicks
+    : weeklyPicks.filter(week => week.season === selectedSeason);
+
   return (
     <View style={styles.container}>
       <View style={styles.header}>
         <Text style={styles.title}>My Picks</Text>
         <Text style={styles.subtitle}>{league?.name}</Text>
+        {selectedSeason !== null && isSeasonArchived(seasons, selectedSeason) && (
+          <Text style={styles.archivedText}>📦 Season {selectedSeason} is archived and read-only</Text>
+        )}
       </View>
+
+      {selectedSeason !== null && (
+        <SeasonSelector seasons={seasons} selectedSeason={selectedSeason} onSelect={setSeasonOverride} />
+      )}
       
-      {weeklyPicks.length === 0 ? (
+      {seasonPicks.length === 0 ? (
         <View style={styles.centered}>
           <Text style={styles.emptyText}>No picks yet</Text>
           <Text style={styles.emptySubtext}>Go to the Slate tab to make picks</Text>
         </View>
       ) : (
         <FlatList
-          data={weeklyPicks}
+          data={seasonPicks}
           renderItem={renderWeekSection}
           keyExtractor={(item) => `${item.season}-${item.week}`}
           showsVerticalScrollIndicator={false}
@@ -292,6 +293,11 @@ const styles = StyleSheet.create({
     color: '#666',
     marginTop: 4,
   },
+  archivedText: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginTop: 4,
+  },
   centered: {
     flex: 1,
     justifyContent: 'center',
@@ -356,6 +362,11 @@ const styles = StyleSheet.create({
     paddingVertical: 2,
     borderRadius: 4,
   },
+  recordLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6c757d',
+  },
   weekPending: {
     fontSize: 12,
     fontWeight: '600',
@@ -423,6 +434,11 @@ const styles = StyleSheet.create({
     fontStyle: 'italic',
     marginTop: 2,
   },
+  editedText: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 8,
+  },
   deleteButton: {
     backgroundColor: '#dc3545',
     padding: 8,
@@ -0,0 +1,343 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+  Alert,
+} from 'react-native';
+import { useLocalSearchParams } from 'expo-router';
+import { supabase } from '@/lib/supabase';
+import {
+  fetchLeagueMembers,
+  fetchLeagueWithRole,
+  fetchPlayoffBracket,
+  seedPlayoffBracket,
+  type LeagueMemberWithEmail,
+  type LeagueWithRole,
+} from '@/lib/repository';
+import { getPlayoffRoundName, type PlayoffBracket, type PlayoffEntrant, type PlayoffGame } from '@/lib/playoffs';
+import { getWeekLabel, guessSeason, isWeekComplete } from '@/lib/season';
+import { useSeasonCalendar } from '@/components/useSeasonCalendar';
+
+const DECIDED_BY_NOTES: Partial<Record<NonNullable<PlayoffGame['decided_by']>, string>> = {
+  tiebreak: 'Tied • won on tiebreak',
+  seed: 'Tied • higher seed advances',
+};
+
+export default function LeaguePlayoffsScreen() {
+  const { leagueId } = useLocalSearchParams<{ leagueId: string }>();
+  const [league, setLeague] = useState<LeagueWithRole | null>(null);
+  const [members, setMembers] = useState<LeagueMemberWithEmail[]>([]);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [bracket, setBracket] = useState<PlayoffBracket>({ rounds: [], champion: null });
+  const [loading, setLoading] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const calendar = useSeasonCalendar();
+  const currentSeason = calendar?.season ?? guessSeason();
+
+  useEffect(() => {
+    if (leagueId && calendar) {
+      loadBracket();
+    }
+  }, [leagueId, calendar]);
+
+  const loadBracket = async () => {
+    if (!leagueId) return;
+
+    try {
+      setLoading(true);
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+      setUserId(user.id);
+
+      const [leagueWithRole, leagueMembers, playoffBracket] = await Promise.all([
+        fetchLeagueWithRole(leagueId, user.id),
+        fetchLeagueMembers(leagueId),
+        fetchPlayoffBracket(leagueId, currentSeason, week => isWeekComplete(calendar, week)),
+      ]);
+      setLeague(leagueWithRole);
+      setMembers(leagueMembers);
+      setBracket(playoffBracket);
+    } catch (error) {
+      console.error('Error loading playoffs:', error);
+      Alert.alert('Error', 'Failed to load the playoff bracket');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const seedBracket = async () => {
+    if (!leagueId) return;
+
+    try {
+      setLoading(true);
+      await seedPlayoffBracket(leagueId, currentSeason);
+      await loadBracket();
+    } catch (error) {
+      console.error('Error seeding playoffs:', error);
+      Alert.alert('Error', 'Failed to seed the playoffs');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const confirmSeedBracket = () => {
+    Alert.alert(
+      'Seed Playoffs',
+      `Seed the top ${league?.playoff_teams} from the standings through ${getWeekLabel(calendar, league?.playoff_after_week ?? 0)}?` +
+        (bracket.rounds.length > 0 ? ' The current bracket is replaced.' : ''),
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Seed', onPress: seedBracket },
+      ]
+    );
+  };
+
+  const getUserName = (id: string) => {
+    const email = members.find(member => member.user_id === id)?.users?.email;
+    return (email || 'Unknown').split('@')[0];
+  };
+
+  const renderEntrant = (entrant: PlayoffEntrant | null, points: number | null, game: PlayoffGame) => {
+    if (!entrant) {
+      return (
+        <View style={styles.entrantRow}>
+          <Text style={styles.pendingText}>{game.decided_by === 'bye' ? 'Bye' : 'TBD'}</Text>
+        </View>
+      );
+    }
+
+    const isWinner = game.winner?.user_id === entrant.user_id && game.decided_by !== 'bye';
+    const isLoser = !!game.winner && !isWinner && game.decided_by !== 'bye';
+
+    return (
+      <View style={styles.entrantRow}>
+        <Text style={styles.seed}>{entrant.seed}</Text>
+        <Text
+          style={[styles.entrantName, entrant.user_id === userId && styles.ownName, isLoser && styles.loserText]}
+          numberOfLines={1}
+        >
+          {getUserName(entrant.user_id)}
+        </Text>
+        {points !== null && (
+          <Text style={[styles.entrantPoints, isWinner && styles.winnerPoints, isLoser && styles.loserText]}>
+            {points.toFixed(1)}
+          </Text>
+        )}
+      </View>
+    );
+  };
+
+  const renderGame = (game: PlayoffGame, slot: number) => (
+    <View key={`${game.round}-${slot}`} style={styles.gameCard}>
+      {renderEntrant(game.high, game.high_points, game)}
+      {renderEntrant(game.low, game.low_points, game)}
+      {game.decided_by && DECIDED_BY_NOTES[game.decided_by] && (
+        <Text style={styles.decidedByText}>{DECIDED_BY_NOTES[game.decided_by]}</Text>
+      )}
+    </View>
+  );
+
+  if (league && !league.playoff_teams) {
+    return (
+      <View style={[styles.container, styles.emptyState]}>
+        <Text style={styles.emptyText}>Playoffs Are Off</Text>
+        <Text style={styles.emptySubtext}>
+          The commissioner can add an end-of-season playoff in League Settings.
+        </Text>
+      </View>
+    );
+  }
+
+  const afterWeek = league?.playoff_after_week ?? 0;
+  const regularSeasonOver = isWeekComplete(calendar, afterWeek);
+  // Reseeding is allowed until the opening round is over
+  const canSeed = league?.role === 'commish' && regularSeasonOver &&
+    (bracket.rounds.length === 0 || !isWeekComplete(calendar, bracket.rounds[0][0].week));
+
+  return (
+    <ScrollView
+      style={styles.container}
+      refreshControl={
+        <RefreshControl refreshing={refreshing} onRefresh={() => {
+          setRefreshing(true);
+          loadBracket();
+        }} />
+      }
+    >
+      {/* Header */}
+      <View style={styles.header}>
+        <Text style={styles.title}>{league?.name || 'League'} Playoffs</Text>
+        <Text style={styles.subtitle}>
+          Season {currentSeason} • Top {league?.playoff_teams ?? '-'} after {getWeekLabel(calendar, afterWeek)}
+        </Text>
+        {bracket.champion && (
+          <Text style={styles.championText}>🏆 Champion: {getUserName(bracket.champion.user_id)}</Text>
+        )}
+        {canSeed && (
+          <TouchableOpacity
+            style={[styles.seedButton, loading && styles.disabledButton]}
+            onPress={confirmSeedBracket}
+            disabled={loading}
+          >
+            <Text style={styles.seedButtonText}>
+              {bracket.rounds.length > 0 ? 'Reseed Playoffs' : 'Seed Playoffs'}
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {bracket.rounds.length === 0 ? (
+        !loading && (
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyText}>No Bracket Yet</Text>
+            <Text style={styles.emptySubtext}>
+              {regularSeasonOver
+                ? 'The bracket appears once the commissioner seeds the playoffs.'
+                : `Seeds are set from the standings once ${getWeekLabel(calendar, afterWeek)} is final.`}
+            </Text>
+          </View>
+        )
+      ) : (
+        bracket.rounds.map((games, index) => (
+          <View key={index} style={styles.section}>
+            <Text style={styles.sectionTitle}>
+              {getPlayoffRoundName(index + 1, bracket.rounds.length)} • {getWeekLabel(calendar, games[0].week)}
+            </Text>
+            {games.map(renderGame)}
+          </View>
+        ))
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    backgroundColor: '#fff',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+  },
+  championText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 8,
+  },
+  seedButton: {
+    backgroundColor: '#f0f0f0',
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  seedButtonText: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  section: {
+    backgroundColor: '#fff',
+    marginTop: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  gameCard: {
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    marginBottom: 8,
+  },
+  entrantRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  seed: {
+    width: 24,
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#999',
+  },
+  entrantName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  ownName: {
+    color: '#007AFF',
+  },
+  entrantPoints: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  winnerPoints: {
+    color: '#34C759',
+  },
+  loserText: {
+    color: '#999',
+  },
+  pendingText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#999',
+    fontStyle: 'italic',
+    marginLeft: 24,
+  },
+  decidedByText: {
+    fontSize: 12,
+    color: '#666',
+    paddingBottom: 6,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+    paddingVertical: 48,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#666',
+    marginBottom: 8,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+});
@@ -9,35 +9,103 @@ import {
   TouchableOpacity,
 } from 'react-native';
 import { useLocalSearchParams } from 'expo-router';
-import { supabase, type League, type Game, type LeagueSlateLine, type Pick } from '@/lib/supabase';
+import { supabase, type Pick, type Tiebreaker } from '@/lib/supabase';
+import {
+  fetchLeagueMembers,
+  fetchLeagueWithRole,
+  fetchPickHistory,
+  fetchPicks,
+  fetchSlate,
+  fetchSlateConsensus,
+  fetchSurvivorStandings,
+  fetchTiebreaker,
+  submitTiebreaker,
+  type GameWithLine,
+  type LeagueMemberWithEmail,
+  type LeagueWithRole,
+} from '@/lib/repository';
+import type { GameConsensus } from '@/lib/consensus';
+import { clampWeek, DEFAULT_FIRST_WEEK, DEFAULT_LAST_WEEK, getSeasonWeek, getWeekLabel, guessSeason, isWeekComplete } from '@/lib/season';
+import { formatEasternTime, getPickLockAt, getWeekSchedule, isPickLocked } from '@/lib/schedule';
+import { assignConfidence, getConfidenceValues, nextConfidenceValue, validateConfidence } from '@/lib/confidence';
+import { getUsedTeams, validateSurvivorPick } from '@/lib/survivor';
+import {
+  areQuotasFilled,
+  describePick,
+  getExceededQuota,
+  getFullQuota,
+  getPickMarket,
+  getPickQuotas,
+  getWeeklyPickCount,
+  isSamePick,
+  isStraightUp,
+  offersTotals,
+  STRAIGHT_UP_LINE_VALUE,
+} from '@/lib/pick-mode';
+import { getPickDrafts, mergeWeekPicks, planPickChanges } from '@/lib/pick-edits';
+import { EMPTY_PICK_DRAFTS, flagPickDrafts, reconcilePickDrafts } from '@/lib/pick-drafts';
+import { clearPickDrafts, loadPickDrafts, savePickDrafts } from '@/lib/draft-storage';
+import { applyOutbox, getWeekOutbox } from '@/lib/pick-outbox';
+import { getTiebreakerGame } from '@/lib/tiebreakers';
 import GameCard from '@/components/GameCard';
-
-type LeagueWithRole = League & { role: 'commish' | 'player' };
-
-type GameWithLine = {
-  game: Game;
-  line: LeagueSlateLine;
-  existingPick?: Pick;
-};
+import TiebreakerEntry from '@/components/TiebreakerEntry';
+import { useSeasonCalendar } from '@/components/useSeasonCalendar';
+import { usePickOutbox } from '@/contexts/PickOutboxContext';
 
 export default function LeagueSlateScreen() {
   const { leagueId } = useLocalSearchParams<{ leagueId: string }>();
   const [league, setLeague] = useState<LeagueWithRole | null>(null);
   const [gamesWithLines, setGamesWithLines] = useState<GameWithLine[]>([]);
-  const [picks, setPicks] = useState<Pick[]>([]);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [serverPicks, setServerPicks] = useState<Pick[]>([]);  // As last read from the server
   const [tempPicks, setTempPicks] = useState<Pick[]>([]);
+  const [droppedPicks, setDroppedPicks] = useState<Pick[]>([]);  // Submitted picks to delete on save
   const [loading, setLoading] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
   const [submitting, setSubmitting] = useState(false);
-  const [currentSeason] = useState(2025);
-  const [currentWeek, setCurrentWeek] = useState(1);
+  const calendar = useSeasonCalendar();
+  const [selectedWeek, setSelectedWeek] = useState<number | null>(null);
+  const currentSeason = calendar?.season ?? guessSeason();
+  const currentWeek = selectedWeek ?? calendar?.currentWeek ?? DEFAULT_FIRST_WEEK;
+  const firstWeek = calendar?.firstWeek ?? DEFAULT_FIRST_WEEK;
+  const lastWeek = calendar?.lastWeek ?? DEFAULT_LAST_WEEK;
+  const isConfidence = league?.scoring_mode === 'confidence';
+  const isSurvivor = league?.league_type === 'survivor';
+  const straightUp = isStraightUp(league);
+  const pickQuotas = getPickQuotas(league);
+  // Every pick counts toward the weekly total, which also sizes confidence values
+  const pickLimit = getWeeklyPickCount(pickQuotas);
+  const [survivorStatus, setSurvivorStatus] = useState<{ usedTeams: string[]; alive: boolean } | null>(null);
+  const [tiebreaker, setTiebreaker] = useState<Tiebreaker | null>(null);
+  const [savingTiebreaker, setSavingTiebreaker] = useState(false);
+  const [consensus, setConsensus] = useState<Record<string, GameConsensus>>({});
+  const [members, setMembers] = useState<LeagueMemberWithEmail[]>([]);
+  const { outbox, settledAt, queuePicks, retry: retryOutbox, dismiss: dismissOutboxEntry } = usePickOutbox();
+  const weekOutbox = userId ? getWeekOutbox(outbox, leagueId, userId, currentSeason, currentWeek) : [];
+  // Submitted picks, counting changes still waiting in the outbox
+  const picks = applyOutbox(serverPicks, weekOutbox);
+  // The week's picks as they stand with unsaved changes applied
+  const weekPicks = mergeWeekPicks(picks, tempPicks, droppedPicks);
 
   useEffect(() => {
-    if (leagueId) {
+    if (leagueId && calendar) {
       loadLeague();
       loadSlateAndPicks();
     }
-  }, [leagueId, currentWeek]);
+  }, [leagueId, calendar, currentWeek]);
+
+  // Reload once queued changes reach the server or settle
+  useEffect(() => {
+    if (settledAt && leagueId && calendar) {
+      loadSlateAndPicks();
+    }
+  }, [settledAt]);
+
+  useEffect(() => {
+    if (isSurvivor) {
+      loadSurvivorStatus();
+    }
+  }, [isSurvivor, calendar, currentSeason, currentWeek]);
 
   const loadLeague = async () => {
     try {
@@ -45,31 +113,8 @@ export default function LeagueSlateScreen() {
       if (!user) return;
 
       // Get league with user's role
-      const { data: memberData, error } = await supabase
-        .from('league_members')
-        .select(`
-          role,
-          leagues (
-            id,
-            name,
-            invite_code,
-            created_by,
-            pick_limit,
-            push_points,
-            created_at
-          )
-        `)
-        .eq('league_id', leagueId)
-        .eq('user_id', user.id)
-        .single();
-
-      if (error) throw error;
-
-      if (memberData?.leagues) {
-        const leagueWithRole: LeagueWithRole = {
-          ...(memberData.leagues as any),
-          role: memberData.role as 'commish' | 'player'
-        };
+      const leagueWithRole = await fetchLeagueWithRole(leagueId, user.id);
+      if (leagueWithRole) {
         setLeague(leagueWithRole);
       }
     } catch (error) {
@@ -85,53 +130,30 @@ export default function LeagueSlateScreen() {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
-      // Load slate lines with games
-      const { data: slateData, error: slateError } = await supabase
-        .from('league_slate_lines')
-        .select(`
-          *,
-          games:game_id (
-            id,
-            season,
-            week,
-            home,
-            away,
-            kickoff,
-            status
-          )
-        `)
-        .eq('league_id', leagueId)
-        .eq('season', currentSeason)
-        .eq('week', currentWeek);
-
-      if (slateError) throw slateError;
-
-      // Load existing picks for this user
-      const { data: picksData, error: picksError } = await supabase
-        .from('picks')
-        .select('*')
-        .eq('league_id', leagueId)
-        .eq('user_id', user.id)
-        .eq('season', currentSeason)
-        .eq('week', currentWeek);
-
-      if (picksError) throw picksError;
-
-      // Combine slate and picks data
-      const gamesWithLines: GameWithLine[] = (slateData || [])
-        .filter(slate => slate.games)
-        .map(slate => {
-          const existingPick = (picksData || []).find(pick => pick.game_id === slate.game_id);
-          return {
-            game: slate.games as Game,
-            line: slate as LeagueSlateLine,
-            existingPick
-          };
-        });
-
-      setGamesWithLines(gamesWithLines);
-      setPicks(picksData || []);
-      setTempPicks([]); // Clear temp picks when reloading
+      // Load slate lines with games and existing picks for this user
+      const [slate, picksData, tiebreakerData, consensusData, leagueMembers] = await Promise.all([
+        fetchSlate(leagueId, currentSeason, currentWeek),
+        fetchPicks(leagueId, user.id, currentSeason, currentWeek),
+        fetchTiebreaker(leagueId, user.id, currentSeason, currentWeek),
+        fetchSlateConsensus(leagueId, currentSeason, currentWeek, user.id),
+        fetchLeagueMembers(leagueId),
+      ]);
+
+      // Restore unsaved changes from the device; the submitted picks may have caught up with some
+      const stored = await loadPickDrafts(user.id, leagueId, currentSeason, currentWeek).catch(error => {
+        console.error('Error restoring drafts:', error);
+        return EMPTY_PICK_DRAFTS;
+      });
+      const { drafts, dropped } = reconcilePickDrafts(picksData, stored);
+
+      setUserId(user.id);
+      setGamesWithLines(slate);
+      setServerPicks(picksData);
+      setTiebreaker(tiebreakerData);
+      setConsensus(consensusData);
+      setMembers(leagueMembers);
+      setTempPicks(drafts);
+      setDroppedPicks(dropped);
 
     } catch (error) {
       console.error('Error loading slate:', error);
@@ -142,40 +164,78 @@ export default function LeagueSlateScreen() {
     }
   };
 
-  const handlePickSide = async (gameId: string, side: 'HOME' | 'AWAY', lineValue: number) => {
+  // Teams already used this season and whether the player is still alive
+  const loadSurvivorStatus = async () => {
     if (!league) return;
 
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
-      const pickLimit = league.pick_limit || 5;
-      const existingTempPickForGame = tempPicks.find(pick => pick.game_id === gameId);
-      const existingSubmittedPick = picks.find(pick => pick.game_id === gameId);
-      const currentTempPicksCount = tempPicks.length;
+      // Status comes from the same replay as the survivor board, missed weeks included
+      const [pickHistory, board] = await Promise.all([
+        fetchPickHistory(leagueId, user.id),
+        fetchSurvivorStandings(leagueId, currentSeason, week => isWeekComplete(calendar, week)),
+      ]);
+      const history = pickHistory.filter(pick => pick.season === currentSeason);
+      const alive = board.find(entry => entry.user_id === user.id)?.alive ?? true;
+      setSurvivorStatus({ usedTeams: getUsedTeams(history, currentWeek), alive });
+    } catch (error) {
+      console.error('Error loading survivor status:', error);
+    }
+  };
+
+  const handlePickSide = async (gameId: string, side: Pick['side'], lineValue: number) => {
+    if (!league) return;
+
+    const game = gamesWithLines.find(item => item.game.id === gameId)?.game;
+
+    // Picks can change, submitted or not, until the game locks under the league's lock mode
+    if (game && isPickLocked(new Date(game.kickoff), league)) {
+      Alert.alert('Game Locked', 'Picks on this game are locked and can no longer change.');
+      return;
+    }
+
+    if (isSurvivor) {
+      const team = side === 'HOME' ? game?.home : game?.away;
+      const survivorError = team && validateSurvivorPick(team, survivorStatus?.usedTeams || [], survivorStatus || undefined);
+      if (survivorError) {
+        Alert.alert('Pick Not Allowed', survivorError);
+        return;
+      }
+    }
+
+    const market = getPickMarket(side);
+    if (straightUp && market === 'spread') {
+      lineValue = STRAIGHT_UP_LINE_VALUE;
+    }
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const target = { game_id: gameId, side };
+      const currentPick = weekPicks.find(pick => isSamePick(pick, target));
+      const existingSubmittedPick = picks.find(pick => isSamePick(pick, target));
 
-      // If there's already a submitted pick, don't allow changes
-      if (existingSubmittedPick) {
-        Alert.alert('Pick Already Submitted', 'You have already submitted a pick for this game. Picks cannot be changed after submission.');
+      // Tapping the submitted side again offers to drop it for another game
+      if (existingSubmittedPick && currentPick === existingSubmittedPick && existingSubmittedPick.side === side) {
+        confirmDropPick(existingSubmittedPick);
         return;
       }
 
       // Check if we can add more picks
-      if (!existingTempPickForGame && currentTempPicksCount >= pickLimit) {
-        Alert.alert('Pick Limit Reached', `You can only make ${pickLimit} picks per week.`);
+      const fullQuota = currentPick ? null : getFullQuota(pickQuotas, weekPicks, market);
+      if (fullQuota) {
+        const kind = fullQuota.market === 'total' ? 'totals ' : fullQuota.market === 'spread' ? 'side ' : '';
+        Alert.alert('Pick Limit Reached', `You can only make ${fullQuota.limit} ${kind}picks per week.`);
         return;
       }
 
-      // Calculate unlock_at (Saturday 12:00 PM ET of the current week)
-      const currentDate = new Date();
-      const currentWeekStart = new Date(currentDate);
-      currentWeekStart.setDate(currentDate.getDate() - currentDate.getDay()); // Start of week (Sunday)
-      const saturdayUnlock = new Date(currentWeekStart);
-      saturdayUnlock.setDate(currentWeekStart.getDate() + 6); // Saturday
-      saturdayUnlock.setHours(12, 0, 0, 0); // 12:00 PM
-      
-      // Convert to ET (UTC-5 or UTC-4 depending on DST)
-      saturdayUnlock.setHours(saturdayUnlock.getHours() + 5);
+      // Picks unlock Saturday 12:00 PM ET of the week being picked
+      const seasonWeek = calendar ? getSeasonWeek(calendar, currentWeek) : undefined;
+      const weekKickoff = seasonWeek?.firstKickoff ?? new Date(game?.kickoff ?? Date.now());
+      const { unlockAt } = getWeekSchedule(weekKickoff);
 
       // Create temporary pick
       const newTempPick: Pick = {
@@ -185,44 +245,42 @@ export default function LeagueSlateScreen() {
         week: currentWeek,
         game_id: gameId,
         side: side,
+        market,
         line_value: lineValue,
-        unlock_at: saturdayUnlock.toISOString(),
+        confidence: isConfidence
+          ? currentPick?.confidence ?? nextConfidenceValue(weekPicks, pickLimit)
+          : null,
+        unlock_at: unlockAt.toISOString(),
         locked: false,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       };
 
-      // Update temporary picks
-      const updatedTempPicks = existingTempPickForGame 
-        ? tempPicks.map(p => p.game_id === gameId ? newTempPick : p)
-        : [...tempPicks, newTempPick];
-      
-      setTempPicks(updatedTempPicks);
-      
-      // Update games with new temporary pick
-      const updatedGames = gamesWithLines.map(gwl => 
-        gwl.game.id === gameId 
-          ? { ...gwl, existingPick: newTempPick }
-          : gwl
-      );
-      setGamesWithLines(updatedGames);
+      // Update the week's picks; re-picking a dropped game takes it back
+      const updatedWeekPicks = currentPick
+        ? weekPicks.map(p => isSamePick(p, target) ? newTempPick : p)
+        : [...weekPicks, newTempPick];
+      const updatedDrafts = getPickDrafts(picks, updatedWeekPicks);
+      const updatedDropped = droppedPicks.filter(pick => !isSamePick(pick, target));
+
+      updateDrafts(updatedDrafts, updatedDropped);
 
       // Show pick confirmation
       Alert.alert(
-        'Pick Selected', 
-        `${side} ${lineValue > 0 ? '+' : ''}${lineValue}\n\nPicks: ${updatedTempPicks.length}/${pickLimit}`,
+        existingSubmittedPick ? 'Pick Changed' : 'Pick Selected',
+        `${describePick(newTempPick, game, straightUp)}\n\nPicks: ${updatedWeekPicks.length}/${pickLimit}`,
         [{ text: 'OK' }]
       );
 
-      // Check if all picks are made
-      if (updatedTempPicks.length === pickLimit) {
+      // Check if this pick completed the week
+      if (!currentPick && areQuotasFilled(pickQuotas, updatedWeekPicks)) {
         setTimeout(() => {
           Alert.alert(
             'All Picks Selected!',
             `You've made all ${pickLimit} picks. Ready to submit?`,
             [
               { text: 'Review Picks', style: 'cancel' },
-              { text: 'Submit Picks', onPress: submitAllPicks }
+              { text: 'Submit Picks', onPress: () => submitAllPicks(updatedDrafts, updatedDropped) }
             ]
           );
         }, 500);
@@ -234,8 +292,99 @@ export default function LeagueSlateScreen() {
     }
   };
 
-  const submitAllPicks = async () => {
-    if (!league || tempPicks.length === 0) return;
+  // Keep the device copy in step with the unsaved changes
+  const updateDrafts = (drafts: Pick[], dropped: Pick[] = droppedPicks) => {
+    setTempPicks(drafts);
+    setDroppedPicks(dropped);
+    if (!userId) return;
+    savePickDrafts(userId, leagueId, currentSeason, currentWeek, { drafts, dropped }).catch(error => {
+      console.error('Error saving drafts:', error);
+    });
+  };
+
+  // Locked by the backend or by the league's lock mode
+  const isLockedPick = (pick: Pick) => {
+    if (pick.locked) return true;
+    const game = gamesWithLines.find(item => item.game.id === pick.game_id)?.game;
+    return !!game && isPickLocked(new Date(game.kickoff), league);
+  };
+
+  // A queued change is never sent after its pick locks; a game off the slate can't take one
+  const getLockAt = (pick: Pick) => {
+    const game = gamesWithLines.find(item => item.game.id === pick.game_id)?.game;
+    return game ? getPickLockAt(new Date(game.kickoff), league) : new Date();
+  };
+
+  const confirmDropPick = (pick: Pick) => {
+    const game = gamesWithLines.find(item => item.game.id === pick.game_id)?.game;
+    Alert.alert(
+      'Drop Pick',
+      `Drop ${describePick(pick, game, straightUp)} to pick another game instead? Your pick stands until you save the change.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Drop', style: 'destructive', onPress: () => updateDrafts(tempPicks, [...droppedPicks, pick]) },
+      ]
+    );
+  };
+
+  const handleAssignConfidence = (pick: Pick, value: number) => {
+    // The value's current holder swaps to this pick's old value
+    const holder = weekPicks.find(candidate => candidate.confidence === value && !isSamePick(candidate, pick));
+    if (holder && isLockedPick(holder)) {
+      Alert.alert('Confidence Locked', `Confidence ${value} is on a pick that has locked.`);
+      return;
+    }
+    updateDrafts(getPickDrafts(picks, assignConfidence(weekPicks, pick, value)));
+  };
+
+  const submitAllPicks = async (drafts: Pick[] = tempPicks, dropped: Pick[] = droppedPicks) => {
+    if (!league || (drafts.length === 0 && dropped.length === 0)) return;
+
+    // Partial weeks are fine; only going over the limit isn't
+    const updatedWeekPicks = mergeWeekPicks(picks, drafts, dropped);
+    const exceeded = getExceededQuota(pickQuotas, updatedWeekPicks);
+    if (exceeded) {
+      const kind = exceeded.market === 'total' ? 'totals ' : exceeded.market === 'spread' ? 'side ' : '';
+      Alert.alert('Pick Limit Reached', `You can only make ${exceeded.limit} ${kind}picks per week.`);
+      return;
+    }
+
+    if (isConfidence) {
+      const confidenceError = validateConfidence(updatedWeekPicks, pickLimit);
+      if (confidenceError) {
+        Alert.alert('Check Confidence', confidenceError);
+        return;
+      }
+    }
+
+    // Restored drafts may have gone stale since they were made
+    const staleFlags = flagPickDrafts({ drafts, dropped }, gamesWithLines, league, straightUp);
+    if (staleFlags.length > 0) {
+      const isStale = (pick: Pick) => staleFlags.some(flag => isSamePick(flag, pick));
+      Alert.alert(
+        'Check Your Picks',
+        `${staleFlags.length} unsaved ${staleFlags.length === 1 ? 'pick has' : 'picks have'} locked, left the slate or had the line move since you made ${staleFlags.length === 1 ? 'it' : 'them'}. Re-pick at the current line or remove ${staleFlags.length === 1 ? 'it' : 'them'}.`,
+        [
+          { text: 'Review', style: 'cancel' },
+          { text: 'Remove', style: 'destructive', onPress: () => updateDrafts(
+            drafts.filter(draft => !isStale(draft)),
+            dropped.filter(drop => !isStale(drop)),
+          )},
+        ]
+      );
+      return;
+    }
+
+    // A game can lock while the player is still deciding
+    const changes = planPickChanges(picks, drafts, dropped);
+    const lockedPick = [...changes.upserts, ...changes.deletes].find(isLockedPick);
+    if (lockedPick) {
+      const game = gamesWithLines.find(item => item.game.id === lockedPick.game_id)?.game;
+      Alert.alert('Game Locked', `Picks on ${game ? `${game.away} @ ${game.home}` : 'a game'} are locked, so its pick can no longer change.`);
+      return;
+    }
+
+    const isUpdate = dropped.length > 0 || drafts.some(draft => picks.some(pick => isSamePick(pick, draft)));
 
     try {
       setSubmitting(true);
@@ -243,32 +392,41 @@ export default function LeagueSlateScreen() {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
-      // Submit all temporary picks to the database
-      const { error } = await supabase
-        .from('picks')
-        .upsert(tempPicks.map(pick => ({
-          league_id: pick.league_id,
-          user_id: pick.user_id,
-          season: pick.season,
-          week: pick.week,
-          game_id: pick.game_id,
-          side: pick.side,
-          line_value: pick.line_value,
-          unlock_at: pick.unlock_at,
-          locked: false
-        })), {
-          onConflict: 'league_id,user_id,season,week,game_id'
-        });
-
-      if (error) throw error;
-
-      // Clear temporary picks and reload data
+      // Queue the new and changed picks and the drops, then try sending them
+      const queued = getWeekOutbox(await queuePicks(changes, serverPicks, getLockAt), leagueId, user.id, currentSeason, currentWeek);
+
+      // The outbox holds the changes now, so clear them from the drafts and reload data
+      await clearPickDrafts(user.id, leagueId, currentSeason, currentWeek).catch(error => {
+        console.error('Error clearing drafts:', error);
+      });
       setTempPicks([]);
+      setDroppedPicks([]);
       await loadSlateAndPicks();
-      
+
+      const waiting = queued.filter(entry => entry.status === 'queued').length;
+      const unsent = queued.length - waiting;
+      if (unsent > 0) {
+        Alert.alert(
+          'Some Changes Not Saved',
+          `${unsent} ${unsent === 1 ? 'change was' : 'changes were'} not saved. Check the games marked on the slate.`
+        );
+        return;
+      }
+      if (waiting > 0) {
+        Alert.alert(
+          'Saved Offline',
+          `${waiting} ${waiting === 1 ? 'change is' : 'changes are'} queued on this device. They are retried while the app is open ` +
+            'and when you come back to it, so reopen the app once you\'re back online. Anything still unsent when its game locks is not sent.'
+        );
+        return;
+      }
+
       Alert.alert(
-        'Picks Submitted!',
-        `Successfully submitted ${tempPicks.length} picks for ${league.name}.\n\nYou can view your picks in the MY PICKS tab.`,
+        isUpdate ? 'Picks Updated!' : 'Picks Submitted!',
+        `${updatedWeekPicks.length} of ${pickLimit} picks used for ${league.name}.\n\n` +
+          (updatedWeekPicks.length < pickLimit
+            ? 'Make the rest as more lines drop, before their games lock.'
+            : 'Picks can change until each game locks.'),
         [
           { text: 'View My Picks', onPress: () => {
             // Navigate to my picks tab
@@ -285,19 +443,89 @@ export default function LeagueSlateScreen() {
     }
   };
 
+  // Survivor boards are not ranked on points, so they have no tiebreaker
+  const tiebreakerGame = isSurvivor ? null : getTiebreakerGame(gamesWithLines);
+
+  const saveTiebreaker = async (totalPoints: number) => {
+    if (!tiebreakerGame) return;
+
+    // The entry locks with picks on its game, under the league's lock mode
+    if (isPickLocked(new Date(tiebreakerGame.game.kickoff), league)) {
+      Alert.alert('Tiebreaker Locked', 'The tiebreaker game is locked, so your prediction can no longer change.');
+      return;
+    }
+
+    try {
+      setSavingTiebreaker(true);
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      await submitTiebreaker({
+        league_id: leagueId,
+        user_id: user.id,
+        season: currentSeason,
+        week: currentWeek,
+        game_id: tiebreakerGame.game.id,
+        total_points: totalPoints,
+      });
+      setTiebreaker(await fetchTiebreaker(leagueId, user.id, currentSeason, currentWeek));
+    } catch (error) {
+      console.error('Error saving tiebreaker:', error);
+      Alert.alert('Error', 'Failed to save tiebreaker');
+    } finally {
+      setSavingTiebreaker(false);
+    }
+  };
+
+  const submittedPicksCount = picks.length;
+  const weekPicksCount = weekPicks.length;
+  const hasChanges = tempPicks.length > 0 || droppedPicks.length > 0;
+  const draftFlags = flagPickDrafts({ drafts: tempPicks, dropped: droppedPicks }, gamesWithLines, league, straightUp);
+  // Drafts that add a game rather than change a submitted pick
+  const newPicksCount = tempPicks.filter(draft => !picks.some(pick => isSamePick(pick, draft))).length;
+  const isOnlyNewPicks = droppedPicks.length === 0 && newPicksCount === tempPicks.length;
+
+  const getMemberName = (userId: string) => {
+    const email = members.find(member => member.user_id === userId)?.users?.email;
+    return (email || 'Unknown').split('@')[0];
+  };
+
+  // The slate with each game's picks as they stand
+  const slateCards: GameWithLine[] = gamesWithLines.map(gameWithLine => ({
+    ...gameWithLine,
+    existingPick: weekPicks.find(pick =>
+      pick.game_id === gameWithLine.game.id && getPickMarket(pick.side) === 'spread'),
+    existingTotalPick: weekPicks.find(pick =>
+      pick.game_id === gameWithLine.game.id && getPickMarket(pick.side) === 'total'),
+  }));
+  const waitingCount = weekOutbox.filter(entry => entry.status === 'queued').length;
+
   const renderGame = ({ item }: { item: GameWithLine }) => (
     <GameCard
       gameWithLine={item}
       onPickSide={handlePickSide}
-      disabled={loading || !!item.existingPick}
+      disabled={loading}
+      pushPoints={league?.push_points}
+      lockRules={league}
+      confidenceValues={isConfidence ? getConfidenceValues(pickLimit) : undefined}
+      straightUp={straightUp}
+      blockedTeams={isSurvivor ? survivorStatus?.usedTeams : undefined}
+      onAssignConfidence={handleAssignConfidence}
+      isEditable={pick => !isLockedPick(pick)}
+      showTotals={offersTotals(league)}
+      consensus={consensus[item.game.id]}
+      draftFlags={draftFlags.filter(flag => flag.game_id === item.game.id)}
+      outboxEntries={weekOutbox.filter(entry => entry.pick.game_id === item.game.id)}
+      onDismissOutboxEntry={dismissOutboxEntry}
+      getMemberName={getMemberName}
     />
   );
-
-  const submittedPicksCount = picks.length;
-  const tempPicksCount = tempPicks.length;
-  const pickLimit = league?.pick_limit || 5;
   const hasSubmittedPicks = submittedPicksCount > 0;
-  const canSubmit = tempPicksCount === pickLimit;
+  // A global lock covers the whole week, so show when it falls
+  const weekLockAt = league?.lock_mode === 'global' && gamesWithLines.length > 0
+    ? new Date(Math.max(...gamesWithLines.map(({ game }) => getPickLockAt(new Date(game.kickoff), league).getTime())))
+    : null;
+  const canSubmit = hasChanges && !getExceededQuota(pickQuotas, weekPicks);
 
   return (
     <View style={styles.container}>
@@ -305,40 +533,61 @@ export default function LeagueSlateScreen() {
       <View style={styles.header}>
         <View style={styles.leagueHeader}>
           <Text style={styles.leagueName}>{league?.name || 'League'}</Text>
-          <Text style={styles.weekTitle}>Week {currentWeek} Slate</Text>
+          <Text style={styles.weekTitle}>{getWeekLabel(calendar, currentWeek)} Slate</Text>
+          {weekLockAt && (
+            <Text style={styles.lockNote}>🔒 All picks lock {formatEasternTime(weekLockAt)}</Text>
+          )}
         </View>
         
         <View style={styles.weekNavigation}>
           <TouchableOpacity 
             style={styles.weekNavButton}
-            onPress={() => setCurrentWeek(Math.max(1, currentWeek - 1))}
-            disabled={currentWeek <= 1}
+            onPress={() => setSelectedWeek(clampWeek(calendar, currentWeek - 1))}
+            disabled={currentWeek <= firstWeek}
           >
-            <Text style={[styles.weekNavText, currentWeek <= 1 && styles.disabledText]}>← Week {currentWeek - 1}</Text>
+            <Text style={[styles.weekNavText, currentWeek <= firstWeek && styles.disabledText]}>← Week {currentWeek - 1}</Text>
           </TouchableOpacity>
           
           <View style={styles.currentWeekContainer}>
             <Text style={styles.pickStatus}>
-              {hasSubmittedPicks ? `${submittedPicksCount} submitted` : `${tempPicksCount}/${pickLimit} selected`}
+              {weekPicksCount}/{pickLimit} used
             </Text>
-            {hasSubmittedPicks && (
-              <Text style={styles.submittedIndicator}>✅ Picks Submitted</Text>
+            {hasChanges ? (
+              <Text style={styles.unsavedIndicator}>✏️ Unsaved changes</Text>
+            ) : hasSubmittedPicks && (
+              <Text style={styles.submittedIndicator}>✅ {submittedPicksCount} submitted</Text>
             )}
           </View>
           
           <TouchableOpacity 
             style={styles.weekNavButton}
-            onPress={() => setCurrentWeek(Math.min(15, currentWeek + 1))}
-            disabled={currentWeek >= 15}
+            onPress={() => setSelectedWeek(clampWeek(calendar, currentWeek + 1))}
+            disabled={currentWeek >= lastWeek}
           >
-            <Text style={[styles.weekNavText, currentWeek >= 15 && styles.disabledText]}>Week {currentWeek + 1} →</Text>
+            <Text style={[styles.weekNavText, currentWeek >= lastWeek && styles.disabledText]}>Week {currentWeek + 1} →</Text>
           </TouchableOpacity>
         </View>
       </View>
 
+      {draftFlags.length > 0 && (
+        <View style={styles.draftWarning}>
+          <Text style={styles.draftWarningText}>
+            ⚠️ {draftFlags.length} unsaved {draftFlags.length === 1 ? 'pick needs' : 'picks need'} another look: the game locked or the line moved since you picked
+          </Text>
+        </View>
+      )}
+
+      {waitingCount > 0 && (
+        <TouchableOpacity style={styles.outboxBanner} onPress={retryOutbox}>
+          <Text style={styles.outboxBannerText}>
+            📤 {waitingCount} {waitingCount === 1 ? 'change' : 'changes'} waiting to send • retried every few minutes while the app is open, or tap to retry now
+          </Text>
+        </TouchableOpacity>
+      )}
+
       {/* Games List */}
       <FlatList
-        data={gamesWithLines}
+        data={slateCards}
         renderItem={renderGame}
         keyExtractor={(item) => item.game.id}
         refreshControl={
@@ -357,59 +606,87 @@ export default function LeagueSlateScreen() {
             </View>
           )
         }
+        ListFooterComponent={
+          tiebreakerGame ? (
+            <TiebreakerEntry
+              gameWithLine={tiebreakerGame}
+              entry={tiebreaker}
+              onSave={saveTiebreaker}
+              saving={savingTiebreaker}
+              lockRules={league}
+            />
+          ) : null
+        }
         contentContainerStyle={gamesWithLines.length === 0 ? styles.emptyContainer : undefined}
       />
 
       {/* Pick Summary and Submission */}
       <View style={styles.pickSummary}>
-        {hasSubmittedPicks ? (
+        {hasSubmittedPicks && !hasChanges ? (
           <View style={styles.submittedSection}>
             <Text style={styles.submittedText}>✅ Picks Submitted for {league?.name}</Text>
-            <Text style={styles.submittedSubtext}>{submittedPicksCount} picks locked for Week {currentWeek}</Text>
-            <Text style={styles.submittedNote}>View your picks in the MY PICKS tab</Text>
+            <Text style={styles.submittedSubtext}>
+              {submittedPicksCount} of {pickLimit} picks used for {getWeekLabel(calendar, currentWeek)}
+            </Text>
+            <Text style={styles.submittedNote}>
+              {submittedPicksCount < pickLimit
+                ? 'Add the rest as more lines drop, or tap a pick to change it until its game locks'
+                : 'Tap a pick to change it until its game locks'}
+            </Text>
           </View>
         ) : (
           <View style={styles.selectionSection}>
             <Text style={styles.pickSummaryText}>
-              {tempPicksCount} of {pickLimit} picks selected
+              {weekPicksCount} of {pickLimit} picks used
+              {submittedPicksCount > 0 ? ` • ${submittedPicksCount} submitted` : ''}
             </Text>
             
-            {tempPicksCount > 0 && tempPicksCount < pickLimit && (
+            {weekPicksCount < pickLimit && (
               <Text style={styles.needMoreText}>
-                Need {pickLimit - tempPicksCount} more picks to submit
+                {pickLimit - weekPicksCount} left • submit now or as more lines drop
               </Text>
             )}
             
             {canSubmit && (
               <TouchableOpacity 
                 style={[styles.submitButton, submitting && styles.submitButtonDisabled]}
-                onPress={submitAllPicks}
+                onPress={() => submitAllPicks()}
                 disabled={submitting}
               >
                 <Text style={styles.submitButtonText}>
-                  {submitting ? 'Submitting...' : `Submit ${tempPicksCount} Picks`}
+                  {submitting
+                    ? 'Submitting...'
+                    : isOnlyNewPicks
+                      ? `Submit ${newPicksCount} ${newPicksCount === 1 ? 'Pick' : 'Picks'}`
+                      : 'Save Changes'}
                 </Text>
               </TouchableOpacity>
             )}
             
-            {tempPicksCount > 0 && !canSubmit && (
+            {hasChanges && (
               <TouchableOpacity 
                 style={styles.clearButton}
                 onPress={() => {
                   Alert.alert(
-                    'Clear Selections',
-                    'Are you sure you want to clear all selected picks?',
+                    hasSubmittedPicks ? 'Discard Changes' : 'Clear Selections',
+                    hasSubmittedPicks
+                      ? 'Are you sure you want to discard your unsaved changes?'
+                      : 'Are you sure you want to clear all selected picks?',
                     [
                       { text: 'Cancel', style: 'cancel' },
-                      { text: 'Clear', style: 'destructive', onPress: () => {
-                        setTempPicks([]);
+                      { text: 'Clear', style: 'destructive', onPress: async () => {
+                        if (userId) {
+                          await clearPickDrafts(userId, leagueId, currentSeason, currentWeek).catch(error => {
+                            console.error('Error clearing drafts:', error);
+                          });
+                        }
                         loadSlateAndPicks();
                       }}
                     ]
                   );
                 }}
               >
-                <Text style={styles.clearButtonText}>Clear Selections</Text>
+                <Text style={styles.clearButtonText}>{hasSubmittedPicks ? 'Discard Changes' : 'Clear Selections'}</Text>
               </TouchableOpacity>
             )}
           </View>
@@ -445,6 +722,33 @@ const styles = StyleSheet.create({
     color: '#666',
     marginTop: 2,
   },
+  draftWarning: {
+    backgroundColor: '#fff3cd',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#ffe08a',
+  },
+  draftWarningText: {
+    fontSize: 13,
+    color: '#856404',
+  },
+  outboxBanner: {
+    backgroundColor: '#e8f1ff',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#b3d1ff',
+  },
+  outboxBannerText: {
+    fontSize: 13,
+    color: '#004085',
+  },
+  lockNote: {
+    fontSize: 12,
+    color: '#FF9500',
+    marginTop: 2,
+  },
   weekNavigation: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -476,6 +780,12 @@ const styles = StyleSheet.create({
     marginTop: 2,
     fontWeight: '500',
   },
+  unsavedIndicator: {
+    fontSize: 12,
+    color: '#FF9500',
+    marginTop: 2,
+    fontWeight: '500',
+  },
   emptyContainer: {
     flex: 1,
   },
@@ -9,38 +9,74 @@ import {
   Alert,
 } from 'react-native';
 import { useLocalSearchParams, router } from 'expo-router';
-import { supabase, type League, type WeeklyStanding } from '@/lib/supabase';
-
-type LeagueWithRole = League & { role: 'commish' | 'player' };
-
-type SeasonStanding = {
-  user_id: string;
-  user_email: string;
-  total_wins: number;
-  total_losses: number;
-  total_pushes: number;
-  total_points: number;
-  weeks_played: number;
-  win_percentage: number;
-};
+import { supabase } from '@/lib/supabase';
+import {
+  fetchHeadToHead,
+  fetchLeagueWithRole,
+  fetchRankHistory,
+  fetchSeasonStandings,
+  fetchSurvivorStandings,
+  fetchWeeklyStandings,
+  type LeagueWithRole,
+  type RankedSeasonStanding,
+  type RankedWeeklyStanding,
+} from '@/lib/repository';
+import type { SurvivorEntry } from '@/lib/survivor';
+import { formatHeadToHeadRecord, type HeadToHeadRecord } from '@/lib/matchups';
+import { getRecordLabel } from '@/lib/pick-mode';
+import { getRankMovement, type RankHistory } from '@/lib/rank-history';
+import { describeStandingsRules } from '@/lib/standings';
+import { isSeasonArchived } from '@/lib/league-seasons';
+import {
+  clampWeek,
+  DEFAULT_FIRST_WEEK,
+  DEFAULT_LAST_WEEK,
+  getWeekLabel,
+  guessSeason,
+  isWeekComplete,
+} from '@/lib/season';
+import RankChart from '@/components/RankChart';
+import SeasonSelector from '@/components/SeasonSelector';
+import { useLeagueSeasons } from '@/components/useLeagueSeasons';
+import { useSeasonCalendar } from '@/components/useSeasonCalendar';
 
 export default function LeagueStandingsScreen() {
   const { leagueId } = useLocalSearchParams<{ leagueId: string }>();
   const [league, setLeague] = useState<LeagueWithRole | null>(null);
-  const [weeklyStandings, setWeeklyStandings] = useState<WeeklyStanding[]>([]);
-  const [seasonStandings, setSeasonStandings] = useState<SeasonStanding[]>([]);
+  const [weeklyStandings, setWeeklyStandings] = useState<RankedWeeklyStanding[]>([]);
+  const [seasonStandings, setSeasonStandings] = useState<RankedSeasonStanding[]>([]);
+  const [survivorStandings, setSurvivorStandings] = useState<SurvivorEntry[]>([]);
+  const [headToHeadRecords, setHeadToHeadRecords] = useState<HeadToHeadRecord[]>([]);
+  const [rankHistory, setRankHistory] = useState<RankHistory>({ weeks: [], series: [] });
+  const [highlightedUserId, setHighlightedUserId] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<'weekly' | 'season'>('season');
-  const [selectedWeek, setSelectedWeek] = useState(1);
+  const [weekOverride, setWeekOverride] = useState<number | null>(null);
+  const [seasonOverride, setSeasonOverride] = useState<number | null>(null);
   const [loading, setLoading] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
-  const [currentSeason] = useState(2025);
+  const calendar = useSeasonCalendar(seasonOverride ?? undefined);
+  const { seasons } = useLeagueSeasons(leagueId);
+  const currentSeason = calendar?.season ?? guessSeason();
+  const archived = isSeasonArchived(seasons, currentSeason);
+  const selectedWeek = weekOverride ?? calendar?.currentWeek ?? DEFAULT_FIRST_WEEK;
+  const firstWeek = calendar?.firstWeek ?? DEFAULT_FIRST_WEEK;
+  const lastWeek = calendar?.lastWeek ?? DEFAULT_LAST_WEEK;
+
+  const isSurvivor = league?.league_type === 'survivor';
+  const showHeadToHead = !!league?.head_to_head && viewMode === 'season';
 
   useEffect(() => {
     if (leagueId) {
       loadLeague();
+    }
+  }, [leagueId]);
+
+  // Wait for the league so survivor leagues load their own board
+  useEffect(() => {
+    if (league && calendar) {
       loadStandings();
     }
-  }, [leagueId, viewMode, selectedWeek]);
+  }, [league, calendar, viewMode, selectedWeek]);
 
   const loadLeague = async () => {
     try {
@@ -48,31 +84,8 @@ export default function LeagueStandingsScreen() {
       if (!user) return;
 
       // Get league with user's role
-      const { data: memberData, error } = await supabase
-        .from('league_members')
-        .select(`
-          role,
-          leagues (
-            id,
-            name,
-            invite_code,
-            created_by,
-            pick_limit,
-            push_points,
-            created_at
-          )
-        `)
-        .eq('league_id', leagueId)
-        .eq('user_id', user.id)
-        .single();
-
-      if (error) throw error;
-
-      if (memberData?.leagues) {
-        const leagueWithRole: LeagueWithRole = {
-          ...(memberData.leagues as any),
-          role: memberData.role as 'commish' | 'player'
-        };
+      const leagueWithRole = await fetchLeagueWithRole(leagueId, user.id);
+      if (leagueWithRole) {
         setLeague(leagueWithRole);
       }
     } catch (error) {
@@ -82,73 +95,27 @@ export default function LeagueStandingsScreen() {
   };
 
   const loadStandings = async () => {
-    if (!leagueId) return;
+    if (!leagueId || !league) return;
 
     try {
       setLoading(true);
 
-      if (viewMode === 'weekly') {
-        // Load weekly standings
-        const { data, error } = await supabase
-          .from('weekly_standings')
-          .select('*')
-          .eq('league_id', leagueId)
-          .eq('season', currentSeason)
-          .eq('week', selectedWeek)
-          .order('points', { ascending: false })
-          .order('wins', { ascending: false });
-
-        if (error) throw error;
-        setWeeklyStandings(data || []);
+      if (isSurvivor) {
+        setSurvivorStandings(await fetchSurvivorStandings(leagueId, currentSeason, week => isWeekComplete(calendar, week)));
+      } else if (viewMode === 'weekly') {
+        setWeeklyStandings(await fetchWeeklyStandings(leagueId, currentSeason, selectedWeek));
       } else {
-        // Load season standings (aggregated)
-        const { data, error } = await supabase
-          .from('weekly_standings')
-          .select('*')
-          .eq('league_id', leagueId)
-          .eq('season', currentSeason);
-
-        if (error) throw error;
-
-        // Aggregate by user
-        const userMap = new Map<string, SeasonStanding>();
-        
-        (data || []).forEach(standing => {
-          const existing = userMap.get(standing.user_id);
-          if (existing) {
-            existing.total_wins += standing.wins;
-            existing.total_losses += standing.losses;
-            existing.total_pushes += standing.pushes;
-            existing.total_points += standing.points;
-            existing.weeks_played += 1;
-          } else {
-            userMap.set(standing.user_id, {
-              user_id: standing.user_id,
-              user_email: standing.user_email || 'Unknown',
-              total_wins: standing.wins,
-              total_losses: standing.losses,
-              total_pushes: standing.pushes,
-              total_points: standing.points,
-              weeks_played: 1,
-              win_percentage: 0,
-            });
-          }
-        });
-
-        // Calculate win percentages and sort
-        const seasonData = Array.from(userMap.values()).map(standing => ({
-          ...standing,
-          win_percentage: standing.total_wins + standing.total_losses > 0 
-            ? standing.total_wins / (standing.total_wins + standing.total_losses)
-            : 0
-        })).sort((a, b) => {
-          if (b.total_points !== a.total_points) {
-            return b.total_points - a.total_points;
-          }
-          return b.win_percentage - a.win_percentage;
-        });
-
-        setSeasonStandings(seasonData);
+        // Head-to-head records and the rank chart sit next to the cumulative standings
+        const [standings, headToHead, history] = await Promise.all([
+          fetchSeasonStandings(leagueId, currentSeason),
+          league.head_to_head
+            ? fetchHeadToHead(leagueId, currentSeason, week => isWeekComplete(calendar, week))
+            : null,
+          fetchRankHistory(leagueId, currentSeason),
+        ]);
+        setSeasonStandings(standings);
+        setHeadToHeadRecords(headToHead?.records ?? []);
+        setRankHistory(history);
       }
     } catch (error) {
       console.error('Error loading standings:', error);
@@ -159,6 +126,11 @@ export default function LeagueStandingsScreen() {
     }
   };
 
+  const handleSelectSeason = (season: number) => {
+    setSeasonOverride(season);
+    setWeekOverride(null);
+  };
+
   const handleMemberClick = async (userId: string, userName: string) => {
     if (!leagueId) return;
     
@@ -186,18 +158,27 @@ export default function LeagueStandingsScreen() {
     );
   };
 
-  const renderStanding = ({ item, index }: { item: WeeklyStanding | SeasonStanding; index: number }) => {
+  const renderStanding = ({ item }: { item: RankedWeeklyStanding | RankedSeasonStanding }) => {
     const isWeekly = 'wins' in item;
     const userName = (item.user_email || 'Unknown').split('@')[0];
+    // Players the tie-break rules could not separate share a rank
+    const rows: { rank: number }[] = isWeekly ? weeklyStandings : seasonStandings;
+    const isTied = rows.filter(standing => standing.rank === item.rank).length > 1;
+    const movement = isWeekly ? null : getRankMovement(rankHistory, item.user_id);
     
     return (
       <TouchableOpacity 
-        style={styles.standingRow}
+        style={[styles.standingRow, !isWeekly && item.user_id === highlightedUserId && styles.highlightedRow]}
         onPress={() => handleMemberClick(item.user_id, userName)}
         activeOpacity={0.7}
       >
         <View style={styles.rankContainer}>
-          <Text style={styles.rank}>{index + 1}</Text>
+          <Text style={styles.rank}>{isTied ? 'T' : ''}{item.rank}</Text>
+          {movement !== null && (
+            <Text style={[styles.movement, movement > 0 ? styles.movementUp : movement < 0 ? styles.movementDown : null]}>
+              {movement > 0 ? `▲${movement}` : movement < 0 ? `▼${-movement}` : '–'}
+            </Text>
+          )}
         </View>
         <View style={styles.userContainer}>
           <Text style={styles.userName}>
@@ -205,44 +186,137 @@ export default function LeagueStandingsScreen() {
           </Text>
           {!isWeekly && (
             <Text style={styles.weeksPlayed}>
-              {(item as SeasonStanding).weeks_played} weeks • Tap to view picks
+              {(item as RankedSeasonStanding).weeks_played} weeks • Tap to view picks
+            </Text>
+          )}
+          {!isWeekly && (item as RankedSeasonStanding).dropped_weeks.length > 0 && (
+            <Text style={styles.weeksPlayed}>
+              Dropped: {(item as RankedSeasonStanding).dropped_weeks.map(week => `Wk ${week}`).join(', ')}
+            </Text>
+          )}
+          {!isWeekly && !(item as RankedSeasonStanding).qualified && (
+            <Text style={styles.notQualified}>
+              Needs {league?.standings_min_weeks} weeks to qualify
             </Text>
           )}
         </View>
         <View style={styles.statsContainer}>
           <Text style={styles.record}>
             {isWeekly 
-              ? `${(item as WeeklyStanding).wins}-${(item as WeeklyStanding).losses}-${(item as WeeklyStanding).pushes}`
-              : `${(item as SeasonStanding).total_wins}-${(item as SeasonStanding).total_losses}-${(item as SeasonStanding).total_pushes}`
+              ? `${(item as RankedWeeklyStanding).wins}-${(item as RankedWeeklyStanding).losses}-${(item as RankedWeeklyStanding).pushes}`
+              : `${(item as RankedSeasonStanding).total_wins}-${(item as RankedSeasonStanding).total_losses}-${(item as RankedSeasonStanding).total_pushes}`
             }
           </Text>
           <Text style={styles.points}>
             {isWeekly 
-              ? (item as WeeklyStanding).points.toFixed(1)
-              : (item as SeasonStanding).total_points.toFixed(1)
+              ? (item as RankedWeeklyStanding).points.toFixed(1)
+              : (item as RankedSeasonStanding).total_points.toFixed(1)
             } pts
           </Text>
           {!isWeekly && (
             <Text style={styles.percentage}>
-              {((item as SeasonStanding).win_percentage * 100).toFixed(1)}%
+              {((item as RankedSeasonStanding).win_percentage * 100).toFixed(1)}%
             </Text>
           )}
+          {showHeadToHead && (
+            <Text style={styles.percentage}>
+              H2H {formatHeadToHeadRecord(headToHeadRecords.find(record => record.user_id === item.user_id))}
+            </Text>
+          )}
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderSurvivorEntry = ({ item }: { item: SurvivorEntry }) => {
+    const userName = item.user_email.split('@')[0];
+
+    return (
+      <TouchableOpacity
+        style={[styles.standingRow, !item.alive && styles.eliminatedRow]}
+        onPress={() => handleMemberClick(item.user_id, userName)}
+        activeOpacity={0.7}
+      >
+        <View style={styles.userContainer}>
+          <Text style={styles.userName}>{userName} 👤</Text>
+          <Text style={styles.weeksPlayed}>
+            {item.weeks.map(week => week.result === 'MISSED'
+              ? `W${week.week} no pick ❌`
+              : `W${week.week} ${week.team}${week.result === 'WIN' ? ' ✅' : week.result === 'LOSS' ? ' ❌' : ''}`).join(' • ') || 'No picks yet'}
+          </Text>
+        </View>
+        <View style={styles.statsContainer}>
+          <Text style={[styles.survivorStatus, !item.alive && styles.eliminatedStatus]}>
+            {item.alive ? 'Alive' : `Out Wk ${item.eliminated_week}`}
+          </Text>
+          {item.strikes > 0 && (
+            <Text style={styles.percentage}>{item.strikes} strike{item.strikes === 1 ? '' : 's'}</Text>
+          )}
         </View>
       </TouchableOpacity>
     );
   };
 
+  if (isSurvivor) {
+    const aliveCount = survivorStandings.filter(entry => entry.alive).length;
+
+    return (
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>{league?.name || 'League'} Survivor</Text>
+          <Text style={styles.subtitle}>Season {currentSeason} • {aliveCount} of {survivorStandings.length} alive</Text>
+          {archived && <Text style={styles.archivedText}>📦 Archived</Text>}
+        </View>
+
+        <SeasonSelector seasons={seasons} selectedSeason={currentSeason} onSelect={handleSelectSeason} />
+
+        <FlatList
+          data={survivorStandings}
+          renderItem={renderSurvivorEntry}
+          keyExtractor={(item) => item.user_id}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={() => {
+              setRefreshing(true);
+              loadStandings();
+            }} />
+          }
+          ListEmptyComponent={
+            <View style={styles.emptyState}>
+              <Text style={styles.emptyText}>No Survivors Yet</Text>
+              <Text style={styles.emptySubtext}>
+                The board fills in once members make their first pick.
+              </Text>
+            </View>
+          }
+          contentContainerStyle={survivorStandings.length === 0 ? styles.emptyContainer : undefined}
+        />
+      </View>
+    );
+  }
+
   const currentStandings = viewMode === 'weekly' ? weeklyStandings : seasonStandings;
   const hasData = currentStandings.length > 0;
+  const championNames = (seasons.find(summary => summary.season === currentSeason)?.champions ?? [])
+    .map(id => (seasonStandings.find(standing => standing.user_id === id)?.user_email || 'Unknown').split('@')[0]);
 
   return (
     <View style={styles.container}>
       {/* Header */}
       <View style={styles.header}>
         <Text style={styles.title}>{league?.name || 'League'} Standings</Text>
-        <Text style={styles.subtitle}>Season {currentSeason}</Text>
+        <Text style={styles.subtitle}>
+          Season {currentSeason}
+          {viewMode === 'season' && describeStandingsRules(league) ? ` • ${describeStandingsRules(league)}` : ''}
+        </Text>
+        {archived && (
+          <Text style={styles.archivedText}>
+            📦 Archived{championNames.length > 0 ? ` • 🏆 Champion: ${championNames.join(', ')}` : ''}
+          </Text>
+        )}
       </View>
 
+      <SeasonSelector seasons={seasons} selectedSeason={currentSeason} onSelect={handleSelectSeason} />
+
       {/* View Mode Selector */}
       <View style={styles.viewModeSelector}>
         <TouchableOpacity
@@ -266,19 +340,19 @@ export default function LeagueStandingsScreen() {
       {/* Week Selector (for weekly view) */}
       {viewMode === 'weekly' && (
         <View style={styles.weekSelector}>
-          <Text style={styles.selectorLabel}>Week {selectedWeek}:</Text>
+          <Text style={styles.selectorLabel}>{getWeekLabel(calendar, selectedWeek)}:</Text>
           <View style={styles.weekControls}>
             <TouchableOpacity 
               style={styles.weekButton}
-              onPress={() => setSelectedWeek(Math.max(1, selectedWeek - 1))}
-              disabled={selectedWeek <= 1}
+              onPress={() => setWeekOverride(clampWeek(calendar, selectedWeek - 1))}
+              disabled={selectedWeek <= firstWeek}
             >
               <Text style={styles.weekButtonText}>← Prev</Text>
             </TouchableOpacity>
             <TouchableOpacity 
               style={styles.weekButton}
-              onPress={() => setSelectedWeek(Math.min(17, selectedWeek + 1))}
-              disabled={selectedWeek >= 17}
+              onPress={() => setWeekOverride(clampWeek(calendar, selectedWeek + 1))}
+              disabled={selectedWeek >= lastWeek}
             >
               <Text style={styles.weekButtonText}>Next →</Text>
             </TouchableOpacity>
@@ -286,26 +360,9 @@ export default function LeagueStandingsScreen() {
         </View>
       )}
 
-      {/* Standings Header */}
-      {hasData && (
-        <View style={styles.standingsHeader}>
-          <View style={styles.rankContainer}>
-            <Text style={styles.headerText}>Rank</Text>
-          </View>
-          <View style={styles.userContainer}>
-            <Text style={styles.headerText}>Player</Text>
-          </View>
-          <View style={styles.statsContainer}>
-            <Text style={styles.headerText}>Record</Text>
-            <Text style={styles.headerText}>Points</Text>
-            {viewMode === 'season' && <Text style={styles.headerText}>Win %</Text>}
-          </View>
-        </View>
-      )}
-
       {/* Standings List */}
       <FlatList
-        data={currentStandings as (WeeklyStanding | SeasonStanding)[]}
+        data={currentStandings as (RankedWeeklyStanding | RankedSeasonStanding)[]}
         renderItem={renderStanding}
         keyExtractor={(item) => item.user_id}
         refreshControl={
@@ -314,6 +371,33 @@ export default function LeagueStandingsScreen() {
             loadStandings();
           }} />
         }
+        ListHeaderComponent={
+          <>
+            {viewMode === 'season' && hasData && (
+              <RankChart
+                history={rankHistory}
+                highlightedUserId={highlightedUserId}
+                onHighlight={setHighlightedUserId}
+              />
+            )}
+            {hasData && (
+              <View style={styles.standingsHeader}>
+                <View style={styles.rankContainer}>
+                  <Text style={styles.headerText}>Rank</Text>
+                </View>
+                <View style={styles.userContainer}>
+                  <Text style={styles.headerText}>Player</Text>
+                </View>
+                <View style={styles.statsContainer}>
+                  <Text style={styles.headerText}>{getRecordLabel(league)} Record</Text>
+                  <Text style={styles.headerText}>Points</Text>
+                  {viewMode === 'season' && <Text style={styles.headerText}>Win %</Text>}
+                  {showHeadToHead && <Text style={styles.headerText}>H2H</Text>}
+                </View>
+              </View>
+            )}
+          </>
+        }
         ListEmptyComponent={
           <View style={styles.emptyState}>
             <Text style={styles.emptyText}>No Standings Yet</Text>
@@ -349,6 +433,11 @@ const styles = StyleSheet.create({
     color: '#666',
     marginTop: 4,
   },
+  archivedText: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginTop: 4,
+  },
   viewModeSelector: {
     backgroundColor: '#fff',
     flexDirection: 'row',
@@ -432,6 +521,21 @@ const styles = StyleSheet.create({
     width: 40,
     alignItems: 'center',
   },
+  movement: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#999',
+    marginTop: 2,
+  },
+  movementUp: {
+    color: '#34C759',
+  },
+  movementDown: {
+    color: '#FF3B30',
+  },
+  highlightedRow: {
+    backgroundColor: '#eaf3ff',
+  },
   rank: {
     fontSize: 16,
     fontWeight: 'bold',
@@ -447,6 +551,11 @@ const styles = StyleSheet.create({
     color: '#007AFF',
     textDecorationLine: 'underline',
   },
+  notQualified: {
+    fontSize: 12,
+    color: '#FF9500',
+    marginTop: 2,
+  },
   weeksPlayed: {
     fontSize: 12,
     color: '#666',
@@ -472,6 +581,17 @@ const styles = StyleSheet.create({
     color: '#666',
     marginTop: 2,
   },
+  eliminatedRow: {
+    backgroundColor: '#fafafa',
+  },
+  survivorStatus: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#28a745',
+  },
+  eliminatedStatus: {
+    color: '#dc3545',
+  },
   emptyContainer: {
     flex: 1,
   },
@@ -1,17 +1,13 @@
 import React, { useEffect, useState } from 'react';
-import { View, Text, StyleSheet, FlatList, Alert, RefreshControl } from 'react-native';
+import { View, Text, StyleSheet, FlatList, Alert, RefreshControl, TouchableOpacity } from 'react-native';
 import { useLocalSearchParams, router } from 'expo-router';
 import { supabase } from '@/lib/supabase';
-import type { Pick } from '@/lib/supabase';
-
-type PickWithGame = Pick & { 
-  games: {
-    home: string;
-    away: string;
-    kickoff: string;
-    status: string;
-  };
-};
+import { getPickGrade, tallyGrades } from '@/lib/grading';
+import { describePick, getRecordLabel, isStraightUp } from '@/lib/pick-mode';
+import { buildMemberStats, isPickVisible as isVisibleTo } from '@/lib/member-stats';
+import { fetchLeague, fetchPickHistory, type PickWithGame } from '@/lib/repository';
+import type { League, Pick } from '@/lib/supabase';
+import MemberStatsView from '@/components/MemberStatsView';
 
 type WeeklyPicks = {
   week: number;
@@ -29,10 +25,13 @@ export default function MemberPicksScreen() {
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [league, setLeague] = useState<League | null>(null);
+  const [viewMode, setViewMode] = useState<'picks' | 'stats'>('picks');
 
   useEffect(() => {
     if (userId && leagueId) {
       getCurrentUser();
+      loadLeague();
       fetchMemberPicks();
     }
   }, [userId, leagueId]);
@@ -42,33 +41,24 @@ export default function MemberPicksScreen() {
     setCurrentUserId(user?.id || null);
   };
 
+  const loadLeague = async () => {
+    try {
+      setLeague(await fetchLeague(leagueId));
+    } catch (error) {
+      console.error('Error loading league:', error);
+    }
+  };
+
   const fetchMemberPicks = async () => {
     try {
       setRefreshing(true);
 
-      const { data, error } = await supabase
-        .from('picks')
-        .select(`
-          *,
-          games:game_id (
-            home,
-            away,
-            kickoff,
-            status
-          )
-        `)
-        .eq('league_id', leagueId)
-        .eq('user_id', userId)
-        .order('season', { ascending: false })
-        .order('week', { ascending: false })
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
+      const data = await fetchPickHistory(leagueId, userId);
       
       // Group picks by week and season
       const groupedPicks: { [key: string]: WeeklyPicks } = {};
       
-      (data || []).forEach((pick: any) => {
+      data.forEach(pick => {
         const key = `${pick.season}-${pick.week}`;
         if (!groupedPicks[key]) {
           groupedPicks[key] = {
@@ -96,47 +86,37 @@ export default function MemberPicksScreen() {
     }
   };
 
-  const isPickVisible = (pick: Pick) => {
-    // User can always see their own picks
-    if (currentUserId === userId) {
-      return true;
-    }
-
-    // If no unlock_at, pick is always visible
-    if (!pick.unlock_at) {
-      return true;
-    }
+  const isPickVisible = (pick: Pick) => isVisibleTo(pick, currentUserId);
 
-    // Check if current time is after unlock_at
-    const now = new Date();
-    const unlockTime = new Date(pick.unlock_at);
-    return now >= unlockTime;
-  };
+  const pushPoints = league?.push_points ?? 0;
+  const isConfidence = league?.scoring_mode === 'confidence';
+  const straightUp = isStraightUp(league);
 
   const renderPick = ({ item }: { item: PickWithGame }) => {
     const visible = isPickVisible(item);
+    const grade = getPickGrade(item, item.games, pushPoints);
 
     const getStatusColor = () => {
       if (!visible) return '#6c757d';
-      if (item.result === 'WIN') return '#28a745';
-      if (item.result === 'LOSS') return '#dc3545';
-      if (item.result === 'PUSH') return '#ffc107';
+      if (grade?.result === 'WIN') return '#28a745';
+      if (grade?.result === 'LOSS') return '#dc3545';
+      if (grade?.result === 'PUSH') return '#ffc107';
       if (item.locked) return '#6c757d';
       return '#007bff';
     };
 
     const getStatusText = () => {
       if (!visible) return 'LOCKED';
-      if (item.result) return item.result;
+      if (grade) return grade.result;
       if (item.locked) return 'LOCKED';
       return 'PENDING';
     };
 
     const getStatusIcon = () => {
       if (!visible) return '🔒';
-      if (item.result === 'WIN') return '✅';
-      if (item.result === 'LOSS') return '❌';
-      if (item.result === 'PUSH') return '➖';
+      if (grade?.result === 'WIN') return '✅';
+      if (grade?.result === 'LOSS') return '❌';
+      if (grade?.result === 'PUSH') return '➖';
       if (item.locked) return '🔒';
       return '⏳';
     };
@@ -158,14 +138,14 @@ export default function MemberPicksScreen() {
           {visible ? (
             <>
               <Text style={styles.pickText}>
-                Picked: <Text style={styles.pickSide}>{item.side}</Text> ({item.line_value > 0 ? '+' : ''}{item.line_value})
+                Picked: <Text style={styles.pickSide}>{describePick(item, item.games, straightUp)}</Text>{item.confidence ? ` · Confidence ${item.confidence}` : ''}
               </Text>
-              {item.points !== undefined && (
-                <Text style={[styles.pointsText, { color: item.points > 0 ? '#28a745' : '#dc3545' }]}>
-                  Points: {item.points > 0 ? '+' : ''}{item.points}
+              {grade && (
+                <Text style={[styles.pointsText, { color: grade.points > 0 ? '#28a745' : '#dc3545' }]}>
+                  Points: {grade.points > 0 ? '+' : ''}{grade.points}
                 </Text>
               )}
-              {!item.result && (
+              {!grade && (
                 <Text style={styles.pendingText}>
                   {item.locked ? 'Waiting for game result' : 'Pick submitted'}
                 </Text>
@@ -191,10 +171,9 @@ export default function MemberPicksScreen() {
 
   const renderWeekSection = ({ item }: { item: WeeklyPicks }) => {
     const visiblePicks = item.picks.filter(isPickVisible);
-    const weekWins = visiblePicks.filter(p => p.result === 'WIN').length;
-    const weekLosses = visiblePicks.filter(p => p.result === 'LOSS').length;
-    const weekPushes = visiblePicks.filter(p => p.result === 'PUSH').length;
-    const weekPending = visiblePicks.filter(p => !p.result).length;
+    const grades = visiblePicks.map(p => getPickGrade(p, p.games, pushPoints));
+    const { wins: weekWins, losses: weekLosses, pushes: weekPushes, points: weekPoints } = tallyGrades(grades);
+    const weekPending = grades.filter(g => !g).length;
     const lockedCount = item.picks.length - visiblePicks.length;
     
     return (
@@ -202,16 +181,18 @@ export default function MemberPicksScreen() {
         <View style={styles.weekHeader}>
           <Text style={styles.weekTitle}>Week {item.week}, {item.season}</Text>
           <View style={styles.weekStats}>
+            <Text style={styles.recordLabel}>{getRecordLabel(league)}</Text>
             {weekWins > 0 && <Text style={styles.weekWins}>{weekWins}W</Text>}
             {weekLosses > 0 && <Text style={styles.weekLosses}>{weekLosses}L</Text>}
             {weekPushes > 0 && <Text style={styles.weekPushes}>{weekPushes}P</Text>}
+            {isConfidence && weekPoints > 0 && <Text style={styles.weekWins}>{weekPoints} pts</Text>}
             {weekPending > 0 && <Text style={styles.weekPending}>{weekPending} pending</Text>}
             {lockedCount > 0 && <Text style={styles.weekLocked}>{lockedCount} locked</Text>}
           </View>
         </View>
         
         {item.picks.map((pick, index) => (
-          <View key={`${pick.league_id}-${pick.game_id}`} style={styles.pickInWeek}>
+          <View key={`${pick.league_id}-${pick.game_id}-${pick.side}`} style={styles.pickInWeek}>
             {renderPick({ item: pick })}
           </View>
         ))}
@@ -219,6 +200,8 @@ export default function MemberPicksScreen() {
     );
   };
 
+  const allPicks = weeklyPicks.flatMap(week => week.picks);
+
   if (loading) {
     return (
       <View style={styles.centered}>
@@ -236,11 +219,37 @@ export default function MemberPicksScreen() {
         </Text>
       </View>
       
+      <View style={styles.viewModeSelector}>
+        <TouchableOpacity
+          style={[styles.viewModeButton, viewMode === 'picks' && styles.selectedViewModeButton]}
+          onPress={() => setViewMode('picks')}
+        >
+          <Text style={[styles.viewModeText, viewMode === 'picks' && styles.selectedViewModeText]}>
+            Picks
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.viewModeButton, viewMode === 'stats' && styles.selectedViewModeButton]}
+          onPress={() => setViewMode('stats')}
+        >
+          <Text style={[styles.viewModeText, viewMode === 'stats' && styles.selectedViewModeText]}>
+            Stats
+          </Text>
+        </TouchableOpacity>
+      </View>
+
       {weeklyPicks.length === 0 ? (
         <View style={styles.centered}>
           <Text style={styles.emptyText}>No picks found</Text>
           <Text style={styles.emptySubtext}>This member hasn't made any picks yet</Text>
         </View>
+      ) : viewMode === 'stats' ? (
+        <MemberStatsView
+          stats={buildMemberStats(allPicks, pushPoints, isPickVisible)}
+          recordLabel={getRecordLabel(league)}
+          straightUp={straightUp}
+          hiddenCount={allPicks.filter(pick => !isPickVisible(pick)).length}
+        />
       ) : (
         <FlatList
           data={weeklyPicks}
@@ -281,6 +290,32 @@ const styles = StyleSheet.create({
     color: '#666',
     marginTop: 4,
   },
+  viewModeSelector: {
+    backgroundColor: '#fff',
+    flexDirection: 'row',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  viewModeButton: {
+    flex: 1,
+    paddingVertical: 8,
+    alignItems: 'center',
+    borderRadius: 6,
+    marginHorizontal: 4,
+  },
+  selectedViewModeButton: {
+    backgroundColor: '#007AFF',
+  },
+  viewModeText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#666',
+  },
+  selectedViewModeText: {
+    color: '#fff',
+  },
   centered: {
     flex: 1,
     justifyContent: 'center',
@@ -345,6 +380,11 @@ const styles = StyleSheet.create({
     paddingVertical: 2,
     borderRadius: 4,
   },
+  recordLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6c757d',
+  },
   weekPending: {
     fontSize: 12,
     fontWeight: '600',
@@ -0,0 +1,56 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { AWARDS, type Award } from '@/lib/awards';
+
+interface AwardRowProps {
+  award: Award;
+  userName: string;
+}
+
+export default function AwardRow({ award, userName }: AwardRowProps) {
+  const { title, icon } = AWARDS[award.kind];
+
+  return (
+    <View style={styles.row}>
+      <Text style={styles.icon}>{icon}</Text>
+      <View style={styles.info}>
+        <Text style={styles.title}>{title}</Text>
+        <Text style={styles.detail}>{award.detail}</Text>
+      </View>
+      <Text style={styles.userName} numberOfLines={1}>{userName}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  icon: {
+    fontSize: 24,
+    width: 36,
+  },
+  info: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  detail: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  userName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF',
+    maxWidth: 120,
+  },
+});
@@ -1,25 +1,58 @@
-import React from 'react';
-import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
-import { type Game, type LeagueSlateLine, type Pick } from '@/lib/supabase';
-
-type GameWithLine = {
-  game: Game;
-  line: LeagueSlateLine;
-  existingPick?: Pick;
-};
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Modal, ScrollView } from 'react-native';
+import { getConsensusShare, type GameConsensus } from '@/lib/consensus';
+import { getPickGrade } from '@/lib/grading';
+import { type GameWithLine } from '@/lib/repository';
+import type { Pick } from '@/lib/supabase';
+import { formatEasternTime, getLineDropAt, isPickLocked, type PickLockRules } from '@/lib/schedule';
+import { describePick, isSamePick, STRAIGHT_UP_LINE_VALUE } from '@/lib/pick-mode';
+import { describeDraftFlag, type DraftFlag } from '@/lib/pick-drafts';
+import { describeOutboxEntry, type OutboxEntry } from '@/lib/pick-outbox';
 
 interface GameCardProps {
   gameWithLine: GameWithLine;
-  onPickSide: (gameId: string, side: 'HOME' | 'AWAY', lineValue: number) => void;
+  onPickSide: (gameId: string, side: Pick['side'], lineValue: number) => void;
   disabled?: boolean;
+  pushPoints?: number;
+  lockRules?: PickLockRules;    // League's lock mode; picks lock at kickoff without one
+  confidenceValues?: number[];  // Set in confidence leagues
+  onAssignConfidence?: (pick: Pick, value: number) => void;
+  isEditable?: (pick: Pick) => boolean;  // Picks on games that haven't locked can still be re-ranked
+  straightUp?: boolean;         // Hide spreads and pick winners outright
+  blockedTeams?: string[];      // Teams the player may not pick, e.g. already used in survivor
+  showTotals?: boolean;         // Offer the over/under when the line has a total
+  consensus?: GameConsensus;    // League's side picks; names only once revealed
+  getMemberName?: (userId: string) => string;
+  draftFlags?: DraftFlag[];     // Unsaved picks on this game that went stale
+  outboxEntries?: OutboxEntry[];  // Saved changes on this game still waiting to send, or not sent
+  onDismissOutboxEntry?: (key: string) => void;
 }
 
-export default function GameCard({ gameWithLine, onPickSide, disabled = false }: GameCardProps) {
-  const { game, line, existingPick } = gameWithLine;
+export default function GameCard({
+  gameWithLine,
+  onPickSide,
+  disabled = false,
+  pushPoints = 0,
+  lockRules,
+  confidenceValues,
+  onAssignConfidence,
+  isEditable = () => false,
+  straightUp = false,
+  blockedTeams = [],
+  showTotals = false,
+  consensus,
+  getMemberName = userId => userId,
+  draftFlags = [],
+  outboxEntries = [],
+  onDismissOutboxEntry,
+}: GameCardProps) {
+  const { game, line, existingPick, existingTotalPick } = gameWithLine;
+  const [showConsensus, setShowConsensus] = useState(false);
   
   // Format kickoff time
   const kickoffDate = new Date(game.kickoff);
-  const isGameStarted = kickoffDate <= new Date();
+  const isGameStarted = isPickLocked(kickoffDate);
+  const isGameLocked = isPickLocked(kickoffDate, lockRules);
   const timeString = kickoffDate.toLocaleTimeString('en-US', {
     hour: 'numeric',
     minute: '2-digit',
@@ -35,64 +68,181 @@ export default function GameCard({ gameWithLine, onPickSide, disabled = false }:
   const linesAvailable = (line as any).lines_available !== false && (line.spread_home !== null || line.spread_away !== null);
   const isSchedulePreview = (line.source === 'cfbd_schedule_preview');
   
-  // Determine publish window messaging based on game day
-  const getPublishMessage = () => {
-    if (linesAvailable) return null; // Lines are already available
-    
-    const gameDay = kickoffDate.toLocaleDateString('en-US', { weekday: 'short' }).toUpperCase();
-    
-    if (gameDay === 'MON') {
-      return 'Lines drop Mon 10 AM ET';
-    } else if (gameDay === 'TUE' || gameDay === 'WED') {
-      return `Lines drop ${gameDay.charAt(0) + gameDay.slice(1).toLowerCase()} 10 AM ET`;
-    } else {
-      return 'Lines drop Thu 10 AM ET';
-    }
-  };
+  // Lines drop at the start of the game's publish window (see lib/schedule)
+  const lineDropAt = formatEasternTime(getLineDropAt(kickoffDate, line.publish_window));
+  const publishMessage = linesAvailable ? null : `Lines drop ${lineDropAt}`;
   
-  const publishMessage = getPublishMessage();
-  
-  // Format spread display
+  // Format spread display, e.g. "Lines Thu Sep 4" until the drop
   const getSpreadFallback = () => {
     if (!publishMessage) return 'N/A';
-    
-    const gameDay = kickoffDate.toLocaleDateString('en-US', { weekday: 'short' }).toUpperCase();
-    
-    if (gameDay === 'MON') {
-      return 'Lines Mon 10 AM';
-    } else if (gameDay === 'TUE') {
-      return 'Lines Tue 10 AM';
-    } else if (gameDay === 'WED') {
-      return 'Lines Wed 10 AM';
-    } else {
-      return 'Lines Thu 10 AM';
-    }
+    return `Lines ${lineDropAt.split(',')[0]}`;
   };
   
   const spreadFallback = getSpreadFallback();
   
-  const homeSpreadDisplay = line.spread_home 
-    ? (line.spread_home > 0 ? `+${line.spread_home}` : line.spread_home.toString())
-    : spreadFallback;
-  const awaySpreadDisplay = line.spread_away 
-    ? (line.spread_away > 0 ? `+${line.spread_away}` : line.spread_away.toString())
-    : spreadFallback;
+  const isHomeBlocked = blockedTeams.includes(game.home);
+  const isAwayBlocked = blockedTeams.includes(game.away);
+
+  // Straight-up picks show the outcome instead of the number
+  const getStraightUpDisplay = (blocked: boolean) => {
+    if (!linesAvailable) return spreadFallback;
+    return blocked ? 'Used' : 'Win';
+  };
+
+  const homeSpreadDisplay = straightUp
+    ? getStraightUpDisplay(isHomeBlocked)
+    : line.spread_home 
+      ? (line.spread_home > 0 ? `+${line.spread_home}` : line.spread_home.toString())
+      : spreadFallback;
+  const awaySpreadDisplay = straightUp
+    ? getStraightUpDisplay(isAwayBlocked)
+    : line.spread_away 
+      ? (line.spread_away > 0 ? `+${line.spread_away}` : line.spread_away.toString())
+      : spreadFallback;
+
+  // Picks, submitted or not, can change until the game locks
+  const isLocked = isGameLocked || existingPick?.locked;
+  const isTotalLocked = isGameLocked || existingTotalPick?.locked;
+  const sideDisabled = disabled || !!isLocked;
+  const totalDisabled = disabled || !!isTotalLocked;
+  const hasTotal = showTotals && line.total != null;
 
+  // Straight-up picks still need the slate line published
   const handlePickHome = () => {
-    if (!disabled && !isGameStarted && linesAvailable && line.spread_home !== null) {
-      onPickSide(game.id, 'HOME', line.spread_home);
+    if (!sideDisabled && !isHomeBlocked && linesAvailable && line.spread_home !== null) {
+      onPickSide(game.id, 'HOME', straightUp ? STRAIGHT_UP_LINE_VALUE : line.spread_home);
     }
   };
 
   const handlePickAway = () => {
-    if (!disabled && !isGameStarted && linesAvailable && line.spread_away !== null) {
-      onPickSide(game.id, 'AWAY', line.spread_away);
+    if (!sideDisabled && !isAwayBlocked && linesAvailable && line.spread_away !== null) {
+      onPickSide(game.id, 'AWAY', straightUp ? STRAIGHT_UP_LINE_VALUE : line.spread_away);
+    }
+  };
+
+  const handlePickTotal = (side: 'OVER' | 'UNDER') => {
+    if (!totalDisabled && linesAvailable && line.total != null) {
+      onPickSide(game.id, side, line.total);
     }
   };
 
   const isHomePicked = existingPick?.side === 'HOME';
   const isAwayPicked = existingPick?.side === 'AWAY';
-  const isLocked = isGameStarted || existingPick?.locked;
+
+  // A queued write shows with the pick it will save
+  const isSendingPick = (entry: OutboxEntry, pick: Pick) =>
+    entry.status === 'queued' && entry.op === 'upsert' && isSamePick(entry.pick, pick);
+
+  // Queued drops and changes that were never sent, which have no pick to show under
+  const renderOutboxEntries = () => {
+    const shown = [existingPick, existingTotalPick];
+    const entries = outboxEntries.filter(entry =>
+      !shown.some(pick => pick && isSendingPick(entry, pick)));
+    if (entries.length === 0) return null;
+
+    return (
+      <View style={styles.pickStatus}>
+        {entries.map(entry => (
+          <View key={entry.key} style={styles.outboxRow}>
+            <Text style={[styles.outboxText, entry.status !== 'queued' && styles.outboxErrorText]}>
+              {entry.status === 'queued' ? '📤' : '⚠️'} {describePick(entry.pick, game, straightUp)}: {describeOutboxEntry(entry)}
+            </Text>
+            {entry.status !== 'queued' && onDismissOutboxEntry && (
+              <TouchableOpacity onPress={() => onDismissOutboxEntry(entry.key)}>
+                <Text style={styles.outboxDismissText}>Dismiss</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  const renderPickStatus = (pick: Pick) => {
+    const grade = getPickGrade(pick, game, pushPoints);
+    const canRank = confidenceValues && onAssignConfidence && isEditable(pick);
+    const draftFlag = draftFlags.find(flag => isSamePick(flag, pick));
+    const sending = outboxEntries.find(entry => isSendingPick(entry, pick));
+
+    return (
+      <View key={pick.side} style={styles.pickStatus}>
+        <Text style={styles.pickStatusText}>
+          Your pick: {describePick(pick, game, straightUp)}
+          {pick.confidence ? ` • Confidence ${pick.confidence}` : ''}
+          {grade && ` • ${grade.result} (${grade.points} pts)`}
+        </Text>
+        {draftFlag && (
+          <Text style={styles.draftFlagText}>⚠️ {describeDraftFlag(draftFlag)}</Text>
+        )}
+        {sending && (
+          <Text style={styles.outboxText}>📤 {describeOutboxEntry(sending)}</Text>
+        )}
+
+        {/* Confidence Picker */}
+        {canRank && (
+          <View style={styles.confidenceRow}>
+            <Text style={styles.confidenceLabel}>Confidence</Text>
+            <View style={styles.confidenceOptions}>
+              {confidenceValues.map(value => (
+                <TouchableOpacity
+                  key={value}
+                  style={[
+                    styles.confidenceOption,
+                    pick.confidence === value && styles.selectedConfidenceOption
+                  ]}
+                  onPress={() => onAssignConfidence(pick, value)}
+                >
+                  <Text style={[
+                    styles.confidenceText,
+                    pick.confidence === value && styles.selectedConfidenceText
+                  ]}>
+                    {value}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const renderConsensus = () => {
+    if (!consensus) return null;
+    if (!consensus.revealed) {
+      return (
+        <View style={styles.consensus}>
+          <Text style={styles.consensusCount}>
+            {consensus.pick_count} {consensus.pick_count === 1 ? 'pick' : 'picks'} made • revealed at unlock
+          </Text>
+        </View>
+      );
+    }
+
+    const share = getConsensusShare(consensus);
+    return (
+      <TouchableOpacity style={styles.consensus} onPress={() => setShowConsensus(true)}>
+        <View style={styles.consensusLabels}>
+          <Text style={styles.consensusText}>{game.away} {share.away}%</Text>
+          <Text style={styles.consensusText}>{share.home}% {game.home}</Text>
+        </View>
+        <View style={styles.consensusBar}>
+          <View style={[styles.consensusAway, { flex: consensus.away.length }]} />
+          <View style={[styles.consensusHome, { flex: consensus.home.length }]} />
+        </View>
+        <Text style={styles.consensusCount}>League consensus • tap to see who</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderConsensusSide = (team: string, userIds: string[]) => (
+    <View style={styles.consensusColumn}>
+      <Text style={styles.consensusColumnTitle}>{team} ({userIds.length})</Text>
+      {userIds.map(userId => (
+        <Text key={userId} style={styles.consensusName}>{getMemberName(userId)}</Text>
+      ))}
+    </View>
+  );
 
   return (
     <View style={[styles.container, isLocked && styles.lockedContainer]}>
@@ -124,10 +274,10 @@ export default function GameCard({ gameWithLine, onPickSide, disabled = false }:
           style={[
             styles.teamButton,
             isAwayPicked && styles.selectedTeamButton,
-            (disabled || isLocked) && styles.disabledTeamButton
+            (sideDisabled || isAwayBlocked) && styles.disabledTeamButton
           ]}
           onPress={handlePickAway}
-          disabled={disabled || isLocked}
+          disabled={sideDisabled || isAwayBlocked}
         >
           <View style={styles.teamInfo}>
             <Text style={[
@@ -162,10 +312,10 @@ export default function GameCard({ gameWithLine, onPickSide, disabled = false }:
           style={[
             styles.teamButton,
             isHomePicked && styles.selectedTeamButton,
-            (disabled || isLocked) && styles.disabledTeamButton
+            (sideDisabled || isHomeBlocked) && styles.disabledTeamButton
           ]}
           onPress={handlePickHome}
-          disabled={disabled || isLocked}
+          disabled={sideDisabled || isHomeBlocked}
         >
           <View style={styles.teamInfo}>
             <Text style={[
@@ -191,16 +341,53 @@ export default function GameCard({ gameWithLine, onPickSide, disabled = false }:
         </TouchableOpacity>
       </View>
 
-      {/* Pick Status */}
-      {existingPick && (
-        <View style={styles.pickStatus}>
-          <Text style={styles.pickStatusText}>
-            Your pick: {existingPick.side} {existingPick.line_value > 0 ? '+' : ''}{existingPick.line_value}
-            {existingPick.result && ` • ${existingPick.result}`}
-            {existingPick.points !== undefined && ` (${existingPick.points} pts)`}
-          </Text>
+      {/* Over/Under */}
+      {hasTotal && (
+        <View style={styles.totalContainer}>
+          {(['OVER', 'UNDER'] as const).map(side => {
+            const isPicked = existingTotalPick?.side === side;
+            return (
+              <TouchableOpacity
+                key={side}
+                style={[
+                  styles.totalButton,
+                  isPicked && styles.selectedTeamButton,
+                  totalDisabled && styles.disabledTeamButton
+                ]}
+                onPress={() => handlePickTotal(side)}
+                disabled={totalDisabled}
+              >
+                <Text style={[styles.totalText, isPicked && styles.selectedTeamName]}>
+                  {side === 'OVER' ? 'Over' : 'Under'} {line.total}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
         </View>
       )}
+
+      {/* Pick Status */}
+      {existingPick && renderPickStatus(existingPick)}
+      {existingTotalPick && renderPickStatus(existingTotalPick)}
+      {renderOutboxEntries()}
+
+      {/* League Consensus */}
+      {renderConsensus()}
+
+      {consensus?.revealed && (
+        <Modal visible={showConsensus} animationType="slide" presentationStyle="pageSheet">
+          <View style={styles.modalContainer}>
+            <Text style={styles.modalTitle}>{game.away} @ {game.home}</Text>
+            <ScrollView contentContainerStyle={styles.consensusColumns}>
+              {renderConsensusSide(game.away, consensus.away)}
+              {renderConsensusSide(game.home, consensus.home)}
+            </ScrollView>
+            <TouchableOpacity style={styles.closeButton} onPress={() => setShowConsensus(false)}>
+              <Text style={styles.closeButtonText}>Close</Text>
+            </TouchableOpacity>
+          </View>
+        </Modal>
+      )}
     </View>
   );
 }
@@ -328,6 +515,30 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     fontWeight: '500',
   },
+  draftFlagText: {
+    fontSize: 12,
+    color: '#856404',
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  outboxRow: {
+    alignItems: 'center',
+  },
+  outboxText: {
+    fontSize: 12,
+    color: '#004085',
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  outboxErrorText: {
+    color: '#856404',
+  },
+  outboxDismissText: {
+    fontSize: 12,
+    color: '#007AFF',
+    fontWeight: '500',
+    marginTop: 2,
+  },
   previewBanner: {
     backgroundColor: '#fff3cd',
     paddingVertical: 8,
@@ -343,4 +554,135 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     fontWeight: '500',
   },
+  totalContainer: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  totalButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    backgroundColor: '#f8f9fa',
+    alignItems: 'center',
+  },
+  totalText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  confidenceRow: {
+    marginTop: 8,
+    alignItems: 'center',
+  },
+  confidenceLabel: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 6,
+  },
+  confidenceOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 6,
+  },
+  confidenceOption: {
+    minWidth: 32,
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    alignItems: 'center',
+  },
+  selectedConfidenceOption: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  confidenceText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#333',
+  },
+  selectedConfidenceText: {
+    color: '#fff',
+  },
+  consensus: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  consensusLabels: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  consensusText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#333',
+  },
+  consensusBar: {
+    flexDirection: 'row',
+    height: 6,
+    borderRadius: 3,
+    overflow: 'hidden',
+    backgroundColor: '#f0f0f0',
+  },
+  consensusAway: {
+    backgroundColor: '#FF9500',
+  },
+  consensusHome: {
+    backgroundColor: '#007AFF',
+  },
+  consensusCount: {
+    fontSize: 12,
+    color: '#999',
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  modalContainer: {
+    flex: 1,
+    padding: 24,
+    backgroundColor: '#fff',
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  consensusColumns: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  consensusColumn: {
+    flex: 1,
+  },
+  consensusColumnTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  consensusName: {
+    fontSize: 14,
+    color: '#666',
+    paddingVertical: 4,
+  },
+  closeButton: {
+    backgroundColor: '#f0f0f0',
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  closeButtonText: {
+    color: '#007AFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
 }); 
\ No newline at end of file
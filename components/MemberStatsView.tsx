@@ -0,0 +1,145 @@
+import React from 'react';
+import { View, Text, StyleSheet, ScrollView } from 'react-native';
+import {
+  formatStatsRecord,
+  getPickCount,
+  type MemberStats,
+  type StatsBucket,
+} from '@/lib/member-stats';
+
+interface MemberStatsViewProps {
+  stats: MemberStats;
+  recordLabel: 'SU' | 'ATS';
+  straightUp: boolean;       // Straight-up picks carry no spread to break down
+  hiddenCount: number;       // Picks left out until they unlock
+}
+
+export default function MemberStatsView({ stats, recordLabel, straightUp, hiddenCount }: MemberStatsViewProps) {
+  const renderSection = (title: string, buckets: StatsBucket[]) => {
+    if (buckets.length === 0) return null;
+
+    return (
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>{title}</Text>
+        {buckets.map(bucket => (
+          <View key={bucket.label} style={styles.row}>
+            <Text style={styles.rowLabel} numberOfLines={1}>{bucket.label}</Text>
+            <Text style={styles.rowRecord}>{formatStatsRecord(bucket)}</Text>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  const current = stats.currentStreak;
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <View style={styles.summaryCard}>
+        <Text style={styles.summaryLabel}>{recordLabel} Record</Text>
+        <Text style={styles.summaryRecord}>{formatStatsRecord(stats)}</Text>
+        <Text style={styles.summaryDetail}>
+          {getPickCount(stats)} graded picks • {stats.points} pts
+        </Text>
+        {hiddenCount > 0 && (
+          <Text style={styles.hiddenNote}>
+            🔒 {hiddenCount} hidden {hiddenCount === 1 ? 'pick is' : 'picks are'} left out until they unlock
+          </Text>
+        )}
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Streaks</Text>
+        <View style={styles.row}>
+          <Text style={styles.rowLabel}>Longest win streak</Text>
+          <Text style={styles.rowRecord}>{stats.longestWinStreak}</Text>
+        </View>
+        <View style={styles.row}>
+          <Text style={styles.rowLabel}>Longest losing streak</Text>
+          <Text style={styles.rowRecord}>{stats.longestLossStreak}</Text>
+        </View>
+        <View style={styles.row}>
+          <Text style={styles.rowLabel}>Current streak</Text>
+          <Text style={styles.rowRecord}>
+            {current ? `${current.result === 'WIN' ? 'W' : 'L'}${current.length}` : '-'}
+          </Text>
+        </View>
+      </View>
+
+      {!straightUp && renderSection('Favorites vs Underdogs', stats.favorites)}
+      {renderSection('Home vs Away', stats.homeAway)}
+      {!straightUp && renderSection('Spread Size', stats.spreadSizes)}
+      {renderSection('Day of Week (ET)', stats.byDay)}
+      {renderSection('Publish Window', stats.byWindow)}
+      {renderSection(`${recordLabel} by Team Picked`, stats.byTeam)}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: 16,
+    gap: 12,
+  },
+  summaryCard: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+    alignItems: 'center',
+  },
+  summaryLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6c757d',
+  },
+  summaryRecord: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 4,
+  },
+  summaryDetail: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+  },
+  hiddenNote: {
+    fontSize: 12,
+    color: '#6c757d',
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  section: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+    borderTopWidth: 1,
+    borderTopColor: '#f1f3f4',
+  },
+  rowLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333',
+  },
+  rowRecord: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+});
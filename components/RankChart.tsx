@@ -0,0 +1,209 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, useWindowDimensions } from 'react-native';
+import Svg, { Circle, Line, Polyline, Text as SvgText } from 'react-native-svg';
+import type { RankHistory, RankPoint } from '@/lib/rank-history';
+
+interface RankChartProps {
+  history: RankHistory;
+  highlightedUserId: string | null;
+  onHighlight: (userId: string | null) => void;  // Tapping the highlighted line clears it
+}
+
+type ChartMode = 'rank' | 'points';
+
+const CHART_HEIGHT = 180;
+const PADDING = { top: 12, right: 16, bottom: 24, left: 32 };
+const LINE_COLORS = ['#007AFF', '#FF9500', '#34C759', '#FF3B30', '#AF52DE', '#5AC8FA', '#FFCC00', '#8E8E93'];
+
+export default function RankChart({ history, highlightedUserId, onHighlight }: RankChartProps) {
+  const [mode, setMode] = useState<ChartMode>('rank');
+  const { width: windowWidth } = useWindowDimensions();
+  const width = windowWidth - 32;
+
+  const { weeks, series } = history;
+  if (weeks.length === 0) return null;
+
+  const valueOf = (point: RankPoint) => (mode === 'rank' ? point.rank : point.points);
+  const values = series.flatMap(entry => entry.points.map(valueOf));
+  // Rank 1 sits at the top; points grow upward
+  const top = mode === 'rank' ? 1 : Math.max(...values, 1);
+  const bottom = mode === 'rank' ? Math.max(...values, 2) : Math.min(...values, 0);
+
+  const plotWidth = width - PADDING.left - PADDING.right;
+  const plotHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (week: number) => {
+    const index = weeks.indexOf(week);
+    return PADDING.left + (weeks.length > 1 ? (index / (weeks.length - 1)) * plotWidth : plotWidth / 2);
+  };
+  const y = (value: number) => PADDING.top + ((top - value) / (top - bottom)) * plotHeight;
+
+  const colorFor = (index: number) => LINE_COLORS[index % LINE_COLORS.length];
+  const toggleHighlight = (userId: string) => onHighlight(highlightedUserId === userId ? null : userId);
+
+  // Draw the highlighted line last so it sits on top
+  const drawOrder = series
+    .map((entry, index) => ({ entry, color: colorFor(index) }))
+    .sort((a, b) => Number(a.entry.user_id === highlightedUserId) - Number(b.entry.user_id === highlightedUserId));
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.headerRow}>
+        <Text style={styles.title}>Season Race</Text>
+        <View style={styles.modeToggle}>
+          {(['rank', 'points'] as const).map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.modeButton, mode === option && styles.selectedModeButton]}
+              onPress={() => setMode(option)}
+            >
+              <Text style={[styles.modeText, mode === option && styles.selectedModeText]}>
+                {option === 'rank' ? 'Rank' : 'Points'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      <Svg width={width} height={CHART_HEIGHT}>
+        {/* Axis labels */}
+        <SvgText x={PADDING.left - 6} y={y(top) + 4} fontSize={10} fill="#999" textAnchor="end">
+          {mode === 'rank' ? '#1' : String(top)}
+        </SvgText>
+        <SvgText x={PADDING.left - 6} y={y(bottom) + 4} fontSize={10} fill="#999" textAnchor="end">
+          {mode === 'rank' ? `#${bottom}` : String(bottom)}
+        </SvgText>
+        <Line
+          x1={PADDING.left}
+          y1={CHART_HEIGHT - PADDING.bottom}
+          x2={width - PADDING.right}
+          y2={CHART_HEIGHT - PADDING.bottom}
+          stroke="#e0e0e0"
+        />
+        {weeks.map(week => (
+          <SvgText key={week} x={x(week)} y={CHART_HEIGHT - 8} fontSize={10} fill="#999" textAnchor="middle">
+            {`W${week}`}
+          </SvgText>
+        ))}
+
+        {drawOrder.map(({ entry, color }) => {
+          const isHighlighted = entry.user_id === highlightedUserId;
+          const dimmed = highlightedUserId !== null && !isHighlighted;
+          const coordinates = entry.points.map(point => `${x(point.week)},${y(valueOf(point))}`).join(' ');
+
+          return (
+            <React.Fragment key={entry.user_id}>
+              <Polyline
+                points={coordinates}
+                fill="none"
+                stroke={color}
+                strokeWidth={isHighlighted ? 4 : 2}
+                strokeOpacity={dimmed ? 0.2 : 1}
+              />
+              {/* Wider invisible stroke so thin lines are easy to tap */}
+              <Polyline
+                points={coordinates}
+                fill="none"
+                stroke="transparent"
+                strokeWidth={16}
+                onPress={() => toggleHighlight(entry.user_id)}
+              />
+              {entry.points.map(point => (
+                <Circle
+                  key={point.week}
+                  cx={x(point.week)}
+                  cy={y(valueOf(point))}
+                  r={isHighlighted ? 4 : 3}
+                  fill={color}
+                  fillOpacity={dimmed ? 0.2 : 1}
+                  onPress={() => toggleHighlight(entry.user_id)}
+                />
+              ))}
+            </React.Fragment>
+          );
+        })}
+      </Svg>
+
+      {/* Legend */}
+      <View style={styles.legend}>
+        {series.map((entry, index) => (
+          <TouchableOpacity
+            key={entry.user_id}
+            style={[styles.legendItem, entry.user_id === highlightedUserId && styles.selectedLegendItem]}
+            onPress={() => toggleHighlight(entry.user_id)}
+          >
+            <View style={[styles.legendSwatch, { backgroundColor: colorFor(index) }]} />
+            <Text style={styles.legendText}>{(entry.user_email || 'Unknown').split('@')[0]}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  modeToggle: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  modeButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 6,
+    backgroundColor: '#f0f0f0',
+  },
+  selectedModeButton: {
+    backgroundColor: '#007AFF',
+  },
+  modeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#666',
+  },
+  selectedModeText: {
+    color: '#fff',
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+  },
+  selectedLegendItem: {
+    backgroundColor: '#f0f0f0',
+  },
+  legendSwatch: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 4,
+  },
+  legendText: {
+    fontSize: 12,
+    color: '#333',
+  },
+});
@@ -0,0 +1,62 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView } from 'react-native';
+import type { SeasonSummary } from '@/lib/league-seasons';
+
+interface SeasonSelectorProps {
+  seasons: SeasonSummary[];
+  selectedSeason: number;
+  onSelect: (season: number) => void;
+}
+
+// Horizontal season chips; hidden until the league has more than one season
+export default function SeasonSelector({ seasons, selectedSeason, onSelect }: SeasonSelectorProps) {
+  if (seasons.length < 2) return null;
+
+  return (
+    <View style={styles.container}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.options}>
+        {seasons.map(({ season, archived }) => (
+          <TouchableOpacity
+            key={season}
+            style={[styles.option, season === selectedSeason && styles.selectedOption]}
+            onPress={() => onSelect(season)}
+          >
+            <Text style={[styles.optionText, season === selectedSeason && styles.selectedOptionText]}>
+              {season}{archived ? ' 📦' : ''}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  options: {
+    paddingHorizontal: 16,
+    gap: 8,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f0f0f0',
+  },
+  selectedOption: {
+    backgroundColor: '#007AFF',
+  },
+  optionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+  },
+  selectedOptionText: {
+    color: '#fff',
+  },
+});
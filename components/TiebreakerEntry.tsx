@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { type GameWithLine } from '@/lib/repository';
+import type { Tiebreaker } from '@/lib/supabase';
+import { formatEasternTime, getPickLockAt, type PickLockRules } from '@/lib/schedule';
+
+interface TiebreakerEntryProps {
+  gameWithLine: GameWithLine;      // The week's tiebreaker game
+  entry: Tiebreaker | null;
+  onSave: (totalPoints: number) => void;
+  saving?: boolean;
+  lockRules?: PickLockRules;       // League's lock mode; the entry locks with the game's picks
+}
+
+export default function TiebreakerEntry({ gameWithLine, entry, onSave, saving = false, lockRules }: TiebreakerEntryProps) {
+  const { game } = gameWithLine;
+  // An entry for an earlier tiebreaker game no longer counts for this one
+  const currentEntry = entry?.game_id === game.id ? entry : null;
+  const [value, setValue] = useState(currentEntry ? String(currentEntry.total_points) : '');
+
+  useEffect(() => {
+    setValue(currentEntry ? String(currentEntry.total_points) : '');
+  }, [currentEntry?.game_id, currentEntry?.total_points]);
+
+  const lockAt = getPickLockAt(new Date(game.kickoff), lockRules);
+  const isLocked = new Date() >= lockAt;
+  const totalPoints = parseInt(value, 10);
+  const canSave = !isLocked && !saving && Number.isInteger(totalPoints) && totalPoints >= 0
+    && totalPoints !== currentEntry?.total_points;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Tiebreaker</Text>
+      <Text style={styles.question}>
+        Total points in {game.away} @ {game.home}?
+      </Text>
+      <Text style={styles.lockText}>
+        {isLocked ? 'Locked' : `Locks ${formatEasternTime(lockAt)}`}
+      </Text>
+
+      <View style={styles.inputRow}>
+        <TextInput
+          style={[styles.input, isLocked && styles.disabledInput]}
+          value={value}
+          onChangeText={setValue}
+          placeholder="e.g. 52"
+          keyboardType="number-pad"
+          editable={!isLocked}
+        />
+        <TouchableOpacity
+          style={[styles.saveButton, !canSave && styles.saveButtonDisabled]}
+          onPress={() => onSave(totalPoints)}
+          disabled={!canSave}
+        >
+          <Text style={styles.saveButtonText}>
+            {saving ? 'Saving...' : currentEntry ? 'Update' : 'Save'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    marginHorizontal: 16,
+    marginVertical: 8,
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 4,
+  },
+  question: {
+    fontSize: 14,
+    color: '#333',
+  },
+  lockText: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 12,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 16,
+    backgroundColor: '#fafafa',
+  },
+  disabledInput: {
+    opacity: 0.6,
+  },
+  saveButton: {
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  saveButtonDisabled: {
+    backgroundColor: '#ccc',
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -1,6 +1,9 @@
 import React from 'react';
 import { View, Text } from 'react-native';
 import { LeagueSlateLine } from '../lib/supabase';
+import { describeWindowDrop, formatEasternTime, getWeekSchedule, type PublishWindow } from '../lib/schedule';
+import { getSeasonWeek, getWeekLabel } from '../lib/season';
+import { useSeasonCalendar } from './useSeasonCalendar';
 
 interface WindowingBannerProps {
   games: Array<{ line: LeagueSlateLine }>;
@@ -9,6 +12,9 @@ interface WindowingBannerProps {
 }
 
 export default function WindowingBanner({ games, season, week }: WindowingBannerProps) {
+  const calendar = useSeasonCalendar(season);
+  const weekLabel = getWeekLabel(calendar, week);
+
   // Check if any games have lines available
   const hasLinesAvailable = games.some(g => g.line.lines_available);
   
@@ -21,61 +27,34 @@ export default function WindowingBanner({ games, season, week }: WindowingBanner
     const window = game.line.publish_window || 'MAIN';
     acc[window] = (acc[window] || 0) + 1;
     return acc;
-  }, {} as Record<string, number>);
+  }, {} as Partial<Record<PublishWindow, number>>);
 
   // Determine the primary window for this set of games
-  let primaryWindow = 'MAIN';
+  let primaryWindow: PublishWindow = 'MAIN';
   let maxCount = 0;
-  Object.entries(windowCounts).forEach(([window, count]) => {
+  (Object.entries(windowCounts) as [PublishWindow, number][]).forEach(([window, count]) => {
     if (count > maxCount) {
       maxCount = count;
       primaryWindow = window;
     }
   });
 
-  // Calculate next drop time based on window
-  const getNextDropTime = (window: string): string => {
-    // Calculate the approximate drop time
-    // Week 1 starts around Aug 24, 2025
-    const seasonStart = new Date(season, 7, 24); // Aug 24
-    const weekStart = new Date(seasonStart.getTime() + (week - 1) * 7 * 24 * 60 * 60 * 1000);
-    
-    let dropDay = new Date(weekStart);
-    let dropDescription = '';
-    
-    switch (window) {
-      case 'LABORDAY':
-        // Monday 10:00 AM ET
-        dropDay.setDate(weekStart.getDate() + 1); // Monday
-        dropDay.setHours(10, 0, 0, 0);
-        dropDescription = 'Mon 10:00 AM ET';
-        break;
-      case 'EARLY':
-        // Tuesday 10:00 AM ET (for Tue/Wed games)
-        dropDay.setDate(weekStart.getDate() + 2); // Tuesday
-        dropDay.setHours(10, 0, 0, 0);
-        dropDescription = 'Tue 10:00 AM ET';
-        break;
-      case 'MAIN':
-      default:
-        // Thursday 10:00 AM ET (for Thu-Sun games)
-        dropDay.setDate(weekStart.getDate() + 4); // Thursday
-        dropDay.setHours(10, 0, 0, 0);
-        dropDescription = 'Thu 10:00 AM ET';
-        break;
-    }
-
-    return dropDescription;
+  // Dated drop time once the week's kickoffs are known
+  const getNextDropTime = (window: PublishWindow): string => {
+    const seasonWeek = calendar ? getSeasonWeek(calendar, week) : undefined;
+    return seasonWeek
+      ? formatEasternTime(getWeekSchedule(seasonWeek.firstKickoff).drops[window])
+      : describeWindowDrop(window);
   };
 
   const dropTime = getNextDropTime(primaryWindow);
   
   // Determine banner message and color
-  const getBannerInfo = (window: string) => {
+  const getBannerInfo = (window: PublishWindow) => {
     switch (window) {
       case 'LABORDAY':
         return {
-          message: `Week ${week} Labor Day lines drop ${dropTime}`,
+          message: `${weekLabel} Labor Day lines drop ${dropTime}`,
           subtitle: 'Monday games available soon',
           bgColor: 'bg-red-100',
           textColor: 'text-red-800',
@@ -83,7 +62,7 @@ export default function WindowingBanner({ games, season, week }: WindowingBanner
         };
       case 'EARLY':
         return {
-          message: `Week ${week} MACtion lines drop ${dropTime}`,
+          message: `${weekLabel} MACtion lines drop ${dropTime}`,
           subtitle: 'Tuesday/Wednesday games available soon',
           bgColor: 'bg-yellow-100',
           textColor: 'text-yellow-800',
@@ -92,7 +71,7 @@ export default function WindowingBanner({ games, season, week }: WindowingBanner
       case 'MAIN':
       default:
         return {
-          message: `Week ${week} lines drop ${dropTime}`,
+          message: `${weekLabel} lines drop ${dropTime}`,
           subtitle: 'Main slate games available soon',
           bgColor: 'bg-blue-100',
           textColor: 'text-blue-800',
@@ -118,7 +97,7 @@ export default function WindowingBanner({ games, season, week }: WindowingBanner
           <Text className={`text-xs ${bannerInfo.textColor} opacity-70`}>
             Window breakdown:
           </Text>
-          {Object.entries(windowCounts).map(([window, count]) => (
+          {(Object.entries(windowCounts) as [PublishWindow, number][]).map(([window, count]) => (
             <Text key={window} className={`text-xs ${bannerInfo.textColor} opacity-70`}>
               • {window}: {count} games → {getNextDropTime(window)}
             </Text>
@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react';
+import { fetchCurrentSeason, fetchLeagueSeasons } from '@/lib/repository';
+import { guessSeason } from '@/lib/season';
+import type { SeasonSummary } from '@/lib/league-seasons';
+
+type LeagueSeasons = {
+  seasons: SeasonSummary[];       // Latest first, empty while loading
+  currentSeason: number | null;   // Season in progress on the schedule
+};
+
+// Loads a league's season history once per league
+export function useLeagueSeasons(leagueId: string | undefined): LeagueSeasons {
+  const [result, setResult] = useState<LeagueSeasons>({ seasons: [], currentSeason: null });
+
+  useEffect(() => {
+    if (!leagueId) return;
+    let cancelled = false;
+
+    const load = async () => {
+      const currentSeason = (await fetchCurrentSeason()) ?? guessSeason();
+      return { seasons: await fetchLeagueSeasons(leagueId, currentSeason), currentSeason };
+    };
+
+    load()
+      .then(loaded => {
+        if (!cancelled) setResult(loaded);
+      })
+      .catch(error => {
+        console.error('Error loading league seasons:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [leagueId]);
+
+  return result;
+}
@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react';
+import { AppState } from 'react-native';
+import { buildSeasonCalendar, guessSeason, loadSeasonCalendar, type SeasonCalendar } from '@/lib/season';
+
+// Loads the season calendar once per season. Returns null while loading. If
+// the schedule can't be loaded it falls back to the default week range, so
+// screens still load, and tries again whenever the app returns to the
+// foreground.
+export function useSeasonCalendar(season?: number): SeasonCalendar | null {
+  const [calendar, setCalendar] = useState<SeasonCalendar | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let loaded = false;
+
+    const load = () => {
+      loadSeasonCalendar(season)
+        .then(result => {
+          loaded = true;
+          if (!cancelled) setCalendar(result);
+        })
+        .catch(error => {
+          console.error('Error loading season calendar:', error);
+          if (!cancelled) setCalendar(buildSeasonCalendar(season ?? guessSeason(), []));
+        });
+    };
+    load();
+
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active' && !loaded) load();
+    });
+
+    return () => {
+      cancelled = true;
+      subscription.remove();
+    };
+  }, [season]);
+
+  return calendar;
+}
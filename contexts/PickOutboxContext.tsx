@@ -0,0 +1,162 @@
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
+import { AppState } from 'react-native';
+import { loadOutbox, saveOutbox } from '@/lib/outbox-storage';
+import { flushOutbox, getNextAttemptAt, queuePickChanges, type OutboxEntry } from '@/lib/pick-outbox';
+import type { PickChanges } from '@/lib/pick-edits';
+import { sendQueuedPick } from '@/lib/repository';
+import type { Pick } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+
+// The signed-in player's pick outbox, kept sending for as long as the app is
+// open: straight after changes are queued, when a retry falls due and
+// whenever the app returns to the foreground. It lives above the screens so
+// leaving the slate doesn't stop it, and it switches queues with the account.
+
+interface PickOutboxContextType {
+  outbox: OutboxEntry[];  // Every change still to send or settle
+  settledAt: number;      // Bumped when a flush sends a change or settles one for good
+  queuePicks: (changes: PickChanges, serverPicks: Pick[], getLockAt: (pick: Pick) => Date) => Promise<OutboxEntry[]>;
+  retry: () => Promise<void>;
+  dismiss: (key: string) => void;
+}
+
+const PickOutboxContext = createContext<PickOutboxContextType | undefined>(undefined);
+
+export function PickOutboxProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const [outbox, setOutbox] = useState<OutboxEntry[]>([]);
+  const [settledAt, setSettledAt] = useState(0);
+  const userIdRef = useRef<string | null>(null);
+  const outboxRef = useRef<OutboxEntry[]>([]);
+  const flushRef = useRef<Promise<void> | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const commit = (next: OutboxEntry[]) => {
+    outboxRef.current = next;
+    setOutbox(next);
+    const owner = userIdRef.current;
+    if (!owner) return;
+    saveOutbox(owner, next).catch(error => {
+      console.error('Error saving pick outbox:', error);
+    });
+  };
+
+  const clearTimer = () => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = null;
+  };
+
+  const schedule = (next: OutboxEntry[]) => {
+    clearTimer();
+    const nextAttemptAt = getNextAttemptAt(next);
+    if (nextAttemptAt) {
+      timerRef.current = setTimeout(() => {
+        flush();
+      }, Math.max(nextAttemptAt.getTime() - Date.now(), 0));
+    }
+  };
+
+  const sendDue = async () => {
+    const owner = userIdRef.current;
+    const before = outboxRef.current;
+    if (!owner || before.length === 0) return;
+
+    const after = await flushOutbox(before, sendQueuedPick);
+    // Another account signed in meanwhile; its queue isn't ours to touch
+    if (userIdRef.current !== owner) return;
+
+    // Changes queued while this flush ran replace what it sent or settled
+    const current = outboxRef.current;
+    const untouched = (key: string) =>
+      current.some(entry => entry.key === key && before.includes(entry));
+    const next = [
+      ...after.filter(entry => untouched(entry.key)),
+      ...current.filter(entry => !before.includes(entry)),
+    ];
+    commit(next);
+    schedule(next);
+
+    const settled = before.some(entry => entry.status === 'queued' &&
+      after.find(result => result.key === entry.key)?.status !== 'queued');
+    if (settled) setSettledAt(Date.now());
+  };
+
+  // Flushes run one at a time; one asked for mid-flush runs once the current
+  // one finishes, so it still sees every change queued before it was asked for
+  const flush = (): Promise<void> => {
+    const run = (flushRef.current ?? Promise.resolve())
+      .then(sendDue)
+      .catch(error => {
+        console.error('Error sending pick outbox:', error);
+      });
+    flushRef.current = run;
+    run.finally(() => {
+      if (flushRef.current === run) flushRef.current = null;
+    });
+    return run;
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    userIdRef.current = userId;
+    outboxRef.current = [];
+    setOutbox([]);
+    clearTimer();
+    if (!userId) return;
+
+    loadOutbox(userId)
+      .then(stored => {
+        if (cancelled) return;
+        commit([...stored, ...outboxRef.current.filter(entry => !stored.some(item => item.key === entry.key))]);
+        flush();
+      })
+      .catch(error => {
+        console.error('Error loading pick outbox:', error);
+      });
+
+    return () => {
+      cancelled = true;
+      clearTimer();
+    };
+  }, [userId]);
+
+  useEffect(() => {
+    // Coming back to the app is the likeliest sign the connection is back
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') flush();
+    });
+    return () => subscription.remove();
+  }, []);
+
+  const queuePicks = async (changes: PickChanges, serverPicks: Pick[], getLockAt: (pick: Pick) => Date) => {
+    commit(queuePickChanges(outboxRef.current, changes, serverPicks, getLockAt));
+    await flush();
+    return outboxRef.current;
+  };
+
+  // Send everything still queued now rather than waiting out the backoff
+  const retry = () => {
+    const now = new Date().toISOString();
+    commit(outboxRef.current.map(entry => entry.status === 'queued' ? { ...entry, next_attempt_at: now } : entry));
+    return flush();
+  };
+
+  const dismiss = (key: string) => {
+    const next = outboxRef.current.filter(entry => entry.key !== key);
+    commit(next);
+    schedule(next);
+  };
+
+  const value = { outbox, settledAt, queuePicks, retry, dismiss };
+
+  return <PickOutboxContext.Provider value={value}>{children}</PickOutboxContext.Provider>;
+}
+
+export function usePickOutbox() {
+  const context = useContext(PickOutboxContext);
+  if (context === undefined) {
+    throw new Error('usePickOutbox must be used within a PickOutboxProvider');
+  }
+  return context;
+}
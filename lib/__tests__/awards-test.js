@@ -0,0 +1,76 @@
+import { buildSeasonAwards, buildWeeklyAwards } from '../awards';
+
+function standing(userId, week, wins, losses, pushes, points) {
+  return { user_id: userId, week, wins, losses, pushes, points };
+}
+
+function pick(userId, gameId, side, lineValue, homeScore, awayScore, week = 1) {
+  return {
+    user_id: userId,
+    week,
+    game_id: gameId,
+    side,
+    line_value: lineValue,
+    games: { home: 'PHI', away: 'DAL', status: 'final', home_score: homeScore, away_score: awayScore },
+  };
+}
+
+const summarise = awards => awards.map(award => [award.kind, award.user_id, award.detail]);
+
+describe('buildWeeklyAwards', () => {
+  it('gives top score to everyone tied on the most points', () => {
+    const awards = buildWeeklyAwards(1, [
+      standing('a', 1, 2, 1, 0, 2),
+      standing('b', 1, 2, 1, 0, 2),
+      standing('c', 1, 1, 2, 0, 1),
+    ], []);
+
+    expect(summarise(awards)).toEqual([
+      ['top_score', 'a', '2 pts'],
+      ['top_score', 'b', '2 pts'],
+    ]);
+  });
+
+  it('finds perfect weeks, underdog covers, lone wolves and half-point losses', () => {
+    const awards = buildWeeklyAwards(1, [
+      standing('a', 1, 2, 0, 0, 2),
+      standing('b', 1, 0, 2, 0, 0),
+    ], [
+      pick('a', 'game-1', 'AWAY', 7.5, 20, 14),    // DAL +7.5 covers alone
+      pick('b', 'game-1', 'HOME', -7.5, 20, 14),   // PHI -7.5 loses by 1.5
+      pick('a', 'game-2', 'HOME', -3.5, 24, 17),   // PHI -3.5 covers
+      pick('b', 'game-3', 'AWAY', 3.5, 24, 20),    // DAL +3.5 loses by half a point
+    ]);
+
+    expect(summarise(awards)).toEqual([
+      ['top_score', 'a', '2 pts'],
+      ['perfect_week', 'a', '2-0'],
+      ['biggest_underdog', 'a', 'DAL +7.5'],
+      ['lone_wolf', 'a', 'DAL +7.5'],
+      ['worst_beat', 'b', 'DAL +3.5'],
+    ]);
+  });
+
+  it('ignores games that are not final', () => {
+    const pending = { ...pick('a', 'game-1', 'AWAY', 7.5, null, null), games: { home: 'PHI', away: 'DAL', status: 'scheduled' } };
+
+    expect(buildWeeklyAwards(1, [], [pending])).toEqual([]);
+  });
+});
+
+describe('buildSeasonAwards', () => {
+  const weekly = [
+    { kind: 'top_score', week: 1, user_id: 'a', value: 3, detail: '3 pts' },
+    { kind: 'top_score', week: 2, user_id: 'b', value: 5, detail: '5 pts' },
+    { kind: 'perfect_week', week: 1, user_id: 'a', value: 3, detail: '3-0' },
+    { kind: 'perfect_week', week: 2, user_id: 'a', value: 5, detail: '5-0' },
+    { kind: 'perfect_week', week: 2, user_id: 'b', value: 5, detail: '5-0' },
+  ];
+
+  it('keeps the best single week and the most frequent winners', () => {
+    expect(buildSeasonAwards(weekly)).toEqual([
+      { kind: 'top_score', week: null, user_id: 'b', value: 5, detail: '5 pts (Week 2)' },
+      { kind: 'perfect_week', week: null, user_id: 'a', value: 2, detail: '2 perfect weeks' },
+    ]);
+  });
+});
@@ -0,0 +1,54 @@
+import { assignConfidence, getConfidenceValues, nextConfidenceValue, validateConfidence } from '../confidence';
+
+describe('confidence values', () => {
+  it('offers 1..N highest first', () => {
+    expect(getConfidenceValues(3)).toEqual([3, 2, 1]);
+  });
+
+  it('hands out the highest unused value', () => {
+    const picks = [{ game_id: 'game-1', confidence: 3 }];
+    expect(nextConfidenceValue(picks, 3)).toBe(2);
+    expect(nextConfidenceValue([...picks, { game_id: 'game-2', confidence: 2 }, { game_id: 'game-3', confidence: 1 }], 3)).toBeNull();
+  });
+});
+
+describe('assignConfidence', () => {
+  it('swaps with the pick that held the value', () => {
+    const picks = [
+      { game_id: 'game-1', side: 'HOME', confidence: 3 },
+      { game_id: 'game-2', side: 'AWAY', confidence: 2 },
+      { game_id: 'game-3', side: 'HOME', confidence: 1 },
+    ];
+
+    expect(assignConfidence(picks, picks[2], 3)).toEqual([
+      { game_id: 'game-1', side: 'HOME', confidence: 1 },
+      { game_id: 'game-2', side: 'AWAY', confidence: 2 },
+      { game_id: 'game-3', side: 'HOME', confidence: 3 },
+    ]);
+  });
+
+  it('ranks a side and a total on the same game separately', () => {
+    const picks = [
+      { game_id: 'game-1', side: 'HOME', confidence: 2 },
+      { game_id: 'game-1', side: 'OVER', confidence: 1 },
+    ];
+
+    expect(assignConfidence(picks, picks[1], 2)).toEqual([
+      { game_id: 'game-1', side: 'HOME', confidence: 1 },
+      { game_id: 'game-1', side: 'OVER', confidence: 2 },
+    ]);
+  });
+});
+
+describe('validateConfidence', () => {
+  it('accepts each value used once', () => {
+    expect(validateConfidence([{ game_id: 'game-1', confidence: 1 }, { game_id: 'game-2', confidence: 2 }], 2)).toBeNull();
+  });
+
+  it('rejects missing, out-of-range and duplicate values', () => {
+    expect(validateConfidence([{ game_id: 'game-1', confidence: null }], 2)).toBe('Assign a confidence value to every pick');
+    expect(validateConfidence([{ game_id: 'game-1', confidence: 3 }], 2)).toBe('Confidence values must be between 1 and 2');
+    expect(validateConfidence([{ game_id: 'game-1', confidence: 2 }, { game_id: 'game-2', confidence: 2 }], 2))
+      .toBe('Confidence 2 is used more than once');
+  });
+});
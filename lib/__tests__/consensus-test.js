@@ -0,0 +1,50 @@
+import { buildSlateConsensus, getConsensusShare, getRevealedGameIds } from '../consensus';
+
+const NOW = new Date('2025-09-06T12:00:00Z');
+const UNLOCKED = '2025-09-06T11:00:00Z';
+const LOCKED = '2025-09-06T16:00:00Z';
+
+function pick(userId, gameId, side, unlockAt = UNLOCKED) {
+  return { user_id: userId, game_id: gameId, side, unlock_at: unlockAt };
+}
+
+describe('getRevealedGameIds', () => {
+  it('reveals a game only once every pick on it is visible', () => {
+    expect(getRevealedGameIds([
+      pick('a', 'game-1', 'HOME'),
+      pick('b', 'game-1', 'AWAY'),
+      pick('a', 'game-2', 'HOME'),
+      pick('b', 'game-2', 'AWAY', LOCKED),
+      pick('a', 'game-3', 'HOME', LOCKED),
+    ], 'a', NOW)).toEqual(['game-1', 'game-3']);
+  });
+});
+
+describe('buildSlateConsensus', () => {
+  it('lists who took each side once every pick is visible', () => {
+    const picks = [pick('a', 'game-1', 'HOME'), pick('b', 'game-1', 'AWAY'), pick('c', 'game-1', 'HOME')];
+    const consensus = buildSlateConsensus(picks, picks, 'a', NOW);
+
+    expect(consensus['game-1']).toEqual({ pick_count: 3, revealed: true, home: ['a', 'c'], away: ['b'] });
+  });
+
+  it('gives only a count while any pick is still hidden', () => {
+    const picks = [pick('a', 'game-1', 'HOME', LOCKED), pick('b', 'game-1', 'AWAY', LOCKED)];
+    const consensus = buildSlateConsensus(picks, picks, 'a', NOW);
+
+    expect(consensus['game-1']).toEqual({ pick_count: 2, revealed: false, home: [], away: [] });
+  });
+
+  it('skips games nobody picked a side on', () => {
+    expect(buildSlateConsensus([], [], 'a', NOW)).toEqual({});
+  });
+});
+
+describe('getConsensusShare', () => {
+  it('splits the league into percentages that sum to 100', () => {
+    expect(getConsensusShare({ pick_count: 3, revealed: true, home: ['a', 'c'], away: ['b'] }))
+      .toEqual({ home: 67, away: 33 });
+    expect(getConsensusShare({ pick_count: 1, revealed: false, home: [], away: [] }))
+      .toEqual({ home: 0, away: 0 });
+  });
+});
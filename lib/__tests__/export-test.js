@@ -0,0 +1,97 @@
+import { buildExportRows, formatCsv, formatExport, formatJson, getExportFileName } from '../export';
+
+function exportData(overrides = {}) {
+  return {
+    season: 2025,
+    firstWeek: 1,
+    lastWeek: 2,
+    pushPoints: 0.5,
+    emails: { a: 'alice@example.com', b: 'bob@example.com' },
+    weeklyStandings: [
+      { user_id: 'b', week: 2, wins: 2, losses: 0, pushes: 0, points: 2, rank: 1 },
+      { user_id: 'a', week: 1, wins: 1, losses: 1, pushes: 0, points: 1, rank: 2 },
+      { user_id: 'b', week: 1, wins: 2, losses: 0, pushes: 0, points: 2, rank: 1 },
+    ],
+    seasonStandings: [{
+      user_id: 'b',
+      user_email: 'bob@example.com',
+      total_wins: 4,
+      total_losses: 0,
+      total_pushes: 0,
+      total_points: 4,
+      weeks_played: 2,
+      win_percentage: 2 / 3,
+      dropped_weeks: [],
+      qualified: true,
+      rank: 1,
+    }],
+    picks: [
+      {
+        user_id: 'a', season: 2025, week: 1, game_id: 'game-2', side: 'OVER', line_value: 52.5, created_at: '2025-08-29T12:00:00Z',
+        games: { home: 'PHI', away: 'DAL', kickoff: '2025-08-30T23:30:00Z', status: 'scheduled', home_score: null, away_score: null },
+      },
+      {
+        user_id: 'a', season: 2025, week: 1, game_id: 'game-1', side: 'AWAY', line_value: 7.5, created_at: '2025-08-29T12:00:00Z',
+        games: { home: 'PHI', away: 'DAL', kickoff: '2025-08-30T16:00:00Z', status: 'final', home_score: 20, away_score: 14 },
+      },
+    ],
+    ...overrides,
+  };
+}
+
+describe('buildExportRows', () => {
+  it('orders weekly standings by week then rank', () => {
+    const rows = buildExportRows('weekly_standings', exportData());
+    expect(rows.map(row => [row.week, row.member, row.rank])).toEqual([
+      [1, 'bob@example.com', 1],
+      [1, 'alice@example.com', 2],
+      [2, 'bob@example.com', 1],
+    ]);
+  });
+
+  it('labels season standings with the exported week range', () => {
+    const [row] = buildExportRows('season_standings', exportData());
+    expect(row).toMatchObject({ first_week: 1, last_week: 2, points: 4, win_pct: 0.667, qualified: true });
+  });
+
+  it('grades picks and leaves pending results empty', () => {
+    const rows = buildExportRows('picks', exportData());
+    expect(rows.map(row => [row.game_id, row.market, row.team, row.result, row.points])).toEqual([
+      ['game-1', 'spread', 'DAL', 'WIN', 1],
+      ['game-2', 'total', null, null, null],
+    ]);
+  });
+});
+
+describe('formatCsv', () => {
+  it('keeps the header stable and quotes cells that need it', () => {
+    const csv = formatCsv('weekly_standings', [
+      { season: 2025, week: 1, rank: 1, member_id: 'a', member: 'Smith, "Al"', wins: 1, losses: 0, pushes: 0, points: 1 },
+    ]);
+
+    expect(csv.split('\r\n')).toEqual([
+      'season,week,rank,member_id,member,wins,losses,pushes,points',
+      '2025,1,1,a,"Smith, ""Al""",1,0,0,1',
+    ]);
+  });
+
+  it('writes a header even with no rows', () => {
+    expect(formatExport('picks', 'csv', exportData({ picks: [] }))).toBe(
+      'season,week,member_id,member,game_id,away,home,kickoff,market,side,team,line,confidence,result,points,submitted_at'
+    );
+  });
+});
+
+describe('formatJson', () => {
+  it('writes every column in order, with null for empty cells', () => {
+    const [row] = JSON.parse(formatJson('season_standings', [{ rank: 1, season: 2025 }]));
+    expect(Object.keys(row).slice(0, 4)).toEqual(['season', 'first_week', 'last_week', 'rank']);
+    expect(row.member).toBeNull();
+  });
+});
+
+describe('getExportFileName', () => {
+  it('names the file after the kind, season and weeks', () => {
+    expect(getExportFileName('picks', 'json', exportData())).toBe('picks-2025-w1-2.json');
+  });
+});
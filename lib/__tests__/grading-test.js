@@ -0,0 +1,72 @@
+import { getPickGrade, gradePick, gradePickForGame, isGameFinal, tallyGrades } from '../grading';
+
+describe('gradePick', () => {
+  const score = { home_score: 27, away_score: 24 };
+
+  it('grades a favorite that covers as a win', () => {
+    expect(gradePick(score, { side: 'HOME', line_value: -2.5 }, 0.5)).toEqual({ result: 'WIN', points: 1 });
+  });
+
+  it('grades a favorite that misses the number by a half point as a loss', () => {
+    expect(gradePick(score, { side: 'HOME', line_value: -3.5 }, 0.5)).toEqual({ result: 'LOSS', points: 0 });
+  });
+
+  it('grades an underdog that covers as a win', () => {
+    expect(gradePick(score, { side: 'AWAY', line_value: 3.5 }, 0.5)).toEqual({ result: 'WIN', points: 1 });
+  });
+
+  it('awards push points when the margin lands on the number', () => {
+    expect(gradePick(score, { side: 'HOME', line_value: -3 }, 0.5)).toEqual({ result: 'PUSH', points: 0.5 });
+    expect(gradePick(score, { side: 'AWAY', line_value: 3 }, 1)).toEqual({ result: 'PUSH', points: 1 });
+  });
+
+  it('scales wins by confidence but not pushes', () => {
+    expect(gradePick(score, { side: 'HOME', line_value: -2.5, confidence: 5 }, 0.5)).toEqual({ result: 'WIN', points: 5 });
+    expect(gradePick(score, { side: 'HOME', line_value: -3, confidence: 4 }, 0.5)).toEqual({ result: 'PUSH', points: 0.5 });
+    expect(gradePick(score, { side: 'AWAY', line_value: 2.5, confidence: 3 }, 0.5)).toEqual({ result: 'LOSS', points: 0 });
+  });
+
+  it('treats a pick\'em line as a straight-up winner', () => {
+    expect(gradePick(score, { side: 'AWAY', line_value: 0 }, 0.5)).toEqual({ result: 'LOSS', points: 0 });
+  });
+
+  it('grades totals on the combined score', () => {
+    expect(gradePick(score, { side: 'OVER', line_value: 48.5 }, 0.5)).toEqual({ result: 'WIN', points: 1 });
+    expect(gradePick(score, { side: 'UNDER', line_value: 48.5 }, 0.5)).toEqual({ result: 'LOSS', points: 0 });
+    expect(gradePick(score, { side: 'UNDER', line_value: 51 }, 0.5)).toEqual({ result: 'PUSH', points: 0.5 });
+  });
+});
+
+describe('gradePickForGame', () => {
+  it('returns null until the game is final', () => {
+    const game = { status: 'in_progress', home_score: 14, away_score: 7 };
+    expect(isGameFinal(game)).toBe(false);
+    expect(gradePickForGame({ side: 'HOME', line_value: -3 }, game, 0)).toBeNull();
+  });
+
+  it('grades once the game is final', () => {
+    const game = { status: 'Final', home_score: 14, away_score: 7 };
+    expect(gradePickForGame({ side: 'HOME', line_value: -7 }, game, 0)).toEqual({ result: 'PUSH', points: 0 });
+  });
+});
+
+describe('getPickGrade', () => {
+  it('prefers the stored server grade', () => {
+    const game = { status: 'final', home_score: 14, away_score: 7 };
+    const pick = { side: 'AWAY', line_value: 3, result: 'WIN', points: 1 };
+    expect(getPickGrade(pick, game, 0)).toEqual({ result: 'WIN', points: 1 });
+  });
+});
+
+describe('tallyGrades', () => {
+  it('sums points and skips ungraded picks', () => {
+    const grades = [
+      { result: 'WIN', points: 5 },
+      { result: 'WIN', points: 2 },
+      { result: 'LOSS', points: 0 },
+      { result: 'PUSH', points: 1.5 },
+      null,
+    ];
+    expect(tallyGrades(grades)).toEqual({ wins: 2, losses: 1, pushes: 1, points: 8.5 });
+  });
+});
@@ -0,0 +1,40 @@
+import { buildSeasonHistory, getChampions, isSeasonArchived } from '../league-seasons';
+
+describe('buildSeasonHistory', () => {
+  it('lists recorded, played and current seasons, latest first', () => {
+    const history = buildSeasonHistory(
+      [{ season: 2024, completed_at: '2025-01-20T00:00:00Z' }, { season: 2025, completed_at: null }],
+      [{ season: 2024, user_id: 'a' }],
+      [2023, 2024, 2024],
+      2025
+    );
+
+    expect(history).toEqual([
+      { season: 2025, archived: false, champions: [] },
+      { season: 2024, archived: true, champions: ['a'] },
+      { season: 2023, archived: false, champions: [] },
+    ]);
+    expect(isSeasonArchived(history, 2024)).toBe(true);
+    expect(isSeasonArchived(history, 2025)).toBe(false);
+  });
+
+  it('always includes the current season', () => {
+    expect(buildSeasonHistory([], [], [], 2025)).toEqual([{ season: 2025, archived: false, champions: [] }]);
+  });
+});
+
+describe('getChampions', () => {
+  it('crowns everyone sharing first place among qualified players', () => {
+    const standings = [
+      { user_id: 'a', rank: 1, qualified: true },
+      { user_id: 'b', rank: 1, qualified: true },
+      { user_id: 'c', rank: 3, qualified: true },
+    ];
+
+    expect(getChampions(standings).map(standing => standing.user_id)).toEqual(['a', 'b']);
+  });
+
+  it('crowns nobody when no one qualified', () => {
+    expect(getChampions([{ user_id: 'a', rank: 1, qualified: false }])).toEqual([]);
+  });
+});
@@ -0,0 +1,115 @@
+import { buildLedger, buildSeasonPayouts, buildWeeklyPayouts, formatMoney } from '../ledger';
+
+function row(userId, week, points, losses = 0) {
+  return { user_id: userId, week, points, losses };
+}
+
+function weekly(rows, amount, isWeekFinal = () => true, rules = null) {
+  return buildWeeklyPayouts(rows, amount, rules, [], [], isWeekFinal);
+}
+
+function standing(userId, rank, qualified = true) {
+  return { user_id: userId, rank, qualified };
+}
+
+const summarise = payouts => payouts.map(payout => [payout.week ?? payout.place, payout.user_id, payout.amount, payout.final]);
+
+describe('buildWeeklyPayouts', () => {
+  it('pays the high score each week, latest first', () => {
+    const payouts = weekly([
+      row('a', 1, 3),
+      row('b', 1, 2),
+      row('a', 2, 1),
+      row('b', 2, 2),
+      row('c', 2, 1),
+    ], 10, week => week === 1);
+
+    expect(summarise(payouts)).toEqual([
+      [2, 'b', 10, false],
+      [1, 'a', 10, true],
+    ]);
+  });
+
+  it('settles a tie on points with the league\'s tie-break rules', () => {
+    const rows = [row('a', 1, 2, 1), row('b', 1, 2, 0), row('c', 1, 1)];
+
+    expect(summarise(weekly(rows, 10, () => true, { tiebreak_rules: ['fewest_losses'] }))).toEqual([
+      [1, 'b', 10, true],
+    ]);
+  });
+
+  it('shares the prize among players the rules leave tied, leftover cents first', () => {
+    const rows = [row('a', 1, 2), row('b', 1, 2), row('c', 1, 2)];
+
+    expect(weekly(rows, 10, () => true, { tiebreak_rules: ['fewest_losses'] }).map(payout => payout.amount))
+      .toEqual([3.34, 3.33, 3.33]);
+  });
+
+  it('skips weeks nobody scored and leagues without a weekly prize', () => {
+    expect(weekly([row('a', 1, 0), row('b', 1, 0)], 10)).toEqual([]);
+    expect(weekly([row('a', 1, 3)], 0)).toEqual([]);
+  });
+});
+
+describe('buildSeasonPayouts', () => {
+  it('pays places among qualified players', () => {
+    const payouts = buildSeasonPayouts([
+      standing('a', 1),
+      standing('x', 2, false),
+      standing('b', 2),
+      standing('c', 3),
+      standing('d', 4),
+    ], [100, 50, 25], true);
+
+    expect(summarise(payouts)).toEqual([
+      [1, 'a', 100, true],
+      [2, 'b', 50, true],
+      [3, 'c', 25, true],
+    ]);
+  });
+
+  it('shares the prizes for the places a tie covers', () => {
+    const payouts = buildSeasonPayouts([
+      standing('a', 1),
+      standing('b', 2),
+      standing('c', 2),
+      standing('d', 2),
+    ], [100, 50, 25], false);
+
+    expect(summarise(payouts)).toEqual([
+      [1, 'a', 100, false],
+      [2, 'b', 25, false],
+      [2, 'c', 25, false],
+      [2, 'd', 25, false],
+    ]);
+  });
+});
+
+describe('buildLedger', () => {
+  it('totals dues and final and projected winnings', () => {
+    const ledger = buildLedger(['a', 'b'], [{ user_id: 'a', amount: 20 }], { entry_fee: 20 }, [
+      { kind: 'weekly', week: 1, place: null, user_id: 'a', amount: 10, final: true },
+      { kind: 'weekly', week: 2, place: null, user_id: 'a', amount: 2.5, final: false },
+    ]);
+
+    expect(ledger.members).toEqual([
+      { user_id: 'a', paid: true, dues: 20, winnings: 10, projected: 2.5 },
+      { user_id: 'b', paid: false, dues: 20, winnings: 0, projected: 0 },
+    ]);
+    expect(ledger).toMatchObject({ collected: 20, outstanding: 20, paid_out: 10 });
+  });
+
+  it('counts payments at the fee they were made at', () => {
+    const ledger = buildLedger(['a', 'b'], [{ user_id: 'a', amount: 20 }], { entry_fee: 25 }, []);
+
+    expect(ledger.members.map(member => member.dues)).toEqual([20, 25]);
+    expect(ledger).toMatchObject({ collected: 20, outstanding: 25 });
+  });
+});
+
+describe('formatMoney', () => {
+  it('shows cents only when there are some', () => {
+    expect(formatMoney(20)).toBe('$20');
+    expect(formatMoney(8.333)).toBe('$8.33');
+  });
+});
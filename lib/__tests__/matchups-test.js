@@ -0,0 +1,79 @@
+import { buildHeadToHeadRecords, formatHeadToHeadRecord, generateRoundRobin, scoreMatchups } from '../matchups';
+
+function pairKey({ home_user_id, away_user_id }) {
+  return [home_user_id, away_user_id].sort().join('-');
+}
+
+describe('generateRoundRobin', () => {
+  it('meets every opponent once per cycle', () => {
+    const schedule = generateRoundRobin(['a', 'b', 'c', 'd'], [1, 2, 3]);
+
+    expect(schedule).toHaveLength(6);
+    expect(new Set(schedule.map(pairKey)).size).toBe(6);
+    [1, 2, 3].forEach(week => {
+      const players = schedule.filter(pairing => pairing.week === week)
+        .flatMap(pairing => [pairing.home_user_id, pairing.away_user_id]);
+      expect(players.sort()).toEqual(['a', 'b', 'c', 'd']);
+    });
+  });
+
+  it('gives one player a bye each week with an odd count', () => {
+    const schedule = generateRoundRobin(['a', 'b', 'c'], [1, 2, 3]);
+    const byes = schedule.filter(pairing => pairing.away_user_id === null);
+
+    expect(byes.map(pairing => pairing.home_user_id).sort()).toEqual(['a', 'b', 'c']);
+    expect(byes.map(pairing => pairing.week)).toEqual([1, 2, 3]);
+  });
+
+  it('continues the rotation from the rounds already played', () => {
+    const full = generateRoundRobin(['a', 'b', 'c', 'd'], [1, 2, 3]);
+    const continued = generateRoundRobin(['a', 'b', 'c', 'd'], [2, 3], 1);
+
+    expect(continued).toEqual(full.filter(pairing => pairing.week >= 2));
+  });
+
+  it('repeats the cycle once every pairing is played', () => {
+    const schedule = generateRoundRobin(['a', 'b'], [1, 2, 3]);
+    expect(schedule.map(pairKey)).toEqual(['a-b', 'a-b', 'a-b']);
+    expect(generateRoundRobin(['a'], [1])).toEqual([]);
+  });
+});
+
+describe('scoreMatchups', () => {
+  const pairings = [
+    { week: 1, home_user_id: 'a', away_user_id: 'b' },
+    { week: 1, home_user_id: 'c', away_user_id: null },
+    { week: 2, home_user_id: 'b', away_user_id: 'a' },
+    { week: 3, home_user_id: 'a', away_user_id: 'b' },
+  ];
+  const standings = [
+    { user_id: 'a', week: 1, points: 3 },
+    { user_id: 'b', week: 1, points: 2.5 },
+    { user_id: 'a', week: 2, points: 2 },
+    { user_id: 'b', week: 2, points: 2 },
+    { user_id: 'a', week: 3, points: 4 },
+  ];
+
+  it('awards the week to the higher score once it is final', () => {
+    const results = scoreMatchups(pairings, standings, week => week < 3);
+
+    expect(results.map(result => [result.week, result.winner_user_id, result.final])).toEqual([
+      [1, 'a', true],
+      [1, null, true],
+      [2, null, true],
+      [3, null, false],
+    ]);
+    expect(results[1]).toMatchObject({ home_points: 0, away_points: null });
+  });
+
+  it('builds records from final matchups only', () => {
+    const records = buildHeadToHeadRecords(scoreMatchups(pairings, standings, week => week < 3));
+
+    expect(records).toEqual([
+      { user_id: 'a', wins: 1, losses: 0, ties: 1, points_for: 5, points_against: 4.5 },
+      { user_id: 'b', wins: 0, losses: 1, ties: 1, points_for: 4.5, points_against: 5 },
+    ]);
+    expect(formatHeadToHeadRecord(records[0])).toBe('1-0-1');
+    expect(formatHeadToHeadRecord(undefined)).toBe('0-0');
+  });
+});
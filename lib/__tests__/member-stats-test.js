@@ -0,0 +1,97 @@
+import { buildMemberStats, formatStatsRecord, isPickVisible } from '../member-stats';
+
+// Kickoffs in ET: Thu Sep 4 2025 8:20 PM, Sun Sep 7 1:00 PM, Mon Sep 8 8:15 PM
+const THURSDAY = '2025-09-05T00:20:00Z';
+const SUNDAY = '2025-09-07T17:00:00Z';
+const MONDAY = '2025-09-09T00:15:00Z';
+
+function pick(side, lineValue, kickoff, homeScore, awayScore, extra = {}) {
+  return {
+    user_id: 'user-a',
+    side,
+    line_value: lineValue,
+    created_at: '2025-09-01T12:00:00Z',
+    games: { home: 'PHI', away: 'DAL', kickoff, status: 'final', home_score: homeScore, away_score: awayScore },
+    ...extra,
+  };
+}
+
+const everyPick = () => true;
+
+describe('isPickVisible', () => {
+  const now = new Date('2025-09-06T12:00:00Z');
+  const hidden = { user_id: 'user-a', unlock_at: '2025-09-06T16:00:00Z' };
+
+  it('always shows a viewer their own picks', () => {
+    expect(isPickVisible(hidden, 'user-a', now)).toBe(true);
+  });
+
+  it('hides other members\' picks until they unlock', () => {
+    expect(isPickVisible(hidden, 'user-b', now)).toBe(false);
+    expect(isPickVisible(hidden, 'user-b', new Date('2025-09-06T16:00:00Z'))).toBe(true);
+    expect(isPickVisible({ user_id: 'user-a' }, 'user-b', now)).toBe(true);
+  });
+});
+
+describe('buildMemberStats', () => {
+  it('breaks side picks down by favorite, home/away, spread size and team', () => {
+    const stats = buildMemberStats([
+      pick('HOME', -7, SUNDAY, 24, 10),    // PHI -7 covers
+      pick('AWAY', 3.5, THURSDAY, 20, 17), // DAL +3.5 covers
+      pick('HOME', -1.5, MONDAY, 20, 21),  // PHI -1.5 loses
+    ], 0, everyPick);
+
+    expect(formatStatsRecord(stats)).toBe('2-1 (67%)');
+    expect(stats.favorites).toEqual([
+      { label: 'Favorite', wins: 1, losses: 1, pushes: 0 },
+      { label: 'Underdog', wins: 1, losses: 0, pushes: 0 },
+    ]);
+    expect(stats.homeAway.map(bucket => [bucket.label, bucket.wins, bucket.losses])).toEqual([
+      ['Home', 1, 1],
+      ['Away', 1, 0],
+    ]);
+    expect(stats.spreadSizes.map(bucket => bucket.label)).toEqual(['PK-2.5', '3-6.5', '7-9.5']);
+    expect(stats.byTeam.map(bucket => bucket.label)).toEqual(['PHI', 'DAL']);
+  });
+
+  it('groups every pick by Eastern kickoff day and publish window', () => {
+    const stats = buildMemberStats([
+      pick('HOME', -7, SUNDAY, 24, 10),
+      pick('OVER', 40.5, THURSDAY, 20, 17),
+      pick('UNDER', 44.5, MONDAY, 20, 21),
+    ], 0, everyPick);
+
+    expect(stats.byDay.map(bucket => bucket.label)).toEqual(['Sun', 'Mon', 'Thu']);
+    expect(stats.byWindow.map(bucket => [bucket.label, bucket.wins])).toEqual([['Main', 1], ['Monday', 1]]);
+    // Totals stay out of the side breakdowns
+    expect(stats.homeAway).toEqual([{ label: 'Home', wins: 1, losses: 0, pushes: 0 }]);
+  });
+
+  it('tracks streaks in kickoff order, skipping pushes', () => {
+    const stats = buildMemberStats([
+      pick('HOME', -3, '2025-09-21T17:00:00Z', 20, 10), // W
+      pick('HOME', -3, '2025-09-07T17:00:00Z', 20, 10), // W
+      pick('HOME', -3, '2025-09-14T17:00:00Z', 13, 10), // P
+      pick('HOME', -3, '2025-09-28T17:00:00Z', 10, 20), // L
+      pick('HOME', -3, '2025-10-05T17:00:00Z', 10, 20), // L
+      pick('HOME', -3, '2025-10-12T17:00:00Z', 10, 20), // L
+    ], 0, everyPick);
+
+    expect(stats.longestWinStreak).toBe(2);
+    expect(stats.longestLossStreak).toBe(3);
+    expect(stats.currentStreak).toEqual({ result: 'LOSS', length: 3 });
+  });
+
+  it('leaves out hidden and ungraded picks', () => {
+    const hidden = pick('HOME', -7, SUNDAY, 24, 10, { unlock_at: '2099-01-01T00:00:00Z' });
+    const pending = pick('AWAY', 3, MONDAY, null, null, {
+      games: { home: 'PHI', away: 'DAL', kickoff: MONDAY, status: 'scheduled', home_score: null, away_score: null },
+    });
+
+    const stats = buildMemberStats([hidden, pending], 0, candidate => isPickVisible(candidate, 'user-b'));
+
+    expect(formatStatsRecord(stats)).toBe('0-0');
+    expect(stats.byTeam).toEqual([]);
+    expect(stats.currentStreak).toBeNull();
+  });
+});
@@ -0,0 +1,91 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { clearPickDrafts, getDraftStorageKey, loadPickDrafts, savePickDrafts } from '../draft-storage';
+import { describeDraftFlag, flagPickDrafts, reconcilePickDrafts } from '../pick-drafts';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+
+const NOW = new Date('2025-08-30T15:00:00Z');
+
+function pick(gameId, side, lineValue, extra = {}) {
+  return { user_id: 'user-1', game_id: gameId, side, line_value: lineValue, confidence: null, ...extra };
+}
+
+function slateGame(id, kickoff, line) {
+  return { game: { id, kickoff }, line: { spread_home: null, spread_away: null, total: null, ...line } };
+}
+
+const SLATE = [
+  slateGame('game-1', '2025-08-30T16:00:00Z', { spread_home: -1.5, spread_away: 1.5, total: 52.5 }),
+  slateGame('game-3', '2025-08-29T00:00:00Z', { spread_home: 4, spread_away: -4 }),
+];
+
+describe('reconcilePickDrafts', () => {
+  it('forgets drafts and drops the submitted picks have caught up with', () => {
+    const submitted = [pick('game-1', 'HOME', -1.5), pick('game-2', 'AWAY', 3.5)];
+    const stored = {
+      drafts: [pick('game-1', 'HOME', -1.5), pick('game-3', 'AWAY', -4)],
+      dropped: [pick('game-2', 'HOME', -3.5), pick('game-4', 'HOME', 2)],
+    };
+
+    expect(reconcilePickDrafts(submitted, stored)).toEqual({ drafts: [pick('game-3', 'AWAY', -4)], dropped: [] });
+  });
+});
+
+describe('flagPickDrafts', () => {
+  it('flags locked games, moved lines and games off the slate', () => {
+    const drafts = [
+      pick('game-1', 'HOME', -1.5),
+      pick('game-1', 'OVER', 51),
+      pick('game-3', 'HOME', 4),
+      pick('game-9', 'AWAY', 7),
+    ];
+
+    expect(flagPickDrafts({ drafts, dropped: [] }, SLATE, null, false, NOW)).toEqual([
+      { game_id: 'game-1', side: 'OVER', issue: 'line_changed', line_value: 52.5 },
+      { game_id: 'game-3', side: 'HOME', issue: 'locked', line_value: null },
+      { game_id: 'game-9', side: 'AWAY', issue: 'off_slate', line_value: null },
+    ]);
+  });
+
+  it('follows the league lock mode and ignores lines on straight-up sides', () => {
+    const drafts = [pick('game-1', 'AWAY', 0)];
+    const dropped = [pick('game-3', 'AWAY', -4)];
+
+    expect(flagPickDrafts({ drafts, dropped }, SLATE, null, true, NOW))
+      .toEqual([{ game_id: 'game-3', side: 'AWAY', issue: 'locked', line_value: null }]);
+    expect(flagPickDrafts({ drafts, dropped: [] }, SLATE, { lock_mode: 'global', global_lock_at: 'Sat 10:00' }, true, NOW))
+      .toEqual([{ game_id: 'game-1', side: 'AWAY', issue: 'locked', line_value: null }]);
+  });
+
+  it('describes a moved line with the new number', () => {
+    expect(describeDraftFlag({ game_id: 'game-1', side: 'HOME', issue: 'line_changed', line_value: -3 }))
+      .toBe('Line is now HOME -3 • tap to re-pick');
+  });
+});
+
+describe('draft storage', () => {
+  it('keeps drafts per player, league, season and week until cleared', async () => {
+    const drafts = { drafts: [pick('game-1', 'HOME', -1.5)], dropped: [] };
+    await savePickDrafts('user-1', 'league-1', 2025, 1, drafts);
+
+    expect(await loadPickDrafts('user-1', 'league-1', 2025, 1)).toEqual(drafts);
+    expect(await loadPickDrafts('user-1', 'league-1', 2025, 2)).toEqual({ drafts: [], dropped: [] });
+    expect(await loadPickDrafts('user-2', 'league-1', 2025, 1)).toEqual({ drafts: [], dropped: [] });
+    expect(getDraftStorageKey('user-1', 'league-1', 2025, 1)).toBe('pick-drafts:user-1:league-1:2025:1');
+
+    await clearPickDrafts('user-1', 'league-1', 2025, 1);
+    expect(await loadPickDrafts('user-1', 'league-1', 2025, 1)).toEqual({ drafts: [], dropped: [] });
+  });
+
+  it('ignores unreadable entries and other players\' picks', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    await AsyncStorage.setItem(getDraftStorageKey('user-1', 'league-1', 2025, 1), '{not json');
+    expect(await loadPickDrafts('user-1', 'league-1', 2025, 1)).toEqual({ drafts: [], dropped: [] });
+
+    const stray = { drafts: [pick('game-1', 'HOME', -1.5, { user_id: 'user-2' })], dropped: [] };
+    await AsyncStorage.setItem(getDraftStorageKey('user-1', 'league-1', 2025, 2), JSON.stringify(stray));
+    expect(await loadPickDrafts('user-1', 'league-1', 2025, 2)).toEqual({ drafts: [], dropped: [] });
+    console.error.mockRestore();
+  });
+});
@@ -0,0 +1,77 @@
+import { getPickDrafts, mergeWeekPicks, planPickChanges } from '../pick-edits';
+
+const NOW = new Date('2025-08-29T15:00:00Z');
+
+function pick(gameId, side, lineValue, extra = {}) {
+  return { game_id: gameId, side, line_value: lineValue, confidence: null, ...extra };
+}
+
+const summarise = picks => picks.map(item => [item.game_id, item.side]);
+
+describe('mergeWeekPicks', () => {
+  it('replaces switched picks, leaves out drops and adds new games', () => {
+    const submitted = [pick('game-1', 'HOME', -1.5), pick('game-2', 'AWAY', 3.5), pick('game-2', 'OVER', 52.5)];
+    const drafts = [pick('game-1', 'AWAY', 1.5), pick('game-3', 'HOME', -7)];
+
+    expect(summarise(mergeWeekPicks(submitted, drafts, [submitted[1]]))).toEqual([
+      ['game-2', 'OVER'],
+      ['game-1', 'AWAY'],
+      ['game-3', 'HOME'],
+    ]);
+  });
+});
+
+describe('getPickDrafts', () => {
+  it('keeps only new picks and picks that differ from the submitted one', () => {
+    const submitted = [pick('game-1', 'HOME', -1.5, { confidence: 2 }), pick('game-2', 'AWAY', 3.5, { confidence: 1 })];
+    const weekPicks = [pick('game-1', 'HOME', -1.5, { confidence: 1 }), submitted[1], pick('game-3', 'HOME', -7)];
+
+    expect(summarise(getPickDrafts(submitted, weekPicks))).toEqual([['game-1', 'HOME'], ['game-3', 'HOME']]);
+  });
+});
+
+describe('planPickChanges', () => {
+  it('records the old side when a pick switches', () => {
+    const earlier = { game_id: 'game-1', side: 'AWAY', line_value: 1.5, changed_at: '2025-08-28T12:00:00.000Z' };
+    const submitted = [pick('game-1', 'HOME', -1.5, { edit_history: [earlier] })];
+
+    const { upserts, deletes } = planPickChanges(submitted, [pick('game-1', 'AWAY', 1.5)], [], NOW);
+
+    expect(deletes).toEqual([]);
+    expect(upserts[0].edit_history).toEqual([
+      earlier,
+      { game_id: 'game-1', side: 'HOME', line_value: -1.5, changed_at: NOW.toISOString() },
+    ]);
+  });
+
+  it('carries a dropped pick into the new game that takes its place', () => {
+    const submitted = [pick('game-1', 'HOME', -1.5), pick('game-2', 'OVER', 52.5)];
+    const drafts = [pick('game-3', 'UNDER', 48), pick('game-4', 'AWAY', 2)];
+
+    const { upserts, deletes } = planPickChanges(submitted, drafts, submitted, NOW);
+
+    expect(deletes).toEqual(submitted);
+    expect(upserts.map(item => [item.game_id, item.edit_history.map(edit => edit.game_id)])).toEqual([
+      ['game-3', ['game-2']],
+      ['game-4', ['game-1']],
+    ]);
+  });
+
+  it('treats re-picking a dropped game as a change rather than a delete', () => {
+    const submitted = [pick('game-1', 'HOME', -1.5)];
+
+    const { upserts, deletes } = planPickChanges(submitted, [pick('game-1', 'AWAY', 1.5)], submitted, NOW);
+
+    expect(deletes).toEqual([]);
+    expect(upserts[0].edit_history).toHaveLength(1);
+  });
+
+  it('skips drafts that match the submitted pick and keeps history on re-ranks', () => {
+    const submitted = [pick('game-1', 'HOME', -1.5, { confidence: 2 }), pick('game-2', 'AWAY', 3.5, { confidence: 1 })];
+    const drafts = [submitted[0], pick('game-2', 'AWAY', 3.5, { confidence: 2 })];
+
+    const { upserts } = planPickChanges(submitted, drafts, [], NOW);
+
+    expect(upserts).toEqual([{ ...drafts[1], edit_history: [] }]);
+  });
+});
@@ -0,0 +1,74 @@
+import { gradePick } from '../grading';
+import {
+  areQuotasFilled,
+  describePick,
+  getExceededQuota,
+  getFullQuota,
+  getPickQuotas,
+  getRecordLabel,
+  getWeeklyPickCount,
+  isStraightUp,
+  STRAIGHT_UP_LINE_VALUE,
+} from '../pick-mode';
+
+describe('pick mode', () => {
+  it('treats straight-up and survivor leagues as SU', () => {
+    expect(isStraightUp({ pick_mode: 'straight_up' })).toBe(true);
+    expect(isStraightUp({ league_type: 'survivor' })).toBe(true);
+    expect(getRecordLabel({ pick_mode: 'spread' })).toBe('ATS');
+    expect(getRecordLabel(null)).toBe('ATS');
+  });
+
+  it('describes picks by team when straight up', () => {
+    const game = { home: 'LSU', away: 'Clemson' };
+    expect(describePick({ side: 'AWAY', line_value: 0 }, game, true)).toBe('Clemson to win');
+    expect(describePick({ side: 'HOME', line_value: 3.5 }, game, false)).toBe('HOME +3.5');
+    expect(describePick({ side: 'OVER', line_value: 52.5 }, game, true)).toBe('OVER 52.5');
+  });
+
+  it('grades a straight-up pick on the outright winner', () => {
+    const score = { home_score: 17, away_score: 20 };
+    expect(gradePick(score, { side: 'AWAY', line_value: STRAIGHT_UP_LINE_VALUE }, 0.5).result).toBe('WIN');
+    expect(gradePick(score, { side: 'HOME', line_value: STRAIGHT_UP_LINE_VALUE }, 0.5).result).toBe('LOSS');
+  });
+});
+
+describe('pick quotas', () => {
+  const sides = [{ side: 'HOME' }, { side: 'AWAY' }];
+  const total = { side: 'OVER' };
+
+  it('counts totals against the pick limit by default', () => {
+    const quotas = getPickQuotas({ pick_limit: 3 });
+
+    expect(getWeeklyPickCount(quotas)).toBe(3);
+    expect(getFullQuota(quotas, sides, 'total')).toBeNull();
+    expect(getFullQuota(quotas, [...sides, total], 'spread')).toEqual({ market: null, limit: 3 });
+    expect(areQuotasFilled(quotas, [...sides, total])).toBe(true);
+  });
+
+  it('gives totals their own limit when the league sets one', () => {
+    const quotas = getPickQuotas({ pick_limit: 2, totals_pick_limit: 1 });
+
+    expect(getWeeklyPickCount(quotas)).toBe(3);
+    expect(getFullQuota(quotas, sides, 'total')).toBeNull();
+    expect(getFullQuota(quotas, [total], 'total')).toEqual({ market: 'total', limit: 1 });
+    expect(areQuotasFilled(quotas, [...sides, total])).toBe(true);
+    expect(areQuotasFilled(quotas, [{ side: 'HOME' }, total, total])).toBe(false);
+  });
+
+  it('allows survivor leagues one side and no totals', () => {
+    const quotas = getPickQuotas({ league_type: 'survivor', totals_pick_limit: 2 });
+
+    expect(quotas).toEqual([{ market: 'spread', limit: 1 }]);
+    expect(getFullQuota(quotas, [], 'total')).toEqual({ market: 'total', limit: 0 });
+  });
+
+  it('accepts a partial week and flags one that goes over', () => {
+    const quotas = getPickQuotas({ pick_limit: 2, totals_pick_limit: 1 });
+
+    expect(getExceededQuota(quotas, [{ side: 'HOME' }])).toBeNull();
+    expect(getExceededQuota(quotas, [...sides, total])).toBeNull();
+    expect(getExceededQuota(quotas, [{ side: 'HOME' }, total, total])).toEqual({ market: 'total', limit: 1 });
+    expect(getExceededQuota(getPickQuotas({ league_type: 'survivor' }), [total])).toEqual({ market: 'total', limit: 0 });
+  });
+});
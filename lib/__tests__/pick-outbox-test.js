@@ -0,0 +1,166 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getOutboxStorageKey, loadOutbox, saveOutbox } from '../outbox-storage';
+import {
+  applyOutbox,
+  describeOutboxEntry,
+  flushOutbox,
+  getNextAttemptAt,
+  getRetryDelay,
+  getWeekOutbox,
+  queuePickChanges,
+} from '../pick-outbox';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+
+const NOW = new Date('2025-08-30T15:00:00Z');
+const LOCK_AT = new Date('2025-08-30T16:00:00Z');
+
+function pick(gameId, side, lineValue, extra = {}) {
+  return {
+    league_id: 'league-1',
+    user_id: 'user-1',
+    season: 2025,
+    week: 1,
+    game_id: gameId,
+    side,
+    line_value: lineValue,
+    confidence: null,
+    updated_at: '2025-08-28T15:00:00.000Z',
+    ...extra,
+  };
+}
+
+function queue(outbox, changes, serverPicks = [], now = NOW) {
+  return queuePickChanges(outbox, { upserts: [], deletes: [], ...changes }, serverPicks, () => LOCK_AT, now);
+}
+
+function networkError() {
+  return new TypeError('Network request failed');
+}
+
+describe('queuePickChanges', () => {
+  it('queues each change against the server version it was made on', () => {
+    const submitted = pick('game-1', 'HOME', -1.5);
+    const outbox = queue([], { upserts: [pick('game-1', 'AWAY', 1.5), pick('game-2', 'OVER', 44)] }, [submitted]);
+
+    expect(outbox.map(entry => [entry.key, entry.op, entry.base_updated_at, entry.status])).toEqual([
+      ['league-1:user-1:2025:1:game-1:spread', 'upsert', '2025-08-28T15:00:00.000Z', 'queued'],
+      ['league-1:user-1:2025:1:game-2:total', 'upsert', null, 'queued'],
+    ]);
+    expect(outbox[0]).toMatchObject({ lock_at: LOCK_AT.toISOString(), attempts: 0, next_attempt_at: NOW.toISOString() });
+  });
+
+  it('replaces a queued change but keeps its base version', () => {
+    const outbox = queue([], { upserts: [pick('game-1', 'AWAY', 1.5)] }, [pick('game-1', 'HOME', -1.5)]);
+    const replaced = queue(outbox, { upserts: [pick('game-1', 'HOME', -2)] }, [pick('game-1', 'AWAY', 1.5, { updated_at: 'later' })]);
+
+    expect(replaced).toHaveLength(1);
+    expect(replaced[0]).toMatchObject({ pick: { side: 'HOME', line_value: -2 }, base_updated_at: '2025-08-28T15:00:00.000Z' });
+  });
+
+  it('drops a queued new pick that is deleted before it was sent', () => {
+    const outbox = queue([], { upserts: [pick('game-2', 'AWAY', 3)] });
+
+    expect(queue(outbox, { deletes: [pick('game-2', 'AWAY', 3)] })).toEqual([]);
+  });
+});
+
+describe('applyOutbox', () => {
+  it('overlays queued writes on one week of server picks', () => {
+    const serverPicks = [pick('game-1', 'HOME', -1.5), pick('game-2', 'AWAY', 3)];
+    let outbox = queue([], { upserts: [pick('game-1', 'AWAY', 1.5)], deletes: [serverPicks[1]] }, serverPicks);
+    outbox = queue(outbox, { upserts: [pick('game-3', 'HOME', -7, { week: 2 })] });
+
+    const weekOutbox = getWeekOutbox(outbox, 'league-1', 'user-1', 2025, 1);
+    expect(weekOutbox).toHaveLength(2);
+    expect(applyOutbox(serverPicks, weekOutbox).map(item => [item.game_id, item.side])).toEqual([['game-1', 'AWAY']]);
+  });
+});
+
+describe('flushOutbox', () => {
+  it('sends due changes and reports conflicts', async () => {
+    const outbox = queue([], { upserts: [pick('game-1', 'AWAY', 1.5), pick('game-2', 'HOME', -3)] });
+    const send = jest.fn(async entry => (entry.pick.game_id === 'game-2' ? 'conflict' : 'sent'));
+
+    const remaining = await flushOutbox(outbox, send, () => NOW);
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(remaining.map(entry => [entry.pick.game_id, entry.status])).toEqual([['game-2', 'conflict']]);
+  });
+
+  it('sends drops before picks so a swap stays within the limits', async () => {
+    const submitted = pick('game-1', 'OVER', 52.5);
+    const outbox = queue([], { upserts: [pick('game-2', 'UNDER', 44)], deletes: [submitted] }, [submitted]);
+    const send = jest.fn().mockResolvedValue('sent');
+
+    await flushOutbox(outbox, send, () => NOW);
+    expect(send.mock.calls.map(([entry]) => [entry.op, entry.pick.game_id])).toEqual([
+      ['delete', 'game-1'],
+      ['upsert', 'game-2'],
+    ]);
+  });
+
+  it('backs off after network errors and retries once due', async () => {
+    let outbox = queue([], { upserts: [pick('game-1', 'AWAY', 1.5)] });
+    const offline = jest.fn().mockRejectedValue(networkError());
+
+    outbox = await flushOutbox(outbox, offline, () => NOW);
+    expect(outbox[0]).toMatchObject({ status: 'queued', attempts: 1, error: 'Network request failed' });
+    expect(getNextAttemptAt(outbox)).toEqual(new Date(NOW.getTime() + getRetryDelay(1)));
+    expect(describeOutboxEntry(outbox[0], NOW)).toBe('Pick queued offline • retrying in 5s');
+
+    // Not due yet, so nothing is sent
+    outbox = await flushOutbox(outbox, offline, () => new Date(NOW.getTime() + 1000));
+    expect(offline).toHaveBeenCalledTimes(1);
+
+    outbox = await flushOutbox(outbox, offline, () => new Date(NOW.getTime() + 5000));
+    expect(outbox[0].attempts).toBe(2);
+    expect(getNextAttemptAt(outbox)).toEqual(new Date(NOW.getTime() + 5000 + 10000));
+
+    const online = jest.fn().mockResolvedValue('sent');
+    expect(await flushOutbox(outbox, online, () => new Date(NOW.getTime() + 20000))).toEqual([]);
+  });
+
+  it('never sends a change once its pick has locked', async () => {
+    const outbox = queue([], { upserts: [pick('game-1', 'AWAY', 1.5)] });
+    const send = jest.fn().mockResolvedValue('sent');
+
+    const remaining = await flushOutbox(outbox, send, () => LOCK_AT);
+    expect(send).not.toHaveBeenCalled();
+    expect(remaining[0].status).toBe('expired');
+    expect(getNextAttemptAt(remaining)).toBeNull();
+    expect(describeOutboxEntry(remaining[0])).toBe('Pick not sent: the game locked first');
+  });
+
+  it('stops retrying changes the server refuses', async () => {
+    const outbox = queue([], { upserts: [pick('game-1', 'AWAY', 1.5)] });
+    const refuse = jest.fn().mockRejectedValue({ code: '23514', message: 'Pick is not on the slate' });
+
+    const remaining = await flushOutbox(outbox, refuse, () => NOW);
+    expect(remaining[0]).toMatchObject({ status: 'failed', attempts: 1 });
+    expect(describeOutboxEntry(remaining[0])).toBe('Pick refused: Pick is not on the slate');
+  });
+});
+
+describe('outbox storage', () => {
+  it('keeps each player\'s queue on the device until it empties', async () => {
+    const outbox = queue([], { upserts: [pick('game-1', 'AWAY', 1.5)] });
+    await saveOutbox('user-1', outbox);
+    expect(await loadOutbox('user-1')).toEqual(outbox);
+    expect(await loadOutbox('user-2')).toEqual([]);
+
+    await saveOutbox('user-1', []);
+    expect(await loadOutbox('user-1')).toEqual([]);
+  });
+
+  it('ignores unreadable entries and other players\' changes', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    await AsyncStorage.setItem(getOutboxStorageKey('user-1'), '[not json');
+    expect(await loadOutbox('user-1')).toEqual([]);
+
+    await saveOutbox('user-2', queue([], { upserts: [pick('game-1', 'AWAY', 1.5, { user_id: 'user-2' })] }));
+    await AsyncStorage.setItem(getOutboxStorageKey('user-1'), await AsyncStorage.getItem(getOutboxStorageKey('user-2')));
+    expect(await loadOutbox('user-1')).toEqual([]);
+    console.error.mockRestore();
+  });
+});
@@ -0,0 +1,103 @@
+import {
+  buildPlayoffBracket,
+  getPlayoffRoundCount,
+  getPlayoffRoundName,
+  getPlayoffWeeks,
+  getSeedOrder,
+  seedPlayoffs,
+} from '../playoffs';
+
+function row(userId, week, points, losses = 0) {
+  return { user_id: userId, week, points, losses };
+}
+
+const SEEDS = [
+  { seed: 1, user_id: 'a' },
+  { seed: 2, user_id: 'b' },
+  { seed: 3, user_id: 'c' },
+];
+
+const FINAL_GAME = { status: 'final', home_score: 24, away_score: 21 };
+
+const summarise = game => [game.high?.user_id ?? null, game.low?.user_id ?? null, game.winner?.user_id ?? null, game.decided_by];
+
+describe('getSeedOrder', () => {
+  it('keeps the top two seeds apart until the final', () => {
+    expect(getSeedOrder(4)).toEqual([1, 4, 2, 3]);
+    expect(getSeedOrder(8)).toEqual([1, 8, 4, 5, 2, 7, 3, 6]);
+  });
+});
+
+describe('seedPlayoffs', () => {
+  it('takes the top qualified players in standings order', () => {
+    const seeds = seedPlayoffs([
+      { user_id: 'a', rank: 1, qualified: false },
+      { user_id: 'b', rank: 2, qualified: true },
+      { user_id: 'c', rank: 2, qualified: true },
+      { user_id: 'd', rank: 4, qualified: true },
+    ], 2);
+
+    expect(seeds).toEqual([{ seed: 1, user_id: 'b' }, { seed: 2, user_id: 'c' }]);
+  });
+});
+
+describe('getPlayoffWeeks', () => {
+  it('uses the scheduled weeks after the regular season, bowl weeks included', () => {
+    expect(getPlayoffWeeks(12, 3, [11, 12, 13, 14, 17, 17])).toEqual([13, 14, 17]);
+  });
+
+  it('carries on week by week past the end of the schedule', () => {
+    expect(getPlayoffWeeks(14, 2, [13, 14])).toEqual([15, 16]);
+  });
+});
+
+describe('getPlayoffRoundName', () => {
+  it('names rounds back from the final', () => {
+    expect(getPlayoffRoundCount(6)).toBe(3);
+    expect([1, 2, 3].map(round => getPlayoffRoundName(round, 4))).toEqual(['Round 1', 'Quarterfinals', 'Semifinals']);
+  });
+});
+
+describe('buildPlayoffBracket', () => {
+  it('gives the top seed a bye and advances winners on points', () => {
+    const bracket = buildPlayoffBracket(SEEDS, [13, 14], [
+      row('b', 13, 3),
+      row('c', 13, 4),
+      row('a', 14, 5),
+      row('c', 14, 2),
+    ], null, [], [], () => true);
+
+    expect(bracket.rounds.map(round => round.map(summarise))).toEqual([
+      [['a', null, 'a', 'bye'], ['b', 'c', 'c', 'points']],
+      [['a', 'c', 'a', 'points']],
+    ]);
+    expect(bracket.champion).toEqual({ seed: 1, user_id: 'a' });
+  });
+
+  it('breaks a tied matchup with the league rules, then the better seed', () => {
+    const rows = [row('b', 13, 2), row('c', 13, 3), row('a', 14, 2), row('c', 14, 2)];
+    const entries = [
+      { user_id: 'a', week: 14, total_points: 50, games: FINAL_GAME },
+      { user_id: 'c', week: 14, total_points: 45, games: FINAL_GAME },
+    ];
+
+    const byTiebreaker = buildPlayoffBracket(SEEDS, [13, 14], rows, { tiebreak_rules: ['tiebreaker'] }, entries, [], () => true);
+    expect(summarise(byTiebreaker.rounds[1][0])).toEqual(['a', 'c', 'c', 'tiebreak']);
+
+    const bySeed = buildPlayoffBracket(SEEDS, [13, 14], rows, { tiebreak_rules: ['tiebreaker'] }, [], [], () => true);
+    expect(summarise(bySeed.rounds[1][0])).toEqual(['a', 'c', 'a', 'seed']);
+  });
+
+  it('leaves later rounds open until each week is final', () => {
+    const bracket = buildPlayoffBracket(SEEDS, [13, 14], [row('b', 13, 3), row('c', 13, 1)], null, [], [], week => week < 13);
+
+    expect(bracket.rounds[0][1]).toMatchObject({ high_points: 3, low_points: 1, winner: null });
+    expect(summarise(bracket.rounds[1][0])).toEqual(['a', null, null, null]);
+    expect(bracket.champion).toBeNull();
+  });
+
+  it('needs at least two seeds', () => {
+    expect(buildPlayoffBracket(SEEDS.slice(0, 1), [13], [], null, [], [], () => true))
+      .toEqual({ rounds: [], champion: null });
+  });
+});
@@ -0,0 +1,60 @@
+import { buildRankHistory, getRankMovement } from '../rank-history';
+
+function weekRow(userId, week, points) {
+  return { user_id: userId, week, wins: points, losses: 3 - points, pushes: 0, points, user_email: `${userId}@example.com` };
+}
+
+const rows = [
+  weekRow('a', 1, 3),
+  weekRow('b', 1, 1),
+  weekRow('a', 2, 0),
+  weekRow('b', 2, 3),
+  weekRow('c', 2, 2),
+  weekRow('a', 3, 1),
+  weekRow('b', 3, 1),
+  weekRow('c', 3, 3),
+];
+
+describe('buildRankHistory', () => {
+  it('ranks the season standings after every week', () => {
+    const history = buildRankHistory(rows, null, [], []);
+
+    expect(history.weeks).toEqual([1, 2, 3]);
+    expect(history.series.map(entry => entry.user_id)).toEqual(['c', 'b', 'a']);
+    expect(history.series.find(entry => entry.user_id === 'a').points).toEqual([
+      { week: 1, rank: 1, points: 3 },
+      { week: 2, rank: 2, points: 3 },
+      { week: 3, rank: 3, points: 4 },
+    ]);
+  });
+
+  it('starts a member\'s line at their first graded week', () => {
+    const history = buildRankHistory(rows, null, [], []);
+
+    expect(history.series.find(entry => entry.user_id === 'c').points.map(point => point.week)).toEqual([2, 3]);
+  });
+
+  it('applies the league\'s counting rules as of each week', () => {
+    const history = buildRankHistory(rows, { standings_drop_weeks: 1 }, [], []);
+
+    // a's week-2 zero is dropped once a third week is played, drawing level
+    // with b, and a takes their shared week on the tie-break. c drops the
+    // week 1 they missed and leads.
+    expect(history.series.find(entry => entry.user_id === 'a').points[2]).toEqual({ week: 3, rank: 2, points: 4 });
+    expect(history.series.find(entry => entry.user_id === 'c').points[1]).toEqual({ week: 3, rank: 1, points: 5 });
+  });
+});
+
+describe('getRankMovement', () => {
+  const history = buildRankHistory(rows, null, [], []);
+
+  it('counts places gained or lost since the previous week', () => {
+    expect(getRankMovement(history, 'c')).toBe(2);
+    expect(getRankMovement(history, 'a')).toBe(-1);
+    expect(getRankMovement(history, 'b')).toBe(-1);
+  });
+
+  it('is null without a previous week to compare', () => {
+    expect(getRankMovement(buildRankHistory(rows.filter(row => row.week === 1), null, [], []), 'a')).toBeNull();
+  });
+});
@@ -0,0 +1,527 @@
+import { createFakeSupabase } from '../testing/fake-supabase';
+import { COMMISH, createFixtures, INVITE_CODE, LEAGUE_ID, OUTSIDER, PLAYER, SEASON } from '../testing/fixtures';
+import {
+  fetchAwards,
+  fetchHeadToHead,
+  fetchLeagueExport,
+  fetchLeagueSeasons,
+  fetchLedger,
+  fetchLeagueWithRole,
+  fetchMatchups,
+  fetchPicks,
+  fetchPlayoffBracket,
+  fetchRankHistory,
+  fetchSeasonArchivedAt,
+  fetchSeasonStandings,
+  fetchSlate,
+  fetchSlateConsensus,
+  fetchSurvivorStandings,
+  fetchTiebreaker,
+  fetchUserLeagues,
+  fetchWeeklyStandings,
+  joinLeagueByInviteCode,
+  publishWeek,
+  recordSurvivorStatus,
+  saveMatchupSchedule,
+  seedPlayoffBracket,
+  sendQueuedPick,
+  setDuesPaid,
+  setTiebreakerGame,
+  startNewSeason,
+  submitPicks,
+  submitTiebreaker,
+  updateLeagueSettings,
+} from '../repository';
+import { testFrontendBackendIntegration } from '../test-integration';
+
+let mockSupabase;
+
+jest.mock('../supabase', () => ({
+  get supabase() {
+    return mockSupabase;
+  },
+}));
+
+beforeEach(() => {
+  mockSupabase = createFakeSupabase({ tables: createFixtures(), user: PLAYER });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+function makePick(gameId, side, lineValue) {
+  return {
+    league_id: LEAGUE_ID,
+    user_id: PLAYER.id,
+    season: SEASON,
+    week: 1,
+    game_id: gameId,
+    side,
+    line_value: lineValue,
+    locked: false,
+    unlock_at: '2025-08-30T16:00:00.000Z',
+    created_at: '2025-08-28T15:00:00.000Z',
+    updated_at: '2025-08-28T15:00:00.000Z',
+  };
+}
+
+describe('join by invite code', () => {
+  it('adds the user as a player', async () => {
+    const league = await joinLeagueByInviteCode(OUTSIDER.id, ' abc123 ');
+
+    expect(league.id).toBe(LEAGUE_ID);
+    expect(await fetchLeagueWithRole(LEAGUE_ID, OUTSIDER.id)).toMatchObject({ name: 'Saturday Degenerates', role: 'player' });
+  });
+
+  it('rejects unknown codes', async () => {
+    await expect(joinLeagueByInviteCode(OUTSIDER.id, 'NOPE00')).rejects.toMatchObject({ code: 'INVALID_INVITE_CODE' });
+  });
+
+  it('rejects existing members', async () => {
+    await expect(joinLeagueByInviteCode(PLAYER.id, INVITE_CODE)).rejects.toMatchObject({ code: 'ALREADY_MEMBER' });
+  });
+});
+
+describe('league settings', () => {
+  it('saves the lock mode and weekly lock time', async () => {
+    await updateLeagueSettings(LEAGUE_ID, { lock_mode: 'global', global_lock_at: 'Sat 12:00' });
+
+    expect(await fetchLeagueWithRole(LEAGUE_ID, PLAYER.id)).toMatchObject({ lock_mode: 'global', global_lock_at: 'Sat 12:00' });
+  });
+});
+
+describe('slate submit', () => {
+  it('loads the slate in kickoff order', async () => {
+    const slate = await fetchSlate(LEAGUE_ID, SEASON, 1);
+
+    expect(slate.map(({ game }) => game.id)).toEqual(['game-3', 'game-1', 'game-2', 'game-4']);
+    expect(slate[1].line.spread_home).toBe(-1.5);
+  });
+
+  it('stores picks and replaces a re-submitted game', async () => {
+    await submitPicks([makePick('game-1', 'HOME', -1.5), makePick('game-2', 'AWAY', -3.5)]);
+    await submitPicks([makePick('game-1', 'AWAY', 1.5)]);
+
+    const picks = await fetchPicks(LEAGUE_ID, PLAYER.id, SEASON, 1);
+    expect(picks).toHaveLength(2);
+    expect(picks.find(pick => pick.game_id === 'game-1')).toMatchObject({ side: 'AWAY', line_value: 1.5 });
+  });
+
+  it('keeps a side and a total on the same game', async () => {
+    await submitPicks([makePick('game-1', 'HOME', -1.5), makePick('game-1', 'OVER', 52.5)]);
+    await submitPicks([makePick('game-1', 'UNDER', 52.5)]);
+
+    const picks = await fetchPicks(LEAGUE_ID, PLAYER.id, SEASON, 1);
+    expect(picks.map(pick => [pick.side, pick.market])).toEqual([['HOME', 'spread'], ['UNDER', 'total']]);
+  });
+
+  it('reveals the league consensus only once every pick unlocks', async () => {
+    const commishPick = { ...makePick('game-1', 'HOME', -1.5), user_id: COMMISH.id, unlock_at: '2099-01-01T00:00:00.000Z' };
+    await submitPicks([commishPick, makePick('game-1', 'AWAY', 1.5), makePick('game-1', 'OVER', 52.5)]);
+
+    const from = jest.spyOn(mockSupabase, 'from');
+    const hidden = await fetchSlateConsensus(LEAGUE_ID, SEASON, 1, PLAYER.id);
+    expect(hidden['game-1']).toEqual({ pick_count: 2, revealed: false, home: [], away: [] });
+    expect(from).toHaveBeenCalledTimes(1);  // No sides fetched while hidden
+    from.mockRestore();
+
+    mockSupabase.table('picks').forEach(pick => { pick.unlock_at = '2025-08-30T16:00:00.000Z'; });
+    const revealed = await fetchSlateConsensus(LEAGUE_ID, SEASON, 1, PLAYER.id);
+    expect(revealed['game-1']).toEqual({ pick_count: 2, revealed: true, home: [COMMISH.id], away: [PLAYER.id] });
+  });
+
+  it('rejects picks on games without published lines', async () => {
+    await expect(submitPicks([makePick('game-4', 'HOME', 0)])).rejects.toMatchObject({
+      name: 'RepositoryError',
+      operation: 'submitPicks',
+    });
+    expect(await fetchPicks(LEAGUE_ID, PLAYER.id, SEASON, 1)).toHaveLength(0);
+  });
+
+  it('sends queued edits with their history against the version they were made on', async () => {
+    const dropped = makePick('game-2', 'AWAY', -3.5);
+    await submitPicks([makePick('game-1', 'HOME', -1.5), dropped]);
+    const [, submitted] = await fetchPicks(LEAGUE_ID, PLAYER.id, SEASON, 1);
+
+    const history = [{ game_id: 'game-2', side: 'AWAY', line_value: -3.5, changed_at: '2025-08-29T15:00:00.000Z' }];
+    const added = { ...makePick('game-3', 'HOME', -7), edit_history: history };
+    expect(await sendQueuedPick({ op: 'upsert', pick: added, base_updated_at: null })).toBe('sent');
+    expect(await sendQueuedPick({ op: 'delete', pick: dropped, base_updated_at: submitted.updated_at })).toBe('sent');
+
+    const picks = await fetchPicks(LEAGUE_ID, PLAYER.id, SEASON, 1);
+    expect(picks.map(pick => [pick.game_id, pick.edit_history])).toEqual([['game-1', []], ['game-3', history]]);
+  });
+
+  it('reports a conflict instead of overwriting a pick changed since it was queued', async () => {
+    await submitPicks([makePick('game-1', 'HOME', -1.5)]);
+    const [submitted] = await fetchPicks(LEAGUE_ID, PLAYER.id, SEASON, 1);
+    mockSupabase.table('picks')[0].updated_at = '2099-01-01T00:00:00.000Z';
+
+    expect(await sendQueuedPick({ op: 'upsert', pick: makePick('game-1', 'AWAY', 1.5), base_updated_at: submitted.updated_at }))
+      .toBe('conflict');
+    expect(await sendQueuedPick({ op: 'upsert', pick: makePick('game-1', 'AWAY', 1.5), base_updated_at: null }))
+      .toBe('conflict');
+    expect(await sendQueuedPick({ op: 'delete', pick: submitted, base_updated_at: submitted.updated_at })).toBe('conflict');
+
+    expect((await fetchPicks(LEAGUE_ID, PLAYER.id, SEASON, 1)).map(pick => pick.side)).toEqual(['HOME']);
+  });
+
+  it('reports a conflict when another write takes a new pick\'s key first', async () => {
+    jest.spyOn(mockSupabase, 'validate')
+      .mockReturnValueOnce({ code: '23505', message: 'duplicate key value violates unique constraint' });
+
+    expect(await sendQueuedPick({ op: 'upsert', pick: makePick('game-1', 'AWAY', 1.5), base_updated_at: null }))
+      .toBe('conflict');
+  });
+
+  it('publishes a week through the edge function', async () => {
+    expect(await publishWeek(LEAGUE_ID, SEASON, 2)).toEqual({ games_count: 1, lines_count: 1 });
+    expect(await fetchSlate(LEAGUE_ID, SEASON, 2)).toHaveLength(1);
+  });
+});
+
+describe('standings', () => {
+  it('aggregates weekly rows into season standings', async () => {
+    const standings = await fetchSeasonStandings(LEAGUE_ID, SEASON);
+
+    expect(standings.map(standing => standing.user_id)).toEqual([PLAYER.id, COMMISH.id]);
+    expect(standings[0]).toMatchObject({
+      total_wins: 4,
+      total_losses: 1,
+      total_pushes: 1,
+      total_points: 4.5,
+      weeks_played: 2,
+      win_percentage: 0.8,
+    });
+  });
+
+  it('tracks each member\'s season rank week by week', async () => {
+    const history = await fetchRankHistory(LEAGUE_ID, SEASON);
+
+    expect(history.weeks).toEqual([1, 2]);
+    expect(history.series.map(entry => [entry.user_id, entry.points.map(point => point.rank)])).toEqual([
+      [PLAYER.id, [2, 1]],
+      [COMMISH.id, [1, 2]],
+    ]);
+    expect(history.series[0].points.map(point => point.points)).toEqual([1.5, 4.5]);
+  });
+
+  it('leaves dropped weeks out of the season totals', async () => {
+    mockSupabase.table('leagues')[0].standings_drop_weeks = 1;
+
+    const standings = await fetchSeasonStandings(LEAGUE_ID, SEASON);
+    expect(standings.map(standing => [standing.user_id, standing.total_points, standing.dropped_weeks])).toEqual([
+      [PLAYER.id, 3, [1]],
+      [COMMISH.id, 2, [2]],
+    ]);
+  });
+});
+
+describe('tiebreakers', () => {
+  function tieWeekOne() {
+    mockSupabase.table('weekly_standings')[1].points = 2;
+    mockSupabase.table('games').find(game => game.id === 'game-2').status = 'final';
+    Object.assign(mockSupabase.table('games').find(game => game.id === 'game-2'), { home_score: 24, away_score: 21 });
+  }
+
+  function tiebreakerEntry(userId, totalPoints) {
+    return { league_id: LEAGUE_ID, user_id: userId, season: SEASON, week: 1, game_id: 'game-2', total_points: totalPoints };
+  }
+
+  it('stores one entry per player and week', async () => {
+    await submitTiebreaker(tiebreakerEntry(PLAYER.id, 40));
+    await submitTiebreaker(tiebreakerEntry(PLAYER.id, 44));
+
+    expect(await fetchTiebreaker(LEAGUE_ID, PLAYER.id, SEASON, 1)).toMatchObject({ game_id: 'game-2', total_points: 44 });
+    expect(mockSupabase.table('tiebreakers')).toHaveLength(1);
+  });
+
+  it('flags a single tiebreaker game on the slate', async () => {
+    await setTiebreakerGame(LEAGUE_ID, SEASON, 1, 'game-1');
+    await setTiebreakerGame(LEAGUE_ID, SEASON, 1, 'game-3');
+
+    const flagged = (await fetchSlate(LEAGUE_ID, SEASON, 1)).filter(({ line }) => line.is_tiebreaker);
+    expect(flagged.map(({ game }) => game.id)).toEqual(['game-3']);
+  });
+
+  it('breaks a weekly tie on the closest prediction', async () => {
+    tieWeekOne();
+    await submitTiebreaker(tiebreakerEntry(COMMISH.id, 60));
+    await submitTiebreaker(tiebreakerEntry(PLAYER.id, 44));
+
+    const standings = await fetchWeeklyStandings(LEAGUE_ID, SEASON, 1);
+    expect(standings.map(standing => [standing.user_id, standing.rank])).toEqual([[PLAYER.id, 1], [COMMISH.id, 2]]);
+  });
+
+  it('follows the league\'s rule order', async () => {
+    tieWeekOne();
+    mockSupabase.table('leagues')[0].tiebreak_rules = ['fewest_losses', 'tiebreaker'];
+    await submitTiebreaker(tiebreakerEntry(COMMISH.id, 60));
+    await submitTiebreaker(tiebreakerEntry(PLAYER.id, 44));
+
+    // Both players lost once in week 1, so the prediction still decides it
+    const standings = await fetchWeeklyStandings(LEAGUE_ID, SEASON, 1);
+    expect(standings.map(standing => standing.user_id)).toEqual([PLAYER.id, COMMISH.id]);
+  });
+});
+
+describe('awards', () => {
+  it('hands out weekly and season awards for final weeks only', async () => {
+    const { weekly, season } = await fetchAwards(LEAGUE_ID, SEASON, week => week === 1);
+
+    expect(weekly).toEqual([
+      { kind: 'top_score', week: 1, user_id: COMMISH.id, value: 2, detail: '2 pts' },
+    ]);
+    expect(season.map(award => [award.kind, award.user_id])).toEqual([['top_score', COMMISH.id]]);
+  });
+
+  it('lists the latest week first', async () => {
+    const { weekly } = await fetchAwards(LEAGUE_ID, SEASON, () => true);
+
+    expect(weekly.map(award => [award.week, award.kind, award.user_id])).toEqual([
+      [2, 'top_score', PLAYER.id],
+      [2, 'perfect_week', PLAYER.id],
+      [1, 'top_score', COMMISH.id],
+    ]);
+  });
+});
+
+describe('ledger', () => {
+  beforeEach(() => {
+    Object.assign(mockSupabase.table('leagues').find(league => league.id === LEAGUE_ID), {
+      entry_fee: 20,
+      weekly_payout: 5,
+      season_payouts: [30, 10],
+    });
+  });
+
+  it('records dues payments and pays prizes from the standings', async () => {
+    await setDuesPaid(LEAGUE_ID, SEASON, PLAYER.id, true);
+    await setDuesPaid(LEAGUE_ID, SEASON, PLAYER.id, true);
+
+    const ledger = await fetchLedger(LEAGUE_ID, SEASON, week => week === 1);
+
+    expect(mockSupabase.table('league_dues')).toEqual([
+      expect.objectContaining({ user_id: PLAYER.id, amount: 20 }),
+    ]);
+    expect(ledger).toMatchObject({ collected: 20, outstanding: 20, paid_out: 5 });
+    expect(ledger.members.find(member => member.user_id === PLAYER.id))
+      .toMatchObject({ paid: true, winnings: 0, projected: 35 });
+    expect(ledger.members.find(member => member.user_id === COMMISH.id))
+      .toMatchObject({ paid: false, winnings: 5, projected: 10 });
+  });
+
+  it('keeps recorded payments at the fee they were made at', async () => {
+    await setDuesPaid(LEAGUE_ID, SEASON, PLAYER.id, true);
+    mockSupabase.table('leagues').find(league => league.id === LEAGUE_ID).entry_fee = 25;
+
+    const ledger = await fetchLedger(LEAGUE_ID, SEASON, () => true);
+    expect(ledger).toMatchObject({ collected: 20, outstanding: 25 });
+  });
+
+  it('clears a payment', async () => {
+    await setDuesPaid(LEAGUE_ID, SEASON, PLAYER.id, true);
+    await setDuesPaid(LEAGUE_ID, SEASON, PLAYER.id, false);
+
+    expect(mockSupabase.table('league_dues')).toEqual([]);
+  });
+});
+
+describe('seasons', () => {
+  it('lists seasons the league has standings for alongside the current one', async () => {
+    expect(await fetchLeagueSeasons(LEAGUE_ID, SEASON + 1)).toEqual([
+      { season: SEASON + 1, archived: false, champions: [] },
+      { season: SEASON, archived: false, champions: [] },
+    ]);
+  });
+
+  it('archives the season with its champion and opens the next', async () => {
+    const champions = await startNewSeason(LEAGUE_ID, SEASON, () => true);
+
+    expect(champions.map(champion => champion.user_id)).toEqual([PLAYER.id]);
+    expect(mockSupabase.table('league_champions')).toEqual([
+      expect.objectContaining({ league_id: LEAGUE_ID, season: SEASON, user_id: PLAYER.id, points: 4.5 }),
+    ]);
+    expect(await fetchLeagueSeasons(LEAGUE_ID, SEASON + 1)).toEqual([
+      { season: SEASON + 1, archived: false, champions: [] },
+      { season: SEASON, archived: true, champions: [PLAYER.id] },
+    ]);
+  });
+
+  it('refuses a season that is still in progress or already archived', async () => {
+    await expect(startNewSeason(LEAGUE_ID, SEASON, week => week < 2)).rejects.toMatchObject({ code: 'SEASON_IN_PROGRESS' });
+    expect(await fetchSeasonArchivedAt(LEAGUE_ID, SEASON)).toBeNull();
+
+    await startNewSeason(LEAGUE_ID, SEASON, () => true);
+    expect(await fetchSeasonArchivedAt(LEAGUE_ID, SEASON)).toEqual(expect.any(String));
+    await expect(startNewSeason(LEAGUE_ID, SEASON, () => true)).rejects.toMatchObject({ code: 'SEASON_ARCHIVED' });
+    expect(mockSupabase.table('league_champions')).toHaveLength(1);
+  });
+});
+
+describe('export', () => {
+  it('ranks standings and lists picks for the chosen weeks only', async () => {
+    mockSupabase.table('picks').push(
+      { league_id: LEAGUE_ID, user_id: PLAYER.id, season: SEASON, week: 1, game_id: 'game-1', side: 'AWAY', line_value: 1.5, locked: true, created_at: '2025-08-29T12:00:00Z' },
+      { league_id: LEAGUE_ID, user_id: PLAYER.id, season: SEASON, week: 2, game_id: 'game-5', side: 'HOME', line_value: -3, locked: true, created_at: '2025-09-05T12:00:00Z' }
+    );
+
+    const data = await fetchLeagueExport(LEAGUE_ID, SEASON, 2, 2, PLAYER.id);
+
+    expect(data.weeklyStandings.map(standing => [standing.week, standing.user_id, standing.rank])).toEqual([
+      [2, PLAYER.id, 1],
+      [2, COMMISH.id, 2],
+    ]);
+    expect(data.seasonStandings.map(standing => [standing.user_id, standing.total_points])).toEqual([
+      [PLAYER.id, 3],
+      [COMMISH.id, 0],
+    ]);
+    expect(data.picks.map(pick => [pick.game_id, pick.games.home])).toEqual([['game-5', 'Michigan']]);
+    expect(data.emails[PLAYER.id]).toBe(PLAYER.email);
+  });
+
+  it('leaves out other members\' picks until they unlock', async () => {
+    const hidden = { league_id: LEAGUE_ID, user_id: COMMISH.id, season: SEASON, week: 2, game_id: 'game-5', side: 'AWAY', line_value: 3, unlock_at: '2099-01-01T00:00:00.000Z', created_at: '2025-09-05T12:00:00Z' };
+    mockSupabase.table('picks').push(hidden, { ...hidden, user_id: PLAYER.id, side: 'HOME', line_value: -3 });
+
+    const data = await fetchLeagueExport(LEAGUE_ID, SEASON, 2, 2, PLAYER.id);
+    expect(data.picks.map(pick => [pick.user_id, pick.side])).toEqual([[PLAYER.id, 'HOME']]);
+  });
+});
+
+describe('playoffs', () => {
+  beforeEach(() => {
+    Object.assign(mockSupabase.table('leagues').find(league => league.id === LEAGUE_ID), {
+      playoff_teams: 2,
+      playoff_after_week: 1,
+    });
+    // Commissioner leads after the regular season and overall, but loses the final
+    mockSupabase.table('weekly_standings').find(row => row.user_id === COMMISH.id && row.week === 1).points = 5;
+  });
+
+  it('seeds from the regular-season standings and plays the bracket on later weeks', async () => {
+    expect(await seedPlayoffBracket(LEAGUE_ID, SEASON)).toEqual([
+      { seed: 1, user_id: COMMISH.id },
+      { seed: 2, user_id: PLAYER.id },
+    ]);
+
+    const bracket = await fetchPlayoffBracket(LEAGUE_ID, SEASON, () => true);
+    expect(bracket.rounds).toHaveLength(1);
+    expect(bracket.rounds[0][0]).toMatchObject({ week: 2, high_points: 0, low_points: 3, decided_by: 'points' });
+    expect(bracket.champion).toEqual({ seed: 2, user_id: PLAYER.id });
+  });
+
+  it('crowns the playoff winner when the season is rolled over', async () => {
+    await seedPlayoffBracket(LEAGUE_ID, SEASON);
+
+    const champions = await startNewSeason(LEAGUE_ID, SEASON, () => true);
+    expect(champions.map(champion => champion.user_id)).toEqual([PLAYER.id]);
+  });
+
+  it('refuses to archive a season whose playoffs are still being played', async () => {
+    // One round, played the week after the schedule ends
+    mockSupabase.table('leagues').find(league => league.id === LEAGUE_ID).playoff_after_week = 2;
+    await seedPlayoffBracket(LEAGUE_ID, SEASON);
+
+    await expect(startNewSeason(LEAGUE_ID, SEASON, week => week <= 2)).rejects.toMatchObject({ code: 'PLAYOFFS_UNDECIDED' });
+    expect(mockSupabase.table('league_champions')).toEqual([]);
+  });
+
+  it('refuses to seed a league without playoffs', async () => {
+    mockSupabase.table('leagues').find(league => league.id === LEAGUE_ID).playoff_teams = null;
+
+    await expect(seedPlayoffBracket(LEAGUE_ID, SEASON)).rejects.toMatchObject({ code: 'NO_PLAYOFFS' });
+  });
+});
+
+describe('head-to-head', () => {
+  const pairings = [
+    { week: 1, home_user_id: PLAYER.id, away_user_id: COMMISH.id },
+    { week: 2, home_user_id: COMMISH.id, away_user_id: PLAYER.id },
+  ];
+
+  it('keeps played weeks when the schedule is regenerated', async () => {
+    await saveMatchupSchedule(LEAGUE_ID, SEASON, pairings, 1);
+    await saveMatchupSchedule(LEAGUE_ID, SEASON, [{ week: 2, home_user_id: PLAYER.id, away_user_id: null }], 2);
+
+    const matchups = await fetchMatchups(LEAGUE_ID, SEASON);
+    expect(matchups.map(matchup => [matchup.week, matchup.home_user_id, matchup.away_user_id])).toEqual([
+      [1, PLAYER.id, COMMISH.id],
+      [2, PLAYER.id, null],
+    ]);
+  });
+
+  it('scores matchups from weekly standings', async () => {
+    await saveMatchupSchedule(LEAGUE_ID, SEASON, pairings, 1);
+
+    const { results, records } = await fetchHeadToHead(LEAGUE_ID, SEASON, () => true);
+    expect(results.map(result => result.winner_user_id)).toEqual([COMMISH.id, PLAYER.id]);
+    expect(records.map(record => [record.user_id, record.wins, record.losses])).toEqual([
+      [PLAYER.id, 1, 1],
+      [COMMISH.id, 1, 1],
+    ]);
+  });
+});
+
+describe('survivor', () => {
+  it('replays eliminations from the picks, counting finished weeks without a pick', async () => {
+    mockSupabase.table('leagues')[0].league_type = 'survivor';
+    mockSupabase.table('games').forEach(game => {
+      Object.assign(game, { status: 'final', home_score: 31, away_score: 17 });
+    });
+    await submitPicks([makePick('game-1', 'HOME', 0)]);
+    await submitPicks([{ ...makePick('game-2', 'AWAY', 0), user_id: COMMISH.id }]);
+
+    const standings = await fetchSurvivorStandings(LEAGUE_ID, SEASON, () => false);
+    expect(standings.map(entry => [entry.user_id, entry.alive, entry.eliminated_week])).toEqual([
+      [PLAYER.id, true, null],
+      [COMMISH.id, false, 1],
+    ]);
+
+    // Week 2 is over and the player never picked it
+    const later = await fetchSurvivorStandings(LEAGUE_ID, SEASON, week => week <= 2);
+    expect(later.map(entry => [entry.user_id, entry.alive, entry.eliminated_week])).toEqual([
+      [PLAYER.id, false, 2],
+      [COMMISH.id, false, 1],
+    ]);
+  });
+
+  it('records strikes and eliminations on the membership rows until the season rolls over', async () => {
+    mockSupabase.table('leagues')[0].league_type = 'survivor';
+    mockSupabase.table('games').forEach(game => {
+      Object.assign(game, { status: 'final', home_score: 31, away_score: 17 });
+    });
+    await submitPicks([makePick('game-1', 'HOME', 0)]);
+    await submitPicks([{ ...makePick('game-2', 'AWAY', 0), user_id: COMMISH.id }]);
+    // Column defaults
+    mockSupabase.table('league_members').forEach(member => Object.assign(member, { strikes: 0, eliminated_week: null }));
+    const membership = () => mockSupabase.table('league_members')
+      .map(member => [member.user_id, member.strikes, member.eliminated_week]);
+
+    await recordSurvivorStatus(LEAGUE_ID, SEASON, week => week <= 1);
+    expect(membership()).toEqual([
+      [COMMISH.id, 1, 1],
+      [PLAYER.id, 0, null],
+    ]);
+
+    await startNewSeason(LEAGUE_ID, SEASON, () => true);
+    expect(membership()).toEqual([
+      [COMMISH.id, 0, null],
+      [PLAYER.id, 0, null],
+    ]);
+  });
+});
+
+describe('integration smoke test', () => {
+  it('passes every check against the fake backend', async () => {
+    mockSupabase.signInAs(COMMISH);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const results = await testFrontendBackendIntegration();
+
+    expect(Object.values(results).every(Boolean)).toBe(true);
+    expect(await fetchUserLeagues(COMMISH.id)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,112 @@
+import {
+  describeWindowDrop,
+  easternTime,
+  formatEasternTime,
+  getLineDropAt,
+  getWeekSchedule,
+  getPickLockAt,
+  getWindowForKickoff,
+  isPickLocked,
+  parseWeeklyTime,
+} from '../schedule';
+
+describe('easternTime', () => {
+  it('uses EDT in summer and EST in winter', () => {
+    expect(easternTime(2025, 9, 6, 12).toISOString()).toBe('2025-09-06T16:00:00.000Z');
+    expect(easternTime(2025, 11, 8, 12).toISOString()).toBe('2025-11-08T17:00:00.000Z');
+  });
+
+  it('handles the days either side of the fall-back change', () => {
+    expect(easternTime(2025, 11, 1, 23).toISOString()).toBe('2025-11-02T03:00:00.000Z');
+    expect(easternTime(2025, 11, 2, 10).toISOString()).toBe('2025-11-02T15:00:00.000Z');
+  });
+});
+
+describe('getWeekSchedule', () => {
+  it('anchors week 1 on the Saturday after a Thursday opener', () => {
+    const schedule = getWeekSchedule(new Date('2025-08-28T23:00:00Z'));
+
+    expect(schedule.unlockAt.toISOString()).toBe('2025-08-30T16:00:00.000Z');
+    expect(schedule.drops.EARLY.toISOString()).toBe('2025-08-26T14:00:00.000Z');
+    expect(schedule.drops.MAIN.toISOString()).toBe('2025-08-28T14:00:00.000Z');
+    expect(schedule.drops.LABORDAY.toISOString()).toBe('2025-09-01T14:00:00.000Z');
+  });
+
+  it('keeps Eastern wall-clock times for a week spanning the DST change', () => {
+    // Tuesday MACtion opens the week; clocks fall back Sunday Nov 2
+    const schedule = getWeekSchedule(new Date('2025-10-28T23:00:00Z'));
+
+    expect(schedule.drops.EARLY.toISOString()).toBe('2025-10-28T14:00:00.000Z');
+    expect(schedule.unlockAt.toISOString()).toBe('2025-11-01T16:00:00.000Z');
+    expect(schedule.drops.LABORDAY.toISOString()).toBe('2025-11-03T15:00:00.000Z');
+  });
+
+  it('places a late Saturday kickoff in its own week despite the UTC date', () => {
+    // 8:00 PM ET Saturday is already Sunday in UTC
+    expect(getWeekSchedule(new Date('2025-11-09T01:00:00Z')).unlockAt.toISOString()).toBe('2025-11-08T17:00:00.000Z');
+  });
+});
+
+describe('line drops', () => {
+  it('infers the window from the Eastern kickoff day', () => {
+    expect(getWindowForKickoff(new Date('2025-09-02T00:00:00Z'))).toBe('LABORDAY');
+    expect(getWindowForKickoff(new Date('2025-11-05T00:00:00Z'))).toBe('EARLY');
+    expect(getWindowForKickoff(new Date('2025-11-08T17:00:00Z'))).toBe('MAIN');
+  });
+
+  it('prefers the stored window', () => {
+    const kickoff = new Date('2025-11-05T00:00:00Z');
+    expect(getLineDropAt(kickoff, 'MAIN').toISOString()).toBe('2025-11-06T15:00:00.000Z');
+    expect(getLineDropAt(kickoff, null).toISOString()).toBe('2025-11-04T15:00:00.000Z');
+  });
+
+  it('formats times in Eastern time', () => {
+    expect(formatEasternTime(new Date('2025-09-04T14:00:00Z'))).toBe('Thu Sep 4, 10:00 AM ET');
+    expect(formatEasternTime(new Date('2025-11-08T17:30:00Z'))).toBe('Sat Nov 8, 12:30 PM ET');
+    expect(describeWindowDrop('LABORDAY')).toBe('Mon 10:00 AM ET');
+  });
+});
+
+describe('isPickLocked', () => {
+  it('locks at kickoff', () => {
+    const kickoff = new Date('2025-11-08T17:00:00Z');
+    expect(isPickLocked(kickoff, null, new Date('2025-11-08T16:59:59Z'))).toBe(false);
+    expect(isPickLocked(kickoff, null, kickoff)).toBe(true);
+  });
+
+  it('locks a global-lock league\'s whole week at its lock time', () => {
+    const rules = { lock_mode: 'global', global_lock_at: 'Sat 12:00' };
+    const nightGame = new Date('2025-11-09T00:30:00Z');
+
+    expect(isPickLocked(nightGame, rules, new Date('2025-11-08T16:59:59Z'))).toBe(false);
+    expect(isPickLocked(nightGame, rules, new Date('2025-11-08T17:00:00Z'))).toBe(true);
+    expect(isPickLocked(nightGame, { lock_mode: 'per_game' }, new Date('2025-11-08T17:00:00Z'))).toBe(false);
+  });
+});
+
+describe('getPickLockAt', () => {
+  it('keeps earlier kickoffs and lands on the right day of the week', () => {
+    const global = { lock_mode: 'global' };
+
+    // Thursday game before the default Saturday noon lock
+    expect(getPickLockAt(new Date('2025-11-06T23:30:00Z'), global).toISOString()).toBe('2025-11-06T23:30:00.000Z');
+    // A Sunday lock falls after the Saturday anchor
+    expect(getPickLockAt(new Date('2025-11-11T00:00:00Z'), { ...global, global_lock_at: 'Sun 18:00' }).toISOString())
+      .toBe('2025-11-09T23:00:00.000Z');
+  });
+});
+
+describe('parseWeeklyTime', () => {
+  it('reads 12- and 24-hour times with short or long day names', () => {
+    expect(parseWeeklyTime('Saturday 12:00 PM')).toEqual({ weekday: 6, hour: 12, minute: 0 });
+    expect(parseWeeklyTime('sat 7:30pm')).toEqual({ weekday: 6, hour: 19, minute: 30 });
+    expect(parseWeeklyTime('Fri 12am')).toEqual({ weekday: 5, hour: 0, minute: 0 });
+    expect(parseWeeklyTime('Thu 18:45')).toEqual({ weekday: 4, hour: 18, minute: 45 });
+  });
+
+  it('rejects anything else', () => {
+    expect(parseWeeklyTime('noon')).toBeNull();
+    expect(parseWeeklyTime('Sat 13:00 PM')).toBeNull();
+    expect(parseWeeklyTime('Sat 24:00')).toBeNull();
+  });
+});
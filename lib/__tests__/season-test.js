@@ -0,0 +1,100 @@
+import { createFakeSupabase } from '../testing/fake-supabase';
+import { createFixtures, PLAYER, SEASON } from '../testing/fixtures';
+import {
+  buildSeasonCalendar,
+  clampWeek,
+  getCurrentWeek,
+  getFirstUnstartedWeek,
+  getWeekLabel,
+  guessSeason,
+  isWeekComplete,
+  loadSeasonCalendar,
+} from '../season';
+
+let mockSupabase;
+
+jest.mock('../supabase', () => ({
+  get supabase() {
+    return mockSupabase;
+  },
+}));
+
+beforeEach(() => {
+  mockSupabase = createFakeSupabase({ tables: createFixtures(), user: PLAYER });
+});
+
+const SCHEDULE = [
+  { week: 0, kickoff: '2025-08-23T16:00:00Z' },
+  { week: 1, kickoff: '2025-08-28T23:00:00Z' },
+  { week: 1, kickoff: '2025-09-01T00:00:00Z' },
+  { week: 2, kickoff: '2025-09-06T16:00:00Z' },
+  { week: 15, kickoff: '2025-12-13T20:00:00Z' },
+  { week: 16, kickoff: '2025-12-20T17:00:00Z' },
+  { week: 17, kickoff: '2026-01-09T00:30:00Z', season_type: 'postseason' },
+];
+
+describe('buildSeasonCalendar', () => {
+  it('derives week bounds from kickoffs, including week 0', () => {
+    const calendar = buildSeasonCalendar(2025, SCHEDULE, new Date('2025-08-20T12:00:00Z'));
+
+    expect(calendar.firstWeek).toBe(0);
+    expect(calendar.lastWeek).toBe(17);
+    expect(calendar.currentWeek).toBe(0);
+    expect(calendar.weeks[1].start).toEqual(calendar.weeks[0].end);
+    expect(calendar.weeks[1].end).toEqual(new Date('2025-09-01T12:00:00Z'));
+  });
+
+  it('rolls forward once the grading buffer has passed', () => {
+    const calendar = buildSeasonCalendar(2025, SCHEDULE, new Date('2025-09-01T02:00:00Z'));
+    expect(calendar.currentWeek).toBe(1);
+    expect(getCurrentWeek(calendar.weeks, new Date('2025-09-02T12:00:00Z'))).toBe(2);
+  });
+
+  it('stays on the final week after the season ends', () => {
+    const calendar = buildSeasonCalendar(2025, SCHEDULE, new Date('2026-02-01T00:00:00Z'));
+    expect(calendar.currentWeek).toBe(17);
+    expect(isWeekComplete(calendar, 17, new Date('2026-02-01T00:00:00Z'))).toBe(true);
+  });
+
+  it('completes a week once its grading buffer passes', () => {
+    const calendar = buildSeasonCalendar(2025, SCHEDULE);
+    expect(isWeekComplete(calendar, 1, new Date('2025-09-01T11:00:00Z'))).toBe(false);
+    expect(isWeekComplete(calendar, 1, new Date('2025-09-01T12:00:00Z'))).toBe(true);
+    expect(isWeekComplete(null, 1)).toBe(false);
+  });
+
+  it('finds the first week that has not kicked off', () => {
+    const calendar = buildSeasonCalendar(2025, SCHEDULE);
+    expect(getFirstUnstartedWeek(calendar, new Date('2025-08-29T12:00:00Z'))).toBe(2);
+    expect(getFirstUnstartedWeek(calendar, new Date('2026-02-01T00:00:00Z'))).toBeNull();
+  });
+
+  it('flags bowl weeks after Army-Navy', () => {
+    const calendar = buildSeasonCalendar(2025, SCHEDULE);
+
+    expect(calendar.weeks.filter(week => week.isPostseason).map(week => week.week)).toEqual([16, 17]);
+    expect(getWeekLabel(calendar, 16)).toBe('Week 16 · Bowls');
+    expect(getWeekLabel(calendar, 15)).toBe('Week 15');
+  });
+
+  it('falls back to default bounds without games', () => {
+    const calendar = buildSeasonCalendar(2025, []);
+    expect(calendar).toMatchObject({ firstWeek: 1, lastWeek: 15, currentWeek: 1 });
+    expect(clampWeek(null, 40)).toBe(15);
+  });
+});
+
+describe('guessSeason', () => {
+  it('treats January as the previous season', () => {
+    expect(guessSeason(new Date('2026-01-05T12:00:00Z'))).toBe(2025);
+    expect(guessSeason(new Date('2025-09-05T12:00:00Z'))).toBe(2025);
+  });
+});
+
+describe('loadSeasonCalendar', () => {
+  it('picks the season with upcoming games', async () => {
+    const calendar = await loadSeasonCalendar(undefined, new Date('2025-09-02T12:00:00Z'));
+
+    expect(calendar).toMatchObject({ season: SEASON, firstWeek: 1, lastWeek: 2, currentWeek: 2 });
+  });
+});
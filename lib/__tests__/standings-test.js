@@ -0,0 +1,99 @@
+import {
+  aggregateSeasonStandings,
+  compareSeasonStandings,
+  describeStandingsRules,
+  getCountedRows,
+  splitCountedWeeks,
+} from '../standings';
+
+function weekRow(userId, week, points, wins = points, losses = 3 - points) {
+  return { user_id: userId, week, wins, losses, pushes: 0, points, user_email: `${userId}@example.com` };
+}
+
+const rows = [
+  weekRow('a', 1, 3),
+  weekRow('a', 2, 0),
+  weekRow('a', 3, 2),
+  weekRow('b', 1, 2),
+  weekRow('b', 2, 2),
+];
+
+describe('splitCountedWeeks', () => {
+  const weeks = rows.filter(row => row.user_id === 'a');
+
+  it('counts every week by default', () => {
+    expect(splitCountedWeeks(weeks, null).dropped).toEqual([]);
+  });
+
+  it('keeps the best N weeks', () => {
+    const { counted, dropped } = splitCountedWeeks(weeks, { standings_best_weeks: 2 });
+    expect(counted.map(week => week.week)).toEqual([1, 3]);
+    expect(dropped.map(week => week.week)).toEqual([2]);
+  });
+
+  it('drops the lowest weeks but always counts one', () => {
+    expect(splitCountedWeeks(weeks, { standings_drop_weeks: 1 }).dropped.map(week => week.week)).toEqual([2]);
+    expect(splitCountedWeeks(weeks.slice(0, 1), { standings_drop_weeks: 2 }).counted).toHaveLength(1);
+  });
+
+  it('drops the later week when scores tie', () => {
+    const tied = [weekRow('b', 1, 2), weekRow('b', 2, 2)];
+    expect(splitCountedWeeks(tied, { standings_drop_weeks: 1 }).dropped.map(week => week.week)).toEqual([2]);
+  });
+});
+
+describe('aggregateSeasonStandings', () => {
+  it('totals each player\'s counted weeks', () => {
+    const standings = aggregateSeasonStandings(rows, { standings_drop_weeks: 1 });
+
+    expect(standings[0]).toMatchObject({
+      user_id: 'a',
+      user_email: 'a@example.com',
+      total_wins: 5,
+      total_losses: 1,
+      total_points: 5,
+      weeks_played: 3,
+      dropped_weeks: [2],
+      qualified: true,
+    });
+    expect(standings[0].win_percentage).toBeCloseTo(5 / 6);
+    expect(getCountedRows(rows, standings).map(row => `${row.user_id}${row.week}`)).toEqual(['a1', 'a3', 'b1', 'b2']);
+  });
+
+  it('drops a missed week before any week that was played', () => {
+    const standings = aggregateSeasonStandings(rows, { standings_drop_weeks: 1 });
+
+    expect(standings[1]).toMatchObject({ user_id: 'b', total_points: 4, weeks_played: 2, dropped_weeks: [3] });
+  });
+
+  it('flags players short of the minimum weeks', () => {
+    const standings = aggregateSeasonStandings(rows, { standings_min_weeks: 3 });
+    expect(standings.map(standing => standing.qualified)).toEqual([true, false]);
+  });
+});
+
+describe('compareSeasonStandings', () => {
+  const standings = aggregateSeasonStandings([
+    weekRow('a', 1, 3, 3, 1),
+    weekRow('b', 1, 2, 2, 0),
+  ]);
+
+  it('ranks on points by default and win percentage when the league asks', () => {
+    expect([...standings].sort(compareSeasonStandings(null)).map(standing => standing.user_id)).toEqual(['a', 'b']);
+    expect([...standings].sort(compareSeasonStandings({ standings_rank_by: 'win_percentage' })).map(standing => standing.user_id))
+      .toEqual(['b', 'a']);
+  });
+
+  it('puts qualified players first', () => {
+    const ranked = [...standings].map((standing, index) => ({ ...standing, qualified: index === 1 }));
+    expect(ranked.sort(compareSeasonStandings(null)).map(standing => standing.user_id)).toEqual(['b', 'a']);
+  });
+});
+
+describe('describeStandingsRules', () => {
+  it('summarizes only the rules a league sets', () => {
+    expect(describeStandingsRules(null)).toBeNull();
+    expect(describeStandingsRules({ standings_best_weeks: 10, standings_rank_by: 'win_percentage' }))
+      .toBe('Best 10 weeks • Ranked by win %');
+  });
+});
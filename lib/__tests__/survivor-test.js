@@ -0,0 +1,95 @@
+import { buildSurvivorStandings, evaluateSurvivor, getSurvivorWeeks, getUsedTeams, validateSurvivorPick } from '../survivor';
+
+function survivorPick(userId, week, side, homeScore, awayScore) {
+  return {
+    user_id: userId,
+    week,
+    side,
+    line_value: 0,
+    games: {
+      home: `Home ${week}`,
+      away: `Away ${week}`,
+      status: homeScore === null ? 'scheduled' : 'final',
+      home_score: homeScore,
+      away_score: awayScore,
+    },
+  };
+}
+
+describe('evaluateSurvivor', () => {
+  it('eliminates on the first loss by default', () => {
+    const entry = evaluateSurvivor([
+      survivorPick('a', 2, 'AWAY', 10, 21),
+      survivorPick('a', 1, 'HOME', 28, 14),
+      survivorPick('a', 3, 'HOME', 7, 24),
+      survivorPick('a', 4, 'HOME', 35, 0),
+    ]);
+
+    expect(entry).toMatchObject({ alive: false, strikes: 1, eliminated_week: 3 });
+    expect(entry.weeks.map(week => `${week.week}:${week.team}:${week.result}`)).toEqual([
+      '1:Home 1:WIN',
+      '2:Away 2:WIN',
+      '3:Home 3:LOSS',
+      '4:Home 4:WIN',
+    ]);
+  });
+
+  it('counts a finished week without a pick as a strike', () => {
+    const picks = [survivorPick('a', 1, 'HOME', 28, 14), survivorPick('a', 3, 'HOME', 7, 24)];
+
+    expect(evaluateSurvivor(picks, 2, [1, 2, 3, 4])).toMatchObject({
+      alive: false,
+      strikes: 2,
+      eliminated_week: 3,
+      weeks: [
+        { week: 1, team: 'Home 1', result: 'WIN' },
+        { week: 2, team: null, result: 'MISSED' },
+        { week: 3, team: 'Home 3', result: 'LOSS' },
+      ],
+    });
+  });
+
+  it('owes a pick only for finished weeks from the pool\'s first pick on', () => {
+    const picks = [survivorPick('a', 3, 'HOME', 28, 14), survivorPick('b', 4, 'HOME', null, null)];
+    expect(getSurvivorWeeks(picks, [1, 2, 3, 3, 4, 5], week => week <= 4)).toEqual([3, 4]);
+    expect(getSurvivorWeeks([], [1, 2], () => true)).toEqual([]);
+  });
+
+  it('allows extra strikes when the league grants them', () => {
+    const picks = [survivorPick('a', 1, 'HOME', 7, 24), survivorPick('a', 2, 'HOME', null, null)];
+    expect(evaluateSurvivor(picks, 2)).toMatchObject({ alive: true, strikes: 1, eliminated_week: null });
+  });
+});
+
+describe('buildSurvivorStandings', () => {
+  it('lists the alive first, then the latest eliminated', () => {
+    const members = [
+      { user_id: 'a', user_email: 'a@example.com' },
+      { user_id: 'b', user_email: 'b@example.com' },
+      { user_id: 'c', user_email: 'c@example.com' },
+    ];
+    const picks = [
+      survivorPick('a', 1, 'HOME', 7, 24),
+      survivorPick('b', 1, 'HOME', 28, 14),
+      survivorPick('b', 2, 'HOME', 3, 10),
+      survivorPick('c', 1, 'AWAY', 7, 24),
+    ];
+
+    expect(buildSurvivorStandings(members, picks).map(entry => entry.user_id)).toEqual(['c', 'b', 'a']);
+  });
+});
+
+describe('survivor pick rules', () => {
+  it('blocks teams already used in other weeks', () => {
+    const picks = [survivorPick('a', 1, 'HOME', 28, 14), survivorPick('a', 2, 'AWAY', null, null)];
+    const usedTeams = getUsedTeams(picks, 2);
+
+    expect(usedTeams).toEqual(['Home 1']);
+    expect(validateSurvivorPick('Home 1', usedTeams)).toBe('You already used Home 1 this season');
+    expect(validateSurvivorPick('Away 2', usedTeams)).toBeNull();
+  });
+
+  it('blocks eliminated players', () => {
+    expect(validateSurvivorPick('Home 5', [], { alive: false })).toBe('You have been eliminated from this survivor pool');
+  });
+});
@@ -0,0 +1,104 @@
+import { buildTiebreakRecords, getTiebreakerDelta, getTiebreakerGame, rankStandings } from '../tiebreakers';
+
+const byPoints = (a, b) => b.points - a.points;
+
+function week(week, points, delta = null, submittedAt = null) {
+  return { week, points, tiebreaker_delta: delta, submitted_at: submittedAt };
+}
+
+describe('getTiebreakerGame', () => {
+  const slate = [
+    { game: { id: 'early', kickoff: '2025-08-30T16:00:00Z' }, line: {} },
+    { game: { id: 'late', kickoff: '2025-08-31T00:00:00Z' }, line: {} },
+  ];
+
+  it('defaults to the last kickoff', () => {
+    expect(getTiebreakerGame(slate).game.id).toBe('late');
+    expect(getTiebreakerGame([])).toBeNull();
+  });
+
+  it('prefers the commissioner\'s choice', () => {
+    expect(getTiebreakerGame([{ ...slate[0], line: { is_tiebreaker: true } }, slate[1]]).game.id).toBe('early');
+  });
+});
+
+describe('getTiebreakerDelta', () => {
+  it('measures the miss once the game is final', () => {
+    expect(getTiebreakerDelta(50, { status: 'final', home_score: 31, away_score: 24 })).toBe(5);
+    expect(getTiebreakerDelta(50, { status: 'scheduled', home_score: null, away_score: null })).toBeNull();
+  });
+});
+
+describe('buildTiebreakRecords', () => {
+  it('combines standings, entries and first pick times per player', () => {
+    const records = buildTiebreakRecords(
+      [
+        { user_id: 'a', week: 1, points: 3, losses: 1 },
+        { user_id: 'a', week: 2, points: 2, losses: 2 },
+      ],
+      [{ user_id: 'a', week: 1, total_points: 40, games: { status: 'final', home_score: 20, away_score: 17 } }],
+      [
+        { user_id: 'a', week: 1, created_at: '2025-08-28T15:00:00Z' },
+        { user_id: 'a', week: 1, created_at: '2025-08-27T15:00:00Z' },
+      ]
+    );
+
+    expect(records).toEqual([{
+      user_id: 'a',
+      losses: 3,
+      weeks: [week(1, 3, 3, '2025-08-27T15:00:00Z'), week(2, 2)],
+    }]);
+  });
+});
+
+describe('rankStandings', () => {
+  const rows = [
+    { user_id: 'a', points: 3 },
+    { user_id: 'b', points: 4 },
+    { user_id: 'c', points: 3 },
+  ];
+
+  it('ranks on points and shares the rank when nothing separates a tie', () => {
+    expect(rankStandings(rows, byPoints, []).map(row => [row.user_id, row.rank])).toEqual([
+      ['b', 1],
+      ['a', 2],
+      ['c', 2],
+    ]);
+  });
+
+  it('applies the rules in the league\'s order', () => {
+    const records = [
+      { user_id: 'a', losses: 1, weeks: [week(1, 3, 10)] },
+      { user_id: 'c', losses: 2, weeks: [week(1, 3, 2)] },
+    ];
+
+    expect(rankStandings(rows, byPoints, records, ['tiebreaker', 'fewest_losses']).map(row => row.user_id))
+      .toEqual(['b', 'c', 'a']);
+    expect(rankStandings(rows, byPoints, records, ['fewest_losses', 'tiebreaker']).map(row => row.user_id))
+      .toEqual(['b', 'a', 'c']);
+  });
+
+  it('ranks a missing tiebreaker entry behind any entry', () => {
+    const records = [
+      { user_id: 'a', losses: 0, weeks: [week(1, 3)] },
+      { user_id: 'c', losses: 0, weeks: [week(1, 3, 30)] },
+    ];
+
+    expect(rankStandings(rows, byPoints, records, ['tiebreaker']).map(row => row.user_id)).toEqual(['b', 'c', 'a']);
+  });
+
+  it('counts head-to-head and submission weeks against the tied group', () => {
+    const seasonRows = [
+      { user_id: 'a', points: 6 },
+      { user_id: 'c', points: 6 },
+    ];
+    const records = [
+      { user_id: 'a', losses: 0, weeks: [week(1, 1, null, '2025-08-28T15:00:00Z'), week(2, 5, null, '2025-09-04T15:00:00Z')] },
+      { user_id: 'c', losses: 0, weeks: [week(1, 3, null, '2025-08-27T15:00:00Z'), week(2, 3, null, '2025-09-03T15:00:00Z')] },
+    ];
+
+    // One week each head-to-head, but c got in first both weeks
+    expect(rankStandings(seasonRows, byPoints, records, ['head_to_head', 'earliest_submission']).map(row => row.user_id))
+      .toEqual(['c', 'a']);
+  });
+});
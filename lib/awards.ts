@@ -0,0 +1,133 @@
+import { getPickGrade, getPickMargin, isGameFinal } from './grading';
+import { getPickMarket } from './pick-mode';
+import type { Game, Pick, PickFields, WeeklyStanding } from './supabase';
+
+// Weekly and season superlatives, worked out from graded picks and
+// `weekly_standings` once a week is final. Every award goes to all members who
+// tie for it.
+//
+//   top_score         most points in the week
+//   perfect_week      every pick a win
+//   biggest_underdog  covering pick with the most points
+//   lone_wolf         winning pick nobody else in the league made, against
+//                     at least one member on the other side
+//   worst_beat        pick lost by half a point
+//
+// Season awards go to the best single week for top_score and
+// biggest_underdog, and to whoever collected the award most often otherwise.
+
+export type AwardKind = 'top_score' | 'perfect_week' | 'biggest_underdog' | 'lone_wolf' | 'worst_beat';
+
+export type Award = {
+  kind: AwardKind;
+  week: number | null;   // null for season awards
+  user_id: string;
+  value: number;         // Points, underdog line or count, depending on the award
+  detail: string;        // e.g. "DAL +14.5" or "3 perfect weeks"
+};
+
+export const AWARDS: Record<AwardKind, { title: string; icon: string }> = {
+  top_score: { title: 'Top Score', icon: '🥇' },
+  perfect_week: { title: 'Perfect Week', icon: '💯' },
+  biggest_underdog: { title: 'Biggest Underdog Cover', icon: '🐶' },
+  lone_wolf: { title: 'Lone Wolf', icon: '🐺' },
+  worst_beat: { title: 'Worst Beat', icon: '💔' },
+};
+
+// Season awards counted by how often a member won the weekly award
+const COUNTED_AWARDS: Partial<Record<AwardKind, string>> = {
+  perfect_week: 'perfect week',
+  lone_wolf: 'lone wolf win',
+  worst_beat: 'half-point loss',
+};
+
+type AwardStanding = PickFields<WeeklyStanding, 'user_id' | 'week' | 'wins' | 'losses' | 'pushes' | 'points'>;
+
+type AwardPick = PickFields<Pick, 'user_id' | 'week' | 'game_id' | 'side' | 'line_value'> &
+  Partial<PickFields<Pick, 'confidence' | 'result' | 'points'>> & {
+    games: PickFields<Game, 'home' | 'away' | 'status' | 'home_score' | 'away_score'> | null;
+  };
+
+// e.g. "DAL +3.5", "PHI" for a straight-up pick, "OVER 52.5"
+function describeAwardPick(pick: AwardPick): string {
+  if (getPickMarket(pick.side) === 'total') return `${pick.side} ${pick.line_value}`;
+  const team = (pick.side === 'HOME' ? pick.games?.home : pick.games?.away) ?? pick.side;
+  if (pick.line_value === 0) return team;
+  return `${team} ${pick.line_value > 0 ? '+' : ''}${pick.line_value}`;
+}
+
+// Every item sharing the highest `valueOf`
+function leaders<T>(items: T[], valueOf: (item: T) => number): T[] {
+  if (items.length === 0) return [];
+  const best = Math.max(...items.map(valueOf));
+  return items.filter(item => valueOf(item) === best);
+}
+
+/**
+ * Awards for one week from its standings rows and picks.
+ */
+export function buildWeeklyAwards(week: number, standings: AwardStanding[], picks: AwardPick[]): Award[] {
+  const rows = standings.filter(row => row.week === week);
+  const graded = picks
+    .filter(pick => pick.week === week && pick.games && isGameFinal(pick.games))
+    .map(pick => ({ pick, result: getPickGrade(pick, pick.games, 0)?.result }));
+  const wins = graded.filter(({ result }) => result === 'WIN').map(({ pick }) => pick);
+  const award = (kind: AwardKind, user_id: string, value: number, detail: string): Award =>
+    ({ kind, week, user_id, value, detail });
+
+  const topScores = rows.some(row => row.points > 0) ? leaders(rows, row => row.points) : [];
+
+  const perfectWeeks = rows.filter(row => row.wins > 0 && row.losses === 0 && row.pushes === 0);
+
+  const underdogCovers = leaders(
+    wins.filter(pick => getPickMarket(pick.side) === 'spread' && pick.line_value > 0),
+    pick => pick.line_value
+  );
+
+  const loneWolves = wins.filter(pick => {
+    const sameMarket = picks.filter(other => other.week === week && other.game_id === pick.game_id &&
+      getPickMarket(other.side) === getPickMarket(pick.side));
+    const sameSide = sameMarket.filter(other => other.side === pick.side);
+    return sameSide.length === 1 && sameMarket.length > 1;
+  });
+
+  const worstBeats = graded
+    .filter(({ pick, result }) => result === 'LOSS' &&
+      getPickMargin({ home_score: pick.games!.home_score as number, away_score: pick.games!.away_score as number }, pick) === -0.5)
+    .map(({ pick }) => pick);
+
+  return [
+    ...topScores.map(row => award('top_score', row.user_id, row.points, `${row.points} pts`)),
+    ...perfectWeeks.map(row => award('perfect_week', row.user_id, row.wins, `${row.wins}-0`)),
+    ...underdogCovers.map(pick => award('biggest_underdog', pick.user_id, pick.line_value, describeAwardPick(pick))),
+    ...loneWolves.map(pick => award('lone_wolf', pick.user_id, 1, describeAwardPick(pick))),
+    ...worstBeats.map(pick => award('worst_beat', pick.user_id, 0.5, describeAwardPick(pick))),
+  ];
+}
+
+/**
+ * Season awards from every week's awards.
+ */
+export function buildSeasonAwards(weekly: Award[]): Award[] {
+  return (Object.keys(AWARDS) as AwardKind[]).flatMap(kind => {
+    const awards = weekly.filter(award => award.kind === kind);
+    const noun = COUNTED_AWARDS[kind];
+
+    if (!noun) {
+      // A member who matched their best in more than one week is listed once
+      return leaders(awards, award => award.value)
+        .filter((award, index, best) => best.findIndex(other => other.user_id === award.user_id) === index)
+        .map(award => ({ ...award, week: null, detail: `${award.detail} (Week ${award.week})` }));
+    }
+
+    const counts = new Map<string, number>();
+    awards.forEach(award => counts.set(award.user_id, (counts.get(award.user_id) ?? 0) + 1));
+    return leaders(Array.from(counts.entries()), ([, count]) => count).map(([user_id, count]) => ({
+      kind,
+      week: null,
+      user_id,
+      value: count,
+      detail: `${count} ${noun}${count === 1 ? '' : 's'}`,
+    }));
+  });
+}
@@ -0,0 +1,60 @@
+import { isSamePick } from './pick-mode';
+import type { Pick } from './supabase';
+
+// Confidence scoring: each weekly pick gets a distinct value from 1 (least
+// sure) to N (most sure), where N is the number of picks the league makes
+// each week. A correct pick earns its value (see lib/grading).
+
+type RankedPick = {
+  game_id: Pick['game_id'];
+  side: Pick['side'];
+  confidence?: Pick['confidence'];
+};
+
+// Values offered for a week, highest first
+export function getConfidenceValues(pickCount: number): number[] {
+  return Array.from({ length: pickCount }, (_, index) => pickCount - index);
+}
+
+/**
+ * The highest value not yet held by one of `picks`, or null when every value
+ * is taken.
+ */
+export function nextConfidenceValue(picks: RankedPick[], pickCount: number): number | null {
+  const used = new Set(picks.map(pick => pick.confidence));
+  return getConfidenceValues(pickCount).find(value => !used.has(value)) ?? null;
+}
+
+/**
+ * Give `value` to `target`. A pick already holding that value swaps to the
+ * target's old value so every value stays unique.
+ */
+export function assignConfidence<T extends RankedPick>(picks: T[], target: RankedPick, value: number): T[] {
+  const previous = picks.find(pick => isSamePick(pick, target))?.confidence ?? null;
+
+  return picks.map(pick => {
+    if (isSamePick(pick, target)) return { ...pick, confidence: value };
+    if (pick.confidence === value) return { ...pick, confidence: previous };
+    return pick;
+  });
+}
+
+/**
+ * Check that `picks` use each value from 1..pickCount exactly once. Returns
+ * a message describing the first problem, or null when the picks are valid.
+ */
+export function validateConfidence(picks: RankedPick[], pickCount: number): string | null {
+  const seen = new Set<number>();
+
+  for (const pick of picks) {
+    const value = pick.confidence;
+    if (value == null) return 'Assign a confidence value to every pick';
+    if (!Number.isInteger(value) || value < 1 || value > pickCount) {
+      return `Confidence values must be between 1 and ${pickCount}`;
+    }
+    if (seen.has(value)) return `Confidence ${value} is used more than once`;
+    seen.add(value);
+  }
+
+  return null;
+}
@@ -0,0 +1,81 @@
+import { isPickVisible } from './member-stats';
+import type { Pick, PickFields } from './supabase';
+
+// Where the league landed on each game's side pick. A game's consensus is
+// revealed only once every pick on it is visible to the viewer (see
+// isPickVisible); until then the viewer learns how many picks were made and
+// nothing about which way they went, so sides are only ever fetched for
+// revealed games (see getRevealedGameIds). Totals picks aren't counted.
+
+export type GameConsensus = {
+  pick_count: number;
+  revealed: boolean;
+  home: string[];   // User ids, empty until revealed
+  away: string[];
+};
+
+// A side pick without its side, which is all that's fetched up front
+export type ConsensusPick = PickFields<Pick, 'user_id' | 'game_id'> & Partial<PickFields<Pick, 'unlock_at'>>;
+export type ConsensusSide = PickFields<Pick, 'user_id' | 'game_id' | 'side'>;
+
+function groupByGame(picks: ConsensusPick[]): Record<string, ConsensusPick[]> {
+  const byGame: Record<string, ConsensusPick[]> = {};
+  picks.forEach(pick => {
+    byGame[pick.game_id] = [...(byGame[pick.game_id] ?? []), pick];
+  });
+  return byGame;
+}
+
+/**
+ * Games whose side picks are all visible to the viewer, the only games whose
+ * sides may be fetched.
+ */
+export function getRevealedGameIds(
+  picks: ConsensusPick[],
+  viewerId: string | null,
+  now: Date = new Date()
+): string[] {
+  return Object.entries(groupByGame(picks))
+    .filter(([, gamePicks]) => gamePicks.every(pick => isPickVisible(pick, viewerId, now)))
+    .map(([gameId]) => gameId);
+}
+
+/**
+ * Consensus for every game with at least one side pick, keyed by game id.
+ * `sides` only needs to cover the revealed games; sides for any other game
+ * are ignored.
+ */
+export function buildSlateConsensus(
+  picks: ConsensusPick[],
+  sides: ConsensusSide[],
+  viewerId: string | null,
+  now: Date = new Date()
+): Record<string, GameConsensus> {
+  const revealedGameIds = new Set(getRevealedGameIds(picks, viewerId, now));
+
+  const consensus: Record<string, GameConsensus> = {};
+  Object.entries(groupByGame(picks)).forEach(([gameId, gamePicks]) => {
+    const revealed = revealedGameIds.has(gameId);
+    const usersOn = (side: Pick['side']) =>
+      revealed
+        ? sides.filter(pick => pick.game_id === gameId && pick.side === side).map(pick => pick.user_id)
+        : [];
+
+    consensus[gameId] = {
+      pick_count: gamePicks.length,
+      revealed,
+      home: usersOn('HOME'),
+      away: usersOn('AWAY'),
+    };
+  });
+  return consensus;
+}
+
+// Whole-number percentages of the league on each side, summing to 100
+export function getConsensusShare(consensus: GameConsensus): { home: number; away: number } {
+  const total = consensus.home.length + consensus.away.length;
+  if (total === 0) return { home: 0, away: 0 };
+
+  const home = Math.round((consensus.home.length / total) * 100);
+  return { home, away: 100 - home };
+}
@@ -0,0 +1,53 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { EMPTY_PICK_DRAFTS, type PickDrafts } from './pick-drafts';
+import type { Pick } from './supabase';
+
+// Unsaved pick changes on the device, one entry per player, league, season
+// and week, so a player's selections survive leaving the slate, a refresh or
+// the app being closed, and never reach whoever signs in next. An empty set of
+// changes removes the entry.
+
+const KEY_PREFIX = 'pick-drafts';
+
+export function getDraftStorageKey(userId: string, leagueId: string, season: number, week: number): string {
+  return `${KEY_PREFIX}:${userId}:${leagueId}:${season}:${week}`;
+}
+
+export async function loadPickDrafts(userId: string, leagueId: string, season: number, week: number): Promise<PickDrafts> {
+  const stored = await AsyncStorage.getItem(getDraftStorageKey(userId, leagueId, season, week));
+  if (!stored) return EMPTY_PICK_DRAFTS;
+
+  let parsed: Partial<PickDrafts>;
+  try {
+    parsed = JSON.parse(stored) as Partial<PickDrafts>;
+  } catch (error) {
+    console.error('Discarding unreadable drafts:', error);
+    return EMPTY_PICK_DRAFTS;
+  }
+
+  // Only ever the player's own picks, whatever ended up under their key
+  const isOwn = (pick: Pick) => pick.user_id === userId;
+  return {
+    drafts: Array.isArray(parsed.drafts) ? parsed.drafts.filter(isOwn) : [],
+    dropped: Array.isArray(parsed.dropped) ? parsed.dropped.filter(isOwn) : [],
+  };
+}
+
+export async function savePickDrafts(
+  userId: string,
+  leagueId: string,
+  season: number,
+  week: number,
+  { drafts, dropped }: PickDrafts
+): Promise<void> {
+  const key = getDraftStorageKey(userId, leagueId, season, week);
+  if (drafts.length === 0 && dropped.length === 0) {
+    await AsyncStorage.removeItem(key);
+    return;
+  }
+  await AsyncStorage.setItem(key, JSON.stringify({ drafts, dropped, saved_at: new Date().toISOString() }));
+}
+
+export async function clearPickDrafts(userId: string, leagueId: string, season: number, week: number): Promise<void> {
+  await AsyncStorage.removeItem(getDraftStorageKey(userId, leagueId, season, week));
+}
@@ -0,0 +1,160 @@
+import { getPickGrade } from './grading';
+import { getPickMarket } from './pick-mode';
+import type { SeasonStanding } from './standings';
+import type { Game, Pick, PickFields, WeeklyStanding } from './supabase';
+import type { Ranked } from './tiebreakers';
+
+// Commissioner exports of standings and the pick log for a season's week
+// range, as CSV or JSON. Commissioners feed these into their own payout
+// spreadsheets, so the columns below are a public format: add new columns at
+// the end and never rename, reorder or drop one.
+//
+// Members are identified by user id and email. Empty cells stand for values
+// that don't apply (a pending pick's result, a totals pick's team).
+
+export type ExportKind = 'weekly_standings' | 'season_standings' | 'picks';
+
+export type ExportFormat = 'csv' | 'json';
+
+export const EXPORT_KINDS: Record<ExportKind, { label: string; fileName: string }> = {
+  weekly_standings: { label: 'Weekly Standings', fileName: 'weekly-standings' },
+  season_standings: { label: 'Season Standings', fileName: 'season-standings' },
+  picks: { label: 'Pick Log', fileName: 'picks' },
+};
+
+export const EXPORT_COLUMNS = {
+  weekly_standings: [
+    'season', 'week', 'rank', 'member_id', 'member', 'wins', 'losses', 'pushes', 'points',
+  ],
+  season_standings: [
+    'season', 'first_week', 'last_week', 'rank', 'member_id', 'member', 'wins', 'losses', 'pushes', 'points',
+    'weeks_played', 'win_pct', 'qualified',
+  ],
+  picks: [
+    'season', 'week', 'member_id', 'member', 'game_id', 'away', 'home', 'kickoff', 'market', 'side', 'team',
+    'line', 'confidence', 'result', 'points', 'submitted_at',
+  ],
+} as const satisfies Record<ExportKind, readonly string[]>;
+
+export type ExportValue = string | number | boolean | null;
+
+export type ExportRow = Record<string, ExportValue>;
+
+type ExportPick = PickFields<Pick, 'user_id' | 'season' | 'week' | 'game_id' | 'side' | 'line_value' | 'created_at'> &
+  Partial<PickFields<Pick, 'confidence' | 'result' | 'points'>> & {
+    games: PickFields<Game, 'home' | 'away' | 'kickoff' | 'status' | 'home_score' | 'away_score'> | null;
+  };
+
+export type LeagueExport = {
+  season: number;
+  firstWeek: number;
+  lastWeek: number;
+  pushPoints: number;
+  emails: Record<string, string>;   // Member emails by user id
+  weeklyStandings: Ranked<PickFields<WeeklyStanding, 'user_id' | 'week' | 'wins' | 'losses' | 'pushes' | 'points'>>[];
+  seasonStandings: Ranked<SeasonStanding>[];   // Totals over the exported weeks
+  picks: ExportPick[];
+};
+
+/**
+ * One row per weekly standing, season standing or pick, keyed by the kind's
+ * columns. Weekly rows run by week then rank; picks by week, member and kickoff.
+ */
+export function buildExportRows(kind: ExportKind, data: LeagueExport): ExportRow[] {
+  const member = (userId: string) => data.emails[userId] ?? '';
+
+  if (kind === 'weekly_standings') {
+    return [...data.weeklyStandings]
+      .sort((a, b) => a.week - b.week || a.rank - b.rank)
+      .map(standing => ({
+        season: data.season,
+        week: standing.week,
+        rank: standing.rank,
+        member_id: standing.user_id,
+        member: member(standing.user_id),
+        wins: standing.wins,
+        losses: standing.losses,
+        pushes: standing.pushes,
+        points: standing.points,
+      }));
+  }
+
+  if (kind === 'season_standings') {
+    return data.seasonStandings.map(standing => ({
+      season: data.season,
+      first_week: data.firstWeek,
+      last_week: data.lastWeek,
+      rank: standing.rank,
+      member_id: standing.user_id,
+      member: member(standing.user_id) || standing.user_email,
+      wins: standing.total_wins,
+      losses: standing.total_losses,
+      pushes: standing.total_pushes,
+      points: standing.total_points,
+      weeks_played: standing.weeks_played,
+      win_pct: Math.round(standing.win_percentage * 1000) / 1000,
+      qualified: standing.qualified,
+    }));
+  }
+
+  return [...data.picks]
+    .sort((a, b) =>
+      a.week - b.week ||
+      member(a.user_id).localeCompare(member(b.user_id)) ||
+      (a.games?.kickoff ?? '').localeCompare(b.games?.kickoff ?? ''))
+    .map(pick => {
+      const market = getPickMarket(pick.side);
+      const grade = getPickGrade(pick, pick.games, data.pushPoints);
+      const team = market === 'spread' ? (pick.side === 'HOME' ? pick.games?.home : pick.games?.away) : null;
+
+      return {
+        season: pick.season,
+        week: pick.week,
+        member_id: pick.user_id,
+        member: member(pick.user_id),
+        game_id: pick.game_id,
+        away: pick.games?.away ?? null,
+        home: pick.games?.home ?? null,
+        kickoff: pick.games?.kickoff ?? null,
+        market,
+        side: pick.side,
+        team: team ?? null,
+        line: pick.line_value,
+        confidence: pick.confidence ?? null,
+        result: grade?.result ?? null,
+        points: grade?.points ?? null,
+        submitted_at: pick.created_at,
+      };
+    });
+}
+
+// RFC 4180: quote cells holding a delimiter, quote or line break
+function formatCsvCell(value: ExportValue): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function formatCsv(kind: ExportKind, rows: ExportRow[]): string {
+  const columns: readonly string[] = EXPORT_COLUMNS[kind];
+  return [columns, ...rows.map(row => columns.map(column => row[column] ?? null))]
+    .map(cells => cells.map(formatCsvCell).join(','))
+    .join('\r\n');
+}
+
+// Keys follow the column order so diffs between exports stay readable
+export function formatJson(kind: ExportKind, rows: ExportRow[]): string {
+  const columns: readonly string[] = EXPORT_COLUMNS[kind];
+  const ordered = rows.map(row => Object.fromEntries(columns.map(column => [column, row[column] ?? null])));
+  return JSON.stringify(ordered, null, 2);
+}
+
+export function formatExport(kind: ExportKind, format: ExportFormat, data: LeagueExport): string {
+  const rows = buildExportRows(kind, data);
+  return format === 'csv' ? formatCsv(kind, rows) : formatJson(kind, rows);
+}
+
+// e.g. "picks-2025-w1-5.csv"
+export function getExportFileName(kind: ExportKind, format: ExportFormat, data: LeagueExport): string {
+  return `${EXPORT_KINDS[kind].fileName}-${data.season}-w${data.firstWeek}-${data.lastWeek}.${format}`;
+}
@@ -0,0 +1,138 @@
+import type { Game, Pick } from './supabase';
+
+// Pure grading logic shared by the app and the server-side grader.
+// Keep this module free of React Native / Supabase imports so it can be
+// bundled into an edge function unchanged.
+
+export type PickResult = NonNullable<Pick['result']>;
+
+export type GradedPick = {
+  result: PickResult;
+  points: number;
+};
+
+export type FinalScore = {
+  home_score: number;
+  away_score: number;
+};
+
+type GradablePick = {
+  side: Pick['side'];
+  line_value: number;
+  confidence?: Pick['confidence'];
+  result?: Pick['result'];
+  points?: number;
+};
+
+type ScoredGame = {
+  status: Game['status'];
+  home_score?: Game['home_score'];
+  away_score?: Game['away_score'];
+};
+
+const FINAL_STATUSES = ['final', 'completed', 'post'];
+
+// Points awarded for a correct pick in flat ATS scoring
+export const WIN_POINTS = 1;
+export const LOSS_POINTS = 0;
+
+export type WeeklyTally = {
+  wins: number;
+  losses: number;
+  pushes: number;
+  points: number;
+};
+
+// Confidence picks scale wins and losses by their rank; flat picks weigh 1.
+// A push earns the league's flat push points whatever the rank.
+function pointsFor(result: PickResult, pick: GradablePick, pushPoints: number): number {
+  const weight = pick.confidence ?? 1;
+  if (result === 'WIN') return WIN_POINTS * weight;
+  if (result === 'PUSH') return pushPoints;
+  return LOSS_POINTS * weight;
+}
+
+export function isGameFinal(game: ScoredGame): boolean {
+  return (
+    FINAL_STATUSES.includes((game.status || '').toLowerCase()) &&
+    typeof game.home_score === 'number' &&
+    typeof game.away_score === 'number'
+  );
+}
+
+// How far the pick finished ahead of its number, rounded to the half point
+// lines move in to absorb floating point noise
+export function getPickMargin(score: FinalScore, pick: GradablePick): number {
+  let margin: number;
+  if (pick.side === 'OVER' || pick.side === 'UNDER') {
+    const total = score.home_score + score.away_score;
+    margin = pick.side === 'OVER' ? total - pick.line_value : pick.line_value - total;
+  } else {
+    const pickedScore = pick.side === 'HOME' ? score.home_score : score.away_score;
+    const otherScore = pick.side === 'HOME' ? score.away_score : score.home_score;
+    margin = pickedScore + pick.line_value - otherScore;
+  }
+  return Math.round(margin * 2) / 2;
+}
+
+/**
+ * Grade a single pick against a final score.
+ *
+ * A side pick adds `line_value` to the picked team's score and compares it
+ * with the opponent's; a total pick compares the combined score with the
+ * `line_value` total. Ahead is a WIN, behind is a LOSS and level is a PUSH,
+ * which earns the league's `push_points`. In confidence leagues a win's
+ * points are multiplied by the pick's confidence value; a push is not.
+ */
+export function gradePick(score: FinalScore, pick: GradablePick, pushPoints: number): GradedPick {
+  const margin = getPickMargin(score, pick);
+  const result: PickResult = margin > 0 ? 'WIN' : margin < 0 ? 'LOSS' : 'PUSH';
+  return { result, points: pointsFor(result, pick, pushPoints) };
+}
+
+/**
+ * Grade a pick from its game row, or return null while the game is not final.
+ */
+export function gradePickForGame(
+  pick: GradablePick,
+  game: ScoredGame | null | undefined,
+  pushPoints: number
+): GradedPick | null {
+  if (!game || !isGameFinal(game)) return null;
+  return gradePick(
+    { home_score: game.home_score as number, away_score: game.away_score as number },
+    pick,
+    pushPoints
+  );
+}
+
+/**
+ * Result to display for a pick: the stored grade when the server has graded
+ * it, otherwise a local grade once the game is final.
+ */
+export function getPickGrade(
+  pick: GradablePick,
+  game: ScoredGame | null | undefined,
+  pushPoints: number
+): GradedPick | null {
+  if (pick.result) {
+    return { result: pick.result, points: pick.points ?? pointsFor(pick.result, pick, pushPoints) };
+  }
+  return gradePickForGame(pick, game, pushPoints);
+}
+
+/**
+ * Sum graded picks into a `weekly_standings` row. Points are summed rather
+ * than counted, so confidence leagues rank by confidence points.
+ */
+export function tallyGrades(grades: (GradedPick | null)[]): WeeklyTally {
+  return grades.reduce<WeeklyTally>((tally, grade) => {
+    if (!grade) return tally;
+    return {
+      wins: tally.wins + (grade.result === 'WIN' ? 1 : 0),
+      losses: tally.losses + (grade.result === 'LOSS' ? 1 : 0),
+      pushes: tally.pushes + (grade.result === 'PUSH' ? 1 : 0),
+      points: tally.points + grade.points,
+    };
+  }, { wins: 0, losses: 0, pushes: 0, points: 0 });
+}
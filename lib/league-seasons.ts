@@ -0,0 +1,47 @@
+import type { SeasonStanding } from './standings';
+import type { LeagueChampion, LeagueSeason, PickFields } from './supabase';
+import type { Ranked } from './tiebreakers';
+
+// The seasons a league has played. Weekly data (picks, standings, matchups,
+// tiebreakers) is keyed by season, so members and settings carry over on
+// their own and a new season starts with a clean slate. When the commissioner
+// starts the next season the finished one is archived: its champions are
+// recorded and its standings and picks become read-only.
+//
+// Leagues from before seasons were recorded still list every season they
+// have standings for.
+
+export type SeasonSummary = {
+  season: number;
+  archived: boolean;
+  champions: string[];  // User ids
+};
+
+/**
+ * Every season the league has recorded, played or is playing, latest first.
+ */
+export function buildSeasonHistory(
+  records: PickFields<LeagueSeason, 'season' | 'completed_at'>[],
+  champions: PickFields<LeagueChampion, 'season' | 'user_id'>[],
+  playedSeasons: number[],
+  currentSeason: number
+): SeasonSummary[] {
+  const seasons = new Set([...records.map(record => record.season), ...playedSeasons, currentSeason]);
+
+  return Array.from(seasons)
+    .sort((a, b) => b - a)
+    .map(season => ({
+      season,
+      archived: !!records.find(record => record.season === season)?.completed_at,
+      champions: champions.filter(champion => champion.season === season).map(champion => champion.user_id),
+    }));
+}
+
+export function isSeasonArchived(history: SeasonSummary[], season: number): boolean {
+  return history.some(summary => summary.season === season && summary.archived);
+}
+
+// Everyone sharing first place among qualified players
+export function getChampions<T extends Ranked<PickFields<SeasonStanding, 'qualified'>>>(standings: T[]): T[] {
+  return standings.filter(standing => standing.rank === 1 && standing.qualified);
+}
@@ -0,0 +1,174 @@
+import type { SeasonStanding } from './standings';
+import type { League, LeagueDues, PickFields, WeeklyStanding } from './supabase';
+import {
+  buildTiebreakRecords,
+  DEFAULT_TIEBREAK_RULES,
+  rankStandings,
+  type PickSubmission,
+  type Ranked,
+  type TiebreakerWithGame,
+} from './tiebreakers';
+
+// Dues and prize bookkeeping for a season. Nothing here moves money: the
+// commissioner records who has paid the entry fee, and payouts are worked out
+// from the standings with the league's payout structure.
+//
+//   weekly  `weekly_payout` to the week's high score once the week is final,
+//           with ties on points going through the league's tie-break rules
+//   season  `season_payouts[n]` to the player in place n + 1, final once the
+//           season is archived
+//
+// Players still tied share the prizes for the places they cover, so two
+// players tied for 2nd split the 2nd and 3rd place prizes. Dues count what
+// each member actually paid; the current entry fee applies only to members
+// who haven't paid yet.
+
+export type Payout = {
+  kind: 'weekly' | 'season';
+  week: number | null;    // null for season prizes
+  place: number | null;   // null for weekly prizes
+  user_id: string;
+  amount: number;
+  final: boolean;         // false while the week or season can still change
+};
+
+export type MemberLedger = {
+  user_id: string;
+  paid: boolean;
+  dues: number;           // Amount paid, or the current entry fee while unpaid
+  winnings: number;       // Final payouts
+  projected: number;      // Payouts that aren't final yet
+};
+
+export type Ledger = {
+  members: MemberLedger[];
+  payouts: Payout[];      // Season prizes first, then weeks latest first
+  collected: number;
+  outstanding: number;
+  paid_out: number;       // Final payouts
+};
+
+type PayoutRules = Partial<PickFields<League, 'entry_fee' | 'weekly_payout' | 'season_payouts'>> | null | undefined;
+
+type TiebreakRules = Partial<PickFields<League, 'tiebreak_rules'>> | null | undefined;
+
+type WeekRow = PickFields<WeeklyStanding, 'user_id' | 'week' | 'points' | 'losses'>;
+
+export type DuesPayment = PickFields<LeagueDues, 'user_id' | 'amount'>;
+
+type RankedStanding = Ranked<PickFields<SeasonStanding, 'user_id' | 'qualified'>>;
+
+// Even shares to the cent that add back up to the amount, with any leftover
+// cents going to the first shares ($10 three ways is 3.34, 3.33, 3.33)
+function split(amount: number, ways: number): number[] {
+  const cents = Math.round(amount * 100);
+  const share = Math.floor(cents / ways);
+  const leftover = cents - share * ways;
+  return Array.from({ length: ways }, (_, index) => (share + (index < leftover ? 1 : 0)) / 100);
+}
+
+function sum(amounts: number[]): number {
+  return Math.round(amounts.reduce((total, amount) => total + amount, 0) * 100) / 100;
+}
+
+/**
+ * The weekly prize for every week with a score. Players level on the week's
+ * most points go through the league's tie-break rules, and whoever is still
+ * tied after them shares the prize.
+ */
+export function buildWeeklyPayouts(
+  rows: WeekRow[],
+  amount: number,
+  rules: TiebreakRules,
+  entries: TiebreakerWithGame[],
+  picks: PickSubmission[],
+  isWeekFinal: (week: number) => boolean
+): Payout[] {
+  if (amount <= 0) return [];
+  const weeks = Array.from(new Set(rows.map(row => row.week))).sort((a, b) => b - a);
+
+  return weeks.flatMap(week => {
+    const weekRows = rows.filter(row => row.week === week);
+    const ranked = rankStandings(
+      weekRows,
+      (a, b) => b.points - a.points,
+      buildTiebreakRecords(weekRows, entries, picks),
+      rules?.tiebreak_rules ?? DEFAULT_TIEBREAK_RULES
+    );
+    if (ranked[0].points <= 0) return [];
+
+    const winners = ranked.filter(row => row.rank === 1);
+    const shares = split(amount, winners.length);
+    return winners.map((row, index) => ({
+      kind: 'weekly' as const,
+      week,
+      place: null,
+      user_id: row.user_id,
+      amount: shares[index],
+      final: isWeekFinal(week),
+    }));
+  });
+}
+
+/**
+ * Season prizes by place among qualified players.
+ */
+export function buildSeasonPayouts(standings: RankedStanding[], prizes: number[], final: boolean): Payout[] {
+  const qualified = standings.filter(standing => standing.qualified);
+  const payouts: Payout[] = [];
+
+  let place = 1;
+  while (place <= prizes.length && place <= qualified.length) {
+    const rank = qualified[place - 1].rank;
+    const tied = qualified.filter(standing => standing.rank === rank);
+    const pot = sum(prizes.slice(place - 1, place - 1 + tied.length));
+
+    if (pot > 0) {
+      const shares = split(pot, tied.length);
+      tied.forEach((standing, index) => payouts.push({
+        kind: 'season',
+        week: null,
+        place,
+        user_id: standing.user_id,
+        amount: shares[index],
+        final,
+      }));
+    }
+    place += tied.length;
+  }
+
+  return payouts;
+}
+
+export function buildLedger(
+  memberIds: string[],
+  payments: DuesPayment[],
+  rules: PayoutRules,
+  payouts: Payout[]
+): Ledger {
+  const fee = rules?.entry_fee ?? 0;
+  const members = memberIds.map(userId => {
+    const payment = payments.find(candidate => candidate.user_id === userId);
+    const own = payouts.filter(payout => payout.user_id === userId);
+    return {
+      user_id: userId,
+      paid: !!payment,
+      dues: payment ? payment.amount : fee,
+      winnings: sum(own.filter(payout => payout.final).map(payout => payout.amount)),
+      projected: sum(own.filter(payout => !payout.final).map(payout => payout.amount)),
+    };
+  });
+
+  return {
+    members,
+    payouts,
+    collected: sum(members.filter(member => member.paid).map(member => member.dues)),
+    outstanding: sum(members.filter(member => !member.paid).map(member => member.dues)),
+    paid_out: sum(payouts.filter(payout => payout.final).map(payout => payout.amount)),
+  };
+}
+
+// e.g. "$20" or "$12.50"
+export function formatMoney(amount: number): string {
+  return Number.isInteger(amount) ? `$${amount}` : `$${amount.toFixed(2)}`;
+}
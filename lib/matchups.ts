@@ -0,0 +1,131 @@
+import type { Matchup, PickFields, WeeklyStanding } from './supabase';
+
+// Head-to-head play: each week every member is paired with another and
+// whoever scores more points that week takes the W. Schedules are round
+// robins built with the circle method; with an odd member count one player
+// sits out each week on a bye. Once every pairing has been played the rounds
+// repeat.
+
+export type MatchupPairing = PickFields<Matchup, 'week' | 'home_user_id' | 'away_user_id'>;
+
+export type MatchupResult = MatchupPairing & {
+  home_points: number;
+  away_points: number | null;     // null on a bye
+  winner_user_id: string | null;  // null on a bye, a tie or before the week is final
+  final: boolean;
+};
+
+export type HeadToHeadRecord = {
+  user_id: string;
+  wins: number;
+  losses: number;
+  ties: number;
+  points_for: number;
+  points_against: number;
+};
+
+type WeekPoints = PickFields<WeeklyStanding, 'user_id' | 'week' | 'points'>;
+
+// Rotate right by `steps`
+function rotate<T>(items: T[], steps: number): T[] {
+  const shift = steps % items.length;
+  return [...items.slice(items.length - shift), ...items.slice(0, items.length - shift)];
+}
+
+/**
+ * Pair `userIds` for each of `weeks`. The first player stays put while the
+ * rest rotate, so every player meets every other once per cycle; home and
+ * away alternate from round to round. `startRound` continues the rotation
+ * from a schedule that already has that many rounds played.
+ */
+export function generateRoundRobin(userIds: string[], weeks: number[], startRound = 0): MatchupPairing[] {
+  if (userIds.length < 2) return [];
+  const players: (string | null)[] = userIds.length % 2 === 1 ? [...userIds, null] : [...userIds];
+
+  const rounds = players.length - 1;
+  return weeks.flatMap((week, index) => {
+    const round = (startRound + index) % rounds;
+    const order = [players[0], ...rotate(players.slice(1), round)];
+
+    return Array.from({ length: order.length / 2 }, (_, slot) => {
+      const first = order[slot];
+      const second = order[order.length - 1 - slot];
+      if (first === null || second === null) {
+        return { week, home_user_id: (first ?? second) as string, away_user_id: null };
+      }
+      return round % 2 === 0
+        ? { week, home_user_id: first, away_user_id: second }
+        : { week, home_user_id: second, away_user_id: first };
+    });
+  });
+}
+
+/**
+ * Score each pairing from the week's standings. A player with no standings
+ * row scores zero; nobody wins until `isWeekFinal` says the week is over.
+ */
+export function scoreMatchups(
+  pairings: MatchupPairing[],
+  standings: WeekPoints[],
+  isWeekFinal: (week: number) => boolean
+): MatchupResult[] {
+  const pointsFor = (userId: string, week: number) =>
+    standings.find(row => row.user_id === userId && row.week === week)?.points ?? 0;
+
+  return pairings.map(pairing => {
+    const final = isWeekFinal(pairing.week);
+    const homePoints = pointsFor(pairing.home_user_id, pairing.week);
+    if (!pairing.away_user_id) {
+      return { ...pairing, home_points: homePoints, away_points: null, winner_user_id: null, final };
+    }
+
+    const awayPoints = pointsFor(pairing.away_user_id, pairing.week);
+    let winner: string | null = null;
+    if (final && homePoints !== awayPoints) {
+      winner = homePoints > awayPoints ? pairing.home_user_id : pairing.away_user_id;
+    }
+    return { ...pairing, home_points: homePoints, away_points: awayPoints, winner_user_id: winner, final };
+  });
+}
+
+/**
+ * Win-loss-tie records from final, non-bye matchups, best record first.
+ */
+export function buildHeadToHeadRecords(results: MatchupResult[]): HeadToHeadRecord[] {
+  const records = new Map<string, HeadToHeadRecord>();
+  const recordFor = (userId: string) => {
+    const record = records.get(userId) ??
+      { user_id: userId, wins: 0, losses: 0, ties: 0, points_for: 0, points_against: 0 };
+    records.set(userId, record);
+    return record;
+  };
+
+  results.forEach(result => {
+    if (!result.final || !result.away_user_id || result.away_points === null) return;
+
+    const home = recordFor(result.home_user_id);
+    const away = recordFor(result.away_user_id);
+    home.points_for += result.home_points;
+    home.points_against += result.away_points;
+    away.points_for += result.away_points;
+    away.points_against += result.home_points;
+
+    if (result.winner_user_id === null) {
+      home.ties += 1;
+      away.ties += 1;
+    } else {
+      const [winner, loser] = result.winner_user_id === home.user_id ? [home, away] : [away, home];
+      winner.wins += 1;
+      loser.losses += 1;
+    }
+  });
+
+  return Array.from(records.values()).sort((a, b) =>
+    (b.wins + b.ties / 2) - (a.wins + a.ties / 2) || b.points_for - a.points_for);
+}
+
+// e.g. "5-2" or "5-2-1" once there has been a tie
+export function formatHeadToHeadRecord(record: PickFields<HeadToHeadRecord, 'wins' | 'losses' | 'ties'> | undefined): string {
+  if (!record) return '0-0';
+  return `${record.wins}-${record.losses}${record.ties > 0 ? `-${record.ties}` : ''}`;
+}
@@ -0,0 +1,176 @@
+import { getPickGrade, type GradedPick, type PickResult } from './grading';
+import { getPickMarket } from './pick-mode';
+import { getEasternParts, getWindowForKickoff, WEEKDAYS, type PublishWindow } from './schedule';
+import type { Game, Pick, PickFields } from './supabase';
+
+// A member's pick history summarised into records. Only graded picks count,
+// and only picks the viewer may see: another member's picks stay out of the
+// numbers until they unlock, so the stats can't reveal a hidden pick.
+//
+// Team, favorite/underdog, home/away and spread breakdowns cover side picks;
+// day of week, publish window and streaks cover every pick. Pushes neither
+// extend nor break a streak.
+
+export type StatsRecord = {
+  wins: number;
+  losses: number;
+  pushes: number;
+};
+
+export type StatsBucket = StatsRecord & {
+  label: string;
+};
+
+export type Streak = {
+  result: Exclude<PickResult, 'PUSH'>;
+  length: number;
+};
+
+export type MemberStats = StatsRecord & {
+  points: number;
+  byTeam: StatsBucket[];           // Most picked first
+  favorites: StatsBucket[];        // Favorite, Underdog, Pick'em
+  homeAway: StatsBucket[];
+  spreadSizes: StatsBucket[];
+  byDay: StatsBucket[];            // Eastern kickoff day, Sunday first
+  byWindow: StatsBucket[];
+  longestWinStreak: number;
+  longestLossStreak: number;
+  currentStreak: Streak | null;
+};
+
+type StatsPick = PickFields<Pick, 'side' | 'line_value' | 'created_at'> & Partial<PickFields<Pick, 'confidence' | 'result' | 'points'>> & {
+  games: PickFields<Game, 'home' | 'away' | 'kickoff' | 'status' | 'home_score' | 'away_score'> | null;
+};
+
+type GradedStatsPick = StatsPick & { grade: GradedPick };
+
+// Upper bounds are inclusive; spreads move in half points
+const SPREAD_SIZES: { label: string; max: number }[] = [
+  { label: 'PK-2.5', max: 2.5 },
+  { label: '3-6.5', max: 6.5 },
+  { label: '7-9.5', max: 9.5 },
+  { label: '10+', max: Infinity },
+];
+
+const WINDOW_LABELS: Record<PublishWindow, string> = {
+  EARLY: 'Early',
+  MAIN: 'Main',
+  LABORDAY: 'Monday',
+};
+
+/**
+ * Whether `viewerId` may see a pick: always their own, otherwise once it
+ * unlocks. Picks without an unlock time are public.
+ */
+export function isPickVisible(
+  pick: PickFields<Pick, 'user_id'> & Partial<PickFields<Pick, 'unlock_at'>>,
+  viewerId: string | null,
+  now: Date = new Date()
+): boolean {
+  if (viewerId !== null && pick.user_id === viewerId) return true;
+  if (!pick.unlock_at) return true;
+  return now >= new Date(pick.unlock_at);
+}
+
+function addResult(record: StatsRecord, result: PickResult) {
+  if (result === 'WIN') record.wins += 1;
+  else if (result === 'LOSS') record.losses += 1;
+  else record.pushes += 1;
+}
+
+// Records grouped by `labelFor`, in `order` when given, otherwise most picked first
+function bucketBy(
+  picks: GradedStatsPick[],
+  labelFor: (pick: GradedStatsPick) => string | null,
+  order?: string[]
+): StatsBucket[] {
+  const buckets = new Map<string, StatsBucket>();
+  order?.forEach(label => buckets.set(label, { label, wins: 0, losses: 0, pushes: 0 }));
+
+  picks.forEach(pick => {
+    const label = labelFor(pick);
+    if (label === null) return;
+    const bucket = buckets.get(label) ?? { label, wins: 0, losses: 0, pushes: 0 };
+    addResult(bucket, pick.grade.result);
+    buckets.set(label, bucket);
+  });
+
+  const filled = Array.from(buckets.values()).filter(bucket => getPickCount(bucket) > 0);
+  return order ? filled : filled.sort((a, b) => getPickCount(b) - getPickCount(a) || a.label.localeCompare(b.label));
+}
+
+function getFavoriteLabel(lineValue: number): string {
+  if (lineValue < 0) return 'Favorite';
+  if (lineValue > 0) return 'Underdog';
+  return "Pick'em";
+}
+
+function getSpreadSizeLabel(lineValue: number): string {
+  const size = Math.abs(lineValue);
+  return SPREAD_SIZES.find(bucket => size <= bucket.max)!.label;
+}
+
+function getStreaks(picks: GradedStatsPick[]): PickFields<MemberStats, 'longestWinStreak' | 'longestLossStreak' | 'currentStreak'> {
+  let longestWinStreak = 0;
+  let longestLossStreak = 0;
+  let current: Streak | null = null;
+
+  picks.forEach(({ grade }) => {
+    if (grade.result === 'PUSH') return;
+    current = current?.result === grade.result
+      ? { result: grade.result, length: current.length + 1 }
+      : { result: grade.result, length: 1 };
+    if (current.result === 'WIN') longestWinStreak = Math.max(longestWinStreak, current.length);
+    else longestLossStreak = Math.max(longestLossStreak, current.length);
+  });
+
+  return { longestWinStreak, longestLossStreak, currentStreak: current };
+}
+
+export function getPickCount(record: StatsRecord): number {
+  return record.wins + record.losses + record.pushes;
+}
+
+// e.g. "12-8-1 (60%)", pushes left out of the percentage
+export function formatStatsRecord(record: StatsRecord): string {
+  const decided = record.wins + record.losses;
+  const percentage = decided > 0 ? ` (${Math.round((record.wins / decided) * 100)}%)` : '';
+  return `${record.wins}-${record.losses}${record.pushes > 0 ? `-${record.pushes}` : ''}${percentage}`;
+}
+
+/**
+ * Build a member's stats from their pick history. `isVisible` decides which
+ * picks the viewer may see; hidden and ungraded picks are ignored.
+ */
+export function buildMemberStats<T extends StatsPick>(
+  picks: T[],
+  pushPoints: number,
+  isVisible: (pick: T) => boolean
+): MemberStats {
+  const graded = picks
+    .filter(isVisible)
+    .map(pick => ({ ...pick, grade: getPickGrade(pick, pick.games, pushPoints) }))
+    .filter((pick): pick is T & GradedStatsPick => pick.grade !== null && pick.games !== null)
+    .sort((a, b) => a.games!.kickoff.localeCompare(b.games!.kickoff) || a.created_at.localeCompare(b.created_at));
+  const sides = graded.filter(pick => getPickMarket(pick.side) === 'spread');
+
+  const overall: StatsRecord = { wins: 0, losses: 0, pushes: 0 };
+  graded.forEach(pick => addResult(overall, pick.grade.result));
+
+  return {
+    ...overall,
+    points: graded.reduce((total, pick) => total + pick.grade.points, 0),
+    byTeam: bucketBy(sides, pick => (pick.side === 'HOME' ? pick.games!.home : pick.games!.away)),
+    favorites: bucketBy(sides, pick => getFavoriteLabel(pick.line_value), ['Favorite', 'Underdog', "Pick'em"]),
+    homeAway: bucketBy(sides, pick => (pick.side === 'HOME' ? 'Home' : 'Away'), ['Home', 'Away']),
+    spreadSizes: bucketBy(sides, pick => getSpreadSizeLabel(pick.line_value), SPREAD_SIZES.map(bucket => bucket.label)),
+    byDay: bucketBy(graded, pick => WEEKDAYS[getEasternParts(new Date(pick.games!.kickoff)).weekday], WEEKDAYS),
+    byWindow: bucketBy(
+      graded,
+      pick => WINDOW_LABELS[getWindowForKickoff(new Date(pick.games!.kickoff))],
+      Object.values(WINDOW_LABELS)
+    ),
+    ...getStreaks(graded),
+  };
+}
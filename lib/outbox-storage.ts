@@ -0,0 +1,40 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { OutboxEntry } from './pick-outbox';
+
+// Each player's pick outbox on the device, so queued changes survive the app
+// being closed before they are sent, and stay with the account that made
+// them when someone else signs in. One entry holds a player's whole queue; an
+// empty queue removes it.
+
+const KEY_PREFIX = 'pick-outbox';
+
+export function getOutboxStorageKey(userId: string): string {
+  return `${KEY_PREFIX}:${userId}`;
+}
+
+export async function loadOutbox(userId: string): Promise<OutboxEntry[]> {
+  const stored = await AsyncStorage.getItem(getOutboxStorageKey(userId));
+  if (!stored) return [];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stored);
+  } catch (error) {
+    console.error('Discarding unreadable pick outbox:', error);
+    return [];
+  }
+
+  // Only ever the player's own changes, whatever ended up under their key
+  return Array.isArray(parsed)
+    ? (parsed as OutboxEntry[]).filter(entry => entry?.pick?.user_id === userId)
+    : [];
+}
+
+export async function saveOutbox(userId: string, outbox: OutboxEntry[]): Promise<void> {
+  const key = getOutboxStorageKey(userId);
+  if (outbox.length === 0) {
+    await AsyncStorage.removeItem(key);
+    return;
+  }
+  await AsyncStorage.setItem(key, JSON.stringify(outbox));
+}
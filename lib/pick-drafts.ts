@@ -0,0 +1,94 @@
+import { getPickDrafts, mergeWeekPicks } from './pick-edits';
+import { describePick, getPickMarket, isSamePick } from './pick-mode';
+import { isPickLocked, type PickLockRules } from './schedule';
+import type { Game, LeagueSlateLine, Pick, PickFields } from './supabase';
+
+// Unsaved changes to a week's picks, kept on the device (see
+// lib/draft-storage) so they outlive the slate screen. Restored drafts are
+// checked against the latest slate and flagged when they can't be saved as
+// they stand:
+//
+//   locked        the game locked after the draft was made
+//   line_changed  the line moved (or was pulled); re-picking takes the new one
+//   off_slate     the game is no longer on the week's slate
+//
+// Straight-up side picks carry no line, so only their lock is checked.
+
+export type PickDrafts = {
+  drafts: Pick[];
+  dropped: Pick[];  // Submitted picks to delete on save
+};
+
+export type DraftIssue = 'locked' | 'line_changed' | 'off_slate';
+
+export type DraftFlag = {
+  game_id: string;
+  side: Pick['side'];
+  issue: DraftIssue;
+  line_value: number | null;  // The slate's current line for line_changed
+};
+
+type SlateGame = {
+  game: PickFields<Game, 'id' | 'kickoff'>;
+  line: PickFields<LeagueSlateLine, 'spread_home' | 'spread_away' | 'total'>;
+};
+
+export const EMPTY_PICK_DRAFTS: PickDrafts = { drafts: [], dropped: [] };
+
+// The slate's number for a pick's side: the spread, or the total for OVER/UNDER
+export function getSlateLineValue(side: Pick['side'], line: SlateGame['line']): number | null {
+  if (side === 'HOME') return line.spread_home;
+  if (side === 'AWAY') return line.spread_away;
+  return line.total ?? null;
+}
+
+/**
+ * Stored drafts brought up to date with the submitted picks: drops of picks
+ * that are gone or have changed are forgotten, and drafts the submitted picks
+ * already match are cleared.
+ */
+export function reconcilePickDrafts(submitted: Pick[], stored: PickDrafts): PickDrafts {
+  const dropped = stored.dropped.filter(drop =>
+    submitted.some(pick => isSamePick(pick, drop) && pick.side === drop.side));
+  const drafts = getPickDrafts(submitted, mergeWeekPicks(submitted, stored.drafts, dropped));
+  return { drafts, dropped };
+}
+
+/**
+ * Drafts and drops that can't be saved as they stand against `slate`.
+ */
+export function flagPickDrafts(
+  { drafts, dropped }: PickDrafts,
+  slate: SlateGame[],
+  rules: PickLockRules,
+  straightUp: boolean,
+  now: Date = new Date()
+): DraftFlag[] {
+  const flag = (pick: Pick, issue: DraftIssue, lineValue: number | null = null): DraftFlag =>
+    ({ game_id: pick.game_id, side: pick.side, issue, line_value: lineValue });
+
+  const draftFlags = drafts.flatMap(draft => {
+    const slateGame = slate.find(item => item.game.id === draft.game_id);
+    if (!slateGame) return [flag(draft, 'off_slate')];
+    if (isPickLocked(new Date(slateGame.game.kickoff), rules, now)) return [flag(draft, 'locked')];
+    if (straightUp && getPickMarket(draft.side) === 'spread') return [];
+
+    const current = getSlateLineValue(draft.side, slateGame.line);
+    return current === draft.line_value ? [] : [flag(draft, 'line_changed', current)];
+  });
+
+  const dropFlags = dropped.flatMap(drop => {
+    const slateGame = slate.find(item => item.game.id === drop.game_id);
+    return slateGame && isPickLocked(new Date(slateGame.game.kickoff), rules, now) ? [flag(drop, 'locked')] : [];
+  });
+
+  return [...draftFlags, ...dropFlags];
+}
+
+// e.g. "Line is now HOME -3.5 • tap to re-pick"
+export function describeDraftFlag(flag: DraftFlag): string {
+  if (flag.issue === 'locked') return 'Locked before this change was saved';
+  if (flag.issue === 'off_slate') return 'No longer on this week\'s slate';
+  if (flag.line_value === null) return 'Line pulled since you picked';
+  return `Line is now ${describePick({ side: flag.side, line_value: flag.line_value }, null, false)} • tap to re-pick`;
+}
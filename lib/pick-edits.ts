@@ -0,0 +1,84 @@
+import { getPickMarket, isSamePick } from './pick-mode';
+import type { Pick, PickEdit } from './supabase';
+
+// Changes to a week's submitted picks. Until a game locks, a player can switch
+// sides on it (a draft for the same game and market replaces the submitted
+// pick) or drop it to pick another game instead. Each change is recorded in
+// the edit history of the pick that replaces the old one:
+//
+//   switched side  the pick keeps its history plus the side it had before
+//   swapped game   the new pick inherits the dropped pick's history plus the
+//                  dropped pick itself, pairing drops and new games in order
+//                  within a market
+//
+// A drop with no new game to take its place is simply deleted.
+
+export type PickChanges = {
+  upserts: Pick[];
+  deletes: Pick[];
+};
+
+function toEdit(pick: Pick, changedAt: string): PickEdit {
+  return { game_id: pick.game_id, side: pick.side, line_value: pick.line_value, changed_at: changedAt };
+}
+
+function isUnchanged(draft: Pick, submitted: Pick): boolean {
+  return draft.side === submitted.side &&
+    draft.line_value === submitted.line_value &&
+    (draft.confidence ?? null) === (submitted.confidence ?? null);
+}
+
+/**
+ * The week's picks as they would stand once the drafts and drops are saved:
+ * submitted picks that are neither dropped nor replaced, then the drafts.
+ */
+export function mergeWeekPicks(submitted: Pick[], drafts: Pick[], dropped: Pick[]): Pick[] {
+  const kept = submitted.filter(pick =>
+    !dropped.some(drop => isSamePick(drop, pick)) && !drafts.some(draft => isSamePick(draft, pick)));
+  return [...kept, ...drafts];
+}
+
+/**
+ * The drafts that turn `submitted` into `weekPicks`: every pick that is new or
+ * differs from the submitted pick on the same game and market.
+ */
+export function getPickDrafts(submitted: Pick[], weekPicks: Pick[]): Pick[] {
+  return weekPicks.filter(pick => {
+    const existing = submitted.find(candidate => isSamePick(candidate, pick));
+    return !existing || !isUnchanged(pick, existing);
+  });
+}
+
+/**
+ * The writes that save the drafts and drops, with each changed pick's edit
+ * history brought up to date.
+ */
+export function planPickChanges(
+  submitted: Pick[],
+  drafts: Pick[],
+  dropped: Pick[],
+  now: Date = new Date()
+): PickChanges {
+  const changedAt = now.toISOString();
+  // A dropped pick whose game is picked again is replaced rather than deleted
+  const deletes = dropped.filter(drop => !drafts.some(draft => isSamePick(draft, drop)));
+  const unpaired = [...deletes];
+
+  const upserts = drafts.flatMap(draft => {
+    const existing = submitted.find(pick => isSamePick(pick, draft));
+    if (existing) {
+      if (isUnchanged(draft, existing)) return [];
+      const sideChanged = draft.side !== existing.side || draft.line_value !== existing.line_value;
+      const history = existing.edit_history ?? [];
+      return [{ ...draft, edit_history: sideChanged ? [...history, toEdit(existing, changedAt)] : history }];
+    }
+
+    const index = unpaired.findIndex(drop => getPickMarket(drop.side) === getPickMarket(draft.side));
+    if (index === -1) return [{ ...draft, edit_history: [] }];
+
+    const [replaced] = unpaired.splice(index, 1);
+    return [{ ...draft, edit_history: [...(replaced.edit_history ?? []), toEdit(replaced, changedAt)] }];
+  });
+
+  return { upserts, deletes };
+}
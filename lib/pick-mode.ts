@@ -0,0 +1,105 @@
+import type { Game, League, Pick, PickFields } from './supabase';
+
+// How a league's picks are made and shown. Straight-up picks (and survivor
+// picks) choose the outright winner and are stored with a zero line, so the
+// shared grader scores them on the final score alone. Totals (OVER/UNDER) are
+// a second market on the same game with their own weekly quota when the
+// league sets `totals_pick_limit`.
+
+export const STRAIGHT_UP_LINE_VALUE = 0;
+
+export type PickMarket = NonNullable<Pick['market']>;
+
+// A weekly pick limit; a null market covers picks from either market
+export type PickQuota = {
+  market: PickMarket | null;
+  limit: number;
+};
+
+type LeagueMode = Partial<PickFields<League, 'pick_mode' | 'league_type' | 'pick_limit' | 'totals_pick_limit'>> | null | undefined;
+
+export function isStraightUp(league: LeagueMode): boolean {
+  return league?.pick_mode === 'straight_up' || league?.league_type === 'survivor';
+}
+
+// Label for a win-loss record: straight up or against the spread
+export function getRecordLabel(league: LeagueMode): 'SU' | 'ATS' {
+  return isStraightUp(league) ? 'SU' : 'ATS';
+}
+
+export function getPickMarket(side: Pick['side']): PickMarket {
+  return side === 'OVER' || side === 'UNDER' ? 'total' : 'spread';
+}
+
+// Picks are unique per game and market
+export function isSamePick(a: PickFields<Pick, 'game_id' | 'side'>, b: PickFields<Pick, 'game_id' | 'side'>): boolean {
+  return a.game_id === b.game_id && getPickMarket(a.side) === getPickMarket(b.side);
+}
+
+// Survivor leagues pick one team; every other format can also pick totals
+export function offersTotals(league: LeagueMode): boolean {
+  return league?.league_type !== 'survivor';
+}
+
+export function getPickQuotas(league: LeagueMode): PickQuota[] {
+  if (league?.league_type === 'survivor') return [{ market: 'spread', limit: 1 }];
+
+  const pickLimit = league?.pick_limit || 5;
+  if (league?.totals_pick_limit == null) return [{ market: null, limit: pickLimit }];
+  return [
+    { market: 'spread', limit: pickLimit },
+    { market: 'total', limit: league.totals_pick_limit },
+  ];
+}
+
+// Total number of picks a week's quotas call for
+export function getWeeklyPickCount(quotas: PickQuota[]): number {
+  return quotas.reduce((sum, quota) => sum + quota.limit, 0);
+}
+
+function countInQuota(quota: PickQuota, picks: PickFields<Pick, 'side'>[]): number {
+  return picks.filter(pick => quota.market === null || getPickMarket(pick.side) === quota.market).length;
+}
+
+/**
+ * The quota a new pick in `market` would exceed, or null when there is room.
+ */
+export function getFullQuota(quotas: PickQuota[], picks: PickFields<Pick, 'side'>[], market: PickMarket): PickQuota | null {
+  const quota = quotas.find(candidate => candidate.market === null || candidate.market === market);
+  if (!quota) return { market, limit: 0 };
+  return countInQuota(quota, picks) >= quota.limit ? quota : null;
+}
+
+/**
+ * The first quota `picks` go over, or null when they all fit. Checked against
+ * the week's submitted and draft picks together, since picks can be
+ * submitted a few at a time.
+ */
+export function getExceededQuota(quotas: PickQuota[], picks: PickFields<Pick, 'side'>[]): PickQuota | null {
+  const markets = Array.from(new Set(picks.map(pick => getPickMarket(pick.side))));
+  const unplaced = markets.find(market => !quotas.some(quota => quota.market === null || quota.market === market));
+  if (unplaced) return { market: unplaced, limit: 0 };
+  return quotas.find(quota => countInQuota(quota, picks) > quota.limit) ?? null;
+}
+
+export function areQuotasFilled(quotas: PickQuota[], picks: PickFields<Pick, 'side'>[]): boolean {
+  return quotas.every(quota => countInQuota(quota, picks) === quota.limit);
+}
+
+/**
+ * Short description of a pick: "Texas to win" straight up, "OVER 52.5" for a
+ * total, otherwise the side and line, e.g. "HOME -3.5".
+ */
+export function describePick(
+  pick: PickFields<Pick, 'side' | 'line_value'>,
+  game: PickFields<Game, 'home' | 'away'> | null | undefined,
+  straightUp: boolean
+): string {
+  if (getPickMarket(pick.side) === 'total') {
+    return `${pick.side} ${pick.line_value}`;
+  }
+  if (straightUp && game) {
+    return `${pick.side === 'HOME' ? game.home : game.away} to win`;
+  }
+  return `${pick.side} ${pick.line_value > 0 ? '+' : ''}${pick.line_value}`;
+}
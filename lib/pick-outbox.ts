@@ -0,0 +1,192 @@
+import type { PickChanges } from './pick-edits';
+import { getPickMarket } from './pick-mode';
+import type { Pick, PickFields } from './supabase';
+
+// Pick writes waiting to reach the server. Saving picks queues each change
+// here and the queue is sent straight away, so a save on a bad connection
+// isn't lost: a send that fails for want of a connection is retried with
+// exponential backoff (and when the app comes back to the foreground) until
+// it goes through. Each queued change ends up in one of:
+//
+//   sent      reached the server; it leaves the queue
+//   expired   the pick locked before it could be sent, so it never is
+//   conflict  the server copy changed after the change was made (compared on
+//             `updated_at`), so sending would overwrite that edit
+//   failed    the server refused it, e.g. the line was pulled
+//
+// There's one change per pick (game and market). A newer change replaces a
+// queued one but keeps the server version the first was made against.
+
+export type OutboxStatus = 'queued' | 'expired' | 'conflict' | 'failed';
+
+export type OutboxEntry = {
+  key: string;                     // See getOutboxKey
+  op: 'upsert' | 'delete';
+  pick: Pick;                      // The pick to write, or the submitted pick to delete
+  base_updated_at: string | null;  // Server copy's `updated_at` when queued; null when there was none
+  lock_at: string;                 // Never sent at or after this
+  queued_at: string;
+  attempts: number;
+  next_attempt_at: string;
+  status: OutboxStatus;
+  error: string | null;            // Last failure, if any
+};
+
+export type SendResult = 'sent' | 'conflict';
+
+type PickKey = PickFields<Pick, 'league_id' | 'user_id' | 'season' | 'week' | 'game_id' | 'side'>;
+
+export const RETRY_BASE_MS = 5 * 1000;
+export const RETRY_MAX_MS = 5 * 60 * 1000;
+
+// Matches the picks table's unique key
+export function getOutboxKey(pick: PickKey): string {
+  return [pick.league_id, pick.user_id, pick.season, pick.week, pick.game_id, getPickMarket(pick.side)].join(':');
+}
+
+// 5s, 10s, 20s... capped at five minutes
+export function getRetryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_MS);
+}
+
+/**
+ * Failures worth retrying: the request never got a response from the
+ * database, so it carries no error code.
+ */
+export function isNetworkError(error: unknown): boolean {
+  const { code, message } = (error ?? {}) as { code?: string; message?: string };
+  return !code || /network|fetch|timed? ?out/i.test(message ?? '');
+}
+
+/**
+ * Queue saved changes. `serverPicks` are the picks as last read from the
+ * server, which give each change the version it is made against.
+ */
+export function queuePickChanges(
+  outbox: OutboxEntry[],
+  { upserts, deletes }: PickChanges,
+  serverPicks: Pick[],
+  getLockAt: (pick: Pick) => Date,
+  now: Date = new Date()
+): OutboxEntry[] {
+  let queue = [...outbox];
+
+  const queueChange = (op: OutboxEntry['op'], pick: Pick) => {
+    const key = getOutboxKey(pick);
+    const queued = queue.find(entry => entry.key === key && entry.status === 'queued');
+    const base = queued
+      ? queued.base_updated_at
+      : serverPicks.find(serverPick => getOutboxKey(serverPick) === key)?.updated_at ?? null;
+    queue = queue.filter(entry => entry.key !== key);
+
+    // Deleting a pick the server never had leaves nothing to send
+    if (op === 'delete' && base === null) return;
+
+    queue.push({
+      key,
+      op,
+      pick,
+      base_updated_at: base,
+      lock_at: getLockAt(pick).toISOString(),
+      queued_at: now.toISOString(),
+      attempts: 0,
+      next_attempt_at: now.toISOString(),
+      status: 'queued',
+      error: null,
+    });
+  };
+
+  upserts.forEach(pick => queueChange('upsert', pick));
+  deletes.forEach(pick => queueChange('delete', pick));
+  return queue;
+}
+
+// The queue's changes to one player's picks for a week
+export function getWeekOutbox(outbox: OutboxEntry[], leagueId: string, userId: string, season: number, week: number): OutboxEntry[] {
+  return outbox.filter(({ pick }) =>
+    pick.league_id === leagueId && pick.user_id === userId && pick.season === season && pick.week === week);
+}
+
+/**
+ * A week's picks as they will stand once the queue is sent: queued writes
+ * applied over the server's picks.
+ */
+export function applyOutbox(serverPicks: Pick[], weekOutbox: OutboxEntry[]): Pick[] {
+  const queued = weekOutbox.filter(entry => entry.status === 'queued');
+  const kept = serverPicks.filter(pick => !queued.some(entry => entry.key === getOutboxKey(pick)));
+  return [...kept, ...queued.filter(entry => entry.op === 'upsert').map(entry => entry.pick)];
+}
+
+// When the next queued change is due, or null when nothing is waiting
+export function getNextAttemptAt(outbox: OutboxEntry[]): Date | null {
+  const due = outbox
+    .filter(entry => entry.status === 'queued')
+    .map(entry => new Date(entry.next_attempt_at).getTime());
+  return due.length > 0 ? new Date(Math.min(...due)) : null;
+}
+
+/**
+ * Send every queued change that is due, drops before picks so a swap never
+ * briefly goes over the week's limits, otherwise in queue order. Sent changes
+ * leave the queue; the rest come back with their new status.
+ */
+export async function flushOutbox(
+  outbox: OutboxEntry[],
+  send: (entry: OutboxEntry) => Promise<SendResult>,
+  now: () => Date = () => new Date()
+): Promise<OutboxEntry[]> {
+  const remaining: OutboxEntry[] = [];
+  const ordered = [
+    ...outbox.filter(entry => entry.op === 'delete'),
+    ...outbox.filter(entry => entry.op === 'upsert'),
+  ];
+
+  for (const entry of ordered) {
+    const attemptAt = now();
+    if (entry.status !== 'queued' || new Date(entry.next_attempt_at) > attemptAt) {
+      remaining.push(entry);
+      continue;
+    }
+    if (attemptAt >= new Date(entry.lock_at)) {
+      remaining.push({ ...entry, status: 'expired' });
+      continue;
+    }
+
+    try {
+      if (await send(entry) === 'conflict') {
+        remaining.push({ ...entry, status: 'conflict' });
+      }
+    } catch (error) {
+      const attempts = entry.attempts + 1;
+      const message = (error as { message?: string } | null)?.message ?? String(error);
+      remaining.push(isNetworkError(error)
+        ? {
+          ...entry,
+          attempts,
+          next_attempt_at: new Date(attemptAt.getTime() + getRetryDelay(attempts)).toISOString(),
+          error: message,
+        }
+        : { ...entry, attempts, status: 'failed', error: message });
+    }
+  }
+
+  return remaining;
+}
+
+// Short status line for a queued change's pick
+export function describeOutboxEntry(entry: OutboxEntry, now: Date = new Date()): string {
+  const action = entry.op === 'delete' ? 'Drop' : 'Pick';
+  switch (entry.status) {
+    case 'expired':
+      return `${action} not sent: the game locked first`;
+    case 'conflict':
+      return `${action} not sent: changed elsewhere since • refresh to see it`;
+    case 'failed':
+      return `${action} refused${entry.error ? `: ${entry.error}` : ''}`;
+    default: {
+      if (entry.attempts === 0) return `${action} sending…`;
+      const seconds = Math.max(Math.ceil((new Date(entry.next_attempt_at).getTime() - now.getTime()) / 1000), 0);
+      return `${action} queued offline • retrying${seconds > 0 ? ` in ${seconds}s` : ' now'}`;
+    }
+  }
+}
@@ -0,0 +1,163 @@
+import type { SeasonStanding } from './standings';
+import {
+  buildTiebreakRecords,
+  DEFAULT_TIEBREAK_RULES,
+  rankStandings,
+  type PickSubmission,
+  type Ranked,
+  type TiebreakerWithGame,
+} from './tiebreakers';
+import type { League, PickFields, PlayoffSeed, WeeklyStanding } from './supabase';
+
+// End-of-season playoffs. Once the regular season ends
+// (`leagues.playoff_after_week`) the top `playoff_teams` qualified players in
+// the season standings are seeded into a single-elimination bracket. Each round
+// is a head-to-head matchup on one week's points, using the scheduled weeks
+// after the regular season in order, so the later rounds run into bowl weeks.
+//
+// A bracket that isn't a power of two gives the top seeds a first-round bye.
+// A tied matchup goes through the league's tie-break rules for that week and,
+// failing those, to the better seed.
+
+export type PlayoffEntrant = PickFields<PlayoffSeed, 'seed' | 'user_id'>;
+
+export type PlayoffGame = {
+  round: number;                   // 1 is the opening round
+  week: number;
+  high: PlayoffEntrant | null;     // Better seed once both are known; null while neither is
+  low: PlayoffEntrant | null;      // null until the game feeding it is decided, or on a bye
+  high_points: number | null;      // null until both players are known
+  low_points: number | null;
+  winner: PlayoffEntrant | null;   // null until the week is final
+  decided_by: 'points' | 'tiebreak' | 'seed' | 'bye' | null;
+};
+
+export type PlayoffBracket = {
+  rounds: PlayoffGame[][];
+  champion: PlayoffEntrant | null;
+};
+
+type PlayoffRules = Partial<PickFields<League, 'tiebreak_rules'>> | null | undefined;
+
+type WeekRow = PickFields<WeeklyStanding, 'user_id' | 'week' | 'points' | 'losses'>;
+
+// Named from the final backwards
+const ROUND_NAMES = ['Championship', 'Semifinals', 'Quarterfinals'];
+
+// Smallest power of two that fits every team
+function getBracketSize(teams: number): number {
+  let size = 1;
+  while (size < teams) size *= 2;
+  return size;
+}
+
+export function getPlayoffRoundCount(teams: number): number {
+  return Math.log2(getBracketSize(teams));
+}
+
+// e.g. "Semifinals", or "Round 1" for the early rounds of a big bracket
+export function getPlayoffRoundName(round: number, roundCount: number): string {
+  return ROUND_NAMES[roundCount - round] ?? `Round ${round}`;
+}
+
+/**
+ * Seeds in bracket order, so seed 1 meets the lowest seed and can't meet
+ * seed 2 before the final: [1, 8, 4, 5, 2, 7, 3, 6] for eight.
+ */
+export function getSeedOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const next = order.length * 2 + 1;
+    order = order.flatMap(seed => [seed, next - seed]);
+  }
+  return order;
+}
+
+/**
+ * The top `teams` qualified players from ranked season standings. Players
+ * sharing a rank keep their standings order.
+ */
+export function seedPlayoffs(standings: Ranked<PickFields<SeasonStanding, 'user_id' | 'qualified'>>[], teams: number): PlayoffEntrant[] {
+  return standings
+    .filter(standing => standing.qualified)
+    .slice(0, teams)
+    .map((standing, index) => ({ seed: index + 1, user_id: standing.user_id }));
+}
+
+/**
+ * The week each round is played: the scheduled weeks after `afterWeek`,
+ * continuing one week at a time past the end of the schedule.
+ */
+export function getPlayoffWeeks(afterWeek: number, roundCount: number, scheduledWeeks: number[]): number[] {
+  const weeks = Array.from(new Set(scheduledWeeks))
+    .filter(week => week > afterWeek)
+    .sort((a, b) => a - b)
+    .slice(0, roundCount);
+  while (weeks.length < roundCount) {
+    weeks.push((weeks[weeks.length - 1] ?? afterWeek) + 1);
+  }
+  return weeks;
+}
+
+export function buildPlayoffBracket(
+  seeds: PlayoffEntrant[],
+  weeks: number[],
+  rows: WeekRow[],
+  rules: PlayoffRules,
+  entries: TiebreakerWithGame[],
+  picks: PickSubmission[],
+  isWeekFinal: (week: number) => boolean
+): PlayoffBracket {
+  if (seeds.length < 2) return { rounds: [], champion: null };
+
+  const size = getBracketSize(seeds.length);
+  const bySeed = (seed: number) => seeds.find(entrant => entrant.seed === seed) ?? null;
+  const order = getSeedOrder(size).map(bySeed);
+
+  const rowFor = (entrant: PlayoffEntrant, week: number): WeekRow =>
+    rows.find(row => row.user_id === entrant.user_id && row.week === week) ??
+    { user_id: entrant.user_id, week, points: 0, losses: 0 };
+
+  const decide = (round: number, week: number, a: PlayoffEntrant | null, b: PlayoffEntrant | null, bye: boolean): PlayoffGame => {
+    const [high, low] = a && b && b.seed < a.seed ? [b, a] : [a ?? b, a ? b : null];
+    const game: PlayoffGame = {
+      round, week, high, low, high_points: null, low_points: null, winner: null, decided_by: null,
+    };
+    if (bye) return { ...game, winner: high, decided_by: 'bye' };
+    if (!high || !low) return game;
+
+    const highRow = rowFor(high, week);
+    const lowRow = rowFor(low, week);
+    const scored = { ...game, high_points: highRow.points, low_points: lowRow.points };
+    if (!isWeekFinal(week)) return scored;
+
+    if (highRow.points !== lowRow.points) {
+      return { ...scored, winner: highRow.points > lowRow.points ? high : low, decided_by: 'points' };
+    }
+
+    const ranked = rankStandings(
+      [highRow, lowRow],
+      (x, y) => y.points - x.points,
+      buildTiebreakRecords([highRow, lowRow], entries, picks),
+      rules?.tiebreak_rules ?? DEFAULT_TIEBREAK_RULES
+    );
+    if (ranked[0].rank === ranked[1].rank) return { ...scored, winner: high, decided_by: 'seed' };
+    return { ...scored, winner: ranked[0].user_id === high.user_id ? high : low, decided_by: 'tiebreak' };
+  };
+
+  const rounds: PlayoffGame[][] = [];
+  const openingRound = Array.from({ length: size / 2 }, (_, slot) => {
+    const [a, b] = [order[slot * 2], order[slot * 2 + 1]];
+    return decide(1, weeks[0], a, b, !a || !b);
+  });
+  rounds.push(openingRound);
+
+  while (rounds[rounds.length - 1].length > 1) {
+    const previous = rounds[rounds.length - 1];
+    const round = rounds.length + 1;
+    rounds.push(Array.from({ length: previous.length / 2 }, (_, slot) =>
+      decide(round, weeks[round - 1], previous[slot * 2].winner, previous[slot * 2 + 1].winner, false)));
+  }
+
+  return { rounds, champion: rounds[rounds.length - 1][0].winner };
+}
@@ -0,0 +1,83 @@
+import { aggregateSeasonStandings, compareSeasonStandings, getCountedRows, type StandingsRules } from './standings';
+import {
+  buildTiebreakRecords,
+  DEFAULT_TIEBREAK_RULES,
+  rankStandings,
+  type PickSubmission,
+  type TiebreakerWithGame,
+} from './tiebreakers';
+import type { League, PickFields, WeeklyStanding } from './supabase';
+
+// How the season standings looked after each week: every point is the
+// member's season rank and counted points through that week, worked out with
+// the same counting and tie-break rules as the live standings. A member joins
+// the history from their first graded week.
+
+export type RankPoint = {
+  week: number;
+  rank: number;
+  points: number;   // Counted season points through `week`
+};
+
+export type RankSeries = {
+  user_id: string;
+  user_email: string;
+  points: RankPoint[];
+};
+
+export type RankHistory = {
+  weeks: number[];
+  series: RankSeries[];   // Latest standings order
+};
+
+type HistoryRules = StandingsRules & Partial<PickFields<League, 'tiebreak_rules'>>;
+
+export function buildRankHistory(
+  rows: WeeklyStanding[],
+  rules: HistoryRules,
+  entries: TiebreakerWithGame[],
+  picks: PickSubmission[]
+): RankHistory {
+  const weeks = Array.from(new Set(rows.map(row => row.week))).sort((a, b) => a - b);
+  const series = new Map<string, RankSeries>();
+
+  weeks.forEach(week => {
+    const throughWeek = rows.filter(row => row.week <= week);
+    const standings = aggregateSeasonStandings(throughWeek, rules);
+    const records = buildTiebreakRecords(getCountedRows(throughWeek, standings), entries, picks);
+    const ranked = rankStandings(
+      standings,
+      compareSeasonStandings(rules),
+      records,
+      rules?.tiebreak_rules ?? DEFAULT_TIEBREAK_RULES
+    );
+
+    ranked.forEach(standing => {
+      const entry = series.get(standing.user_id) ??
+        { user_id: standing.user_id, user_email: standing.user_email, points: [] };
+      entry.points.push({ week, rank: standing.rank, points: standing.total_points });
+      series.set(standing.user_id, entry);
+    });
+  });
+
+  const latestRank = (entry: RankSeries) => entry.points[entry.points.length - 1].rank;
+  return {
+    weeks,
+    series: Array.from(series.values()).sort((a, b) => latestRank(a) - latestRank(b)),
+  };
+}
+
+/**
+ * Places gained since the week before the latest one: positive when the member
+ * moved up, negative when they slipped, null without both weeks to compare.
+ */
+export function getRankMovement(history: RankHistory, userId: string): number | null {
+  if (history.weeks.length < 2) return null;
+  const [previousWeek, latestWeek] = history.weeks.slice(-2);
+
+  const points = history.series.find(entry => entry.user_id === userId)?.points ?? [];
+  const previous = points.find(point => point.week === previousWeek);
+  const latest = points.find(point => point.week === latestWeek);
+  if (!previous || !latest) return null;
+  return previous.rank - latest.rank;
+}
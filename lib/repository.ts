@@ -0,0 +1,1244 @@
+import {
+  supabase,
+  type Game,
+  type League,
+  type LeagueChampion,
+  type LeagueDues,
+  type LeagueMember,
+  type LeagueSeason,
+  type LeagueSlateLine,
+  type Matchup,
+  type Pick,
+  type PickFields,
+  type PlayoffSeed,
+  type Tiebreaker,
+  type WeeklyStanding,
+} from './supabase';
+import {
+  buildHeadToHeadRecords,
+  scoreMatchups,
+  type HeadToHeadRecord,
+  type MatchupPairing,
+  type MatchupResult,
+} from './matchups';
+import { buildSeasonAwards, buildWeeklyAwards, type Award } from './awards';
+import { buildSeasonHistory, getChampions, type SeasonSummary } from './league-seasons';
+import { buildLedger, buildSeasonPayouts, buildWeeklyPayouts, type Ledger } from './ledger';
+import { buildSlateConsensus, getRevealedGameIds, type ConsensusSide, type GameConsensus } from './consensus';
+import type { LeagueExport } from './export';
+import type { OutboxEntry, SendResult } from './pick-outbox';
+import { isPickVisible } from './member-stats';
+import { getPickMarket } from './pick-mode';
+import {
+  buildPlayoffBracket,
+  getPlayoffRoundCount,
+  getPlayoffWeeks,
+  seedPlayoffs,
+  type PlayoffBracket,
+  type PlayoffEntrant,
+} from './playoffs';
+import { buildRankHistory, type RankHistory } from './rank-history';
+import { aggregateSeasonStandings, compareSeasonStandings, getCountedRows, type SeasonStanding } from './standings';
+import { buildSurvivorStandings, DEFAULT_SURVIVOR_STRIKES, getSurvivorWeeks, type SurvivorEntry } from './survivor';
+import {
+  buildTiebreakRecords,
+  DEFAULT_TIEBREAK_RULES,
+  rankStandings,
+  type Ranked,
+  type TiebreakerWithGame,
+} from './tiebreakers';
+
+// Typed data access for the league screens. Every Supabase query the app
+// runs lives here so a schema change is a one-file edit.
+
+export type LeagueRole = LeagueMember['role'];
+
+export type LeagueWithRole = League & { role: LeagueRole };
+
+export type GameWithLine = {
+  game: Game;
+  line: LeagueSlateLine;
+  existingPick?: Pick;       // Side pick (HOME/AWAY)
+  existingTotalPick?: Pick;  // Total pick (OVER/UNDER)
+};
+
+export type PickGame = PickFields<Game, 'home' | 'away' | 'kickoff' | 'status' | 'home_score' | 'away_score'>;
+
+export type PickWithGame = Pick & { games: PickGame };
+
+export type RankedWeeklyStanding = Ranked<WeeklyStanding>;
+
+export type RankedSeasonStanding = Ranked<SeasonStanding>;
+
+export type AwardsSummary = {
+  weekly: Award[];   // Latest week first
+  season: Award[];
+};
+
+export type LeagueMemberWithEmail = LeagueMember & { users: { email: string } | null };
+
+export type LeagueSettings = Partial<PickFields<League,
+  | 'pick_limit'
+  | 'push_points'
+  | 'scoring_mode'
+  | 'survivor_strikes'
+  | 'totals_pick_limit'
+  | 'tiebreak_rules'
+  | 'head_to_head'
+  | 'lock_mode'
+  | 'global_lock_at'
+  | 'playoff_teams'
+  | 'playoff_after_week'
+  | 'entry_fee'
+  | 'weekly_payout'
+  | 'season_payouts'
+  | 'standings_best_weeks'
+  | 'standings_drop_weeks'
+  | 'standings_min_weeks'
+  | 'standings_rank_by'
+>>;
+
+export type ScheduleGame = PickFields<Game, 'week' | 'kickoff' | 'season_type'>;
+
+export type HeadToHeadSummary = {
+  results: MatchupResult[];
+  records: HeadToHeadRecord[];
+};
+
+export type PublishWeekResult = {
+  games_count: number;
+  lines_count: number;
+};
+
+export class RepositoryError extends Error {
+  operation: string;
+  code?: string;
+
+  constructor(operation: string, message: string, code?: string) {
+    super(message);
+    this.name = 'RepositoryError';
+    this.operation = operation;
+    this.code = code;
+  }
+}
+
+export const LEAGUE_COLUMNS = `
+  id,
+  name,
+  invite_code,
+  created_by,
+  pick_limit,
+  push_points,
+  scoring_mode,
+  league_type,
+  survivor_strikes,
+  pick_mode,
+  totals_pick_limit,
+  head_to_head,
+  lock_mode,
+  global_lock_at,
+  playoff_teams,
+  playoff_after_week,
+  entry_fee,
+  weekly_payout,
+  season_payouts,
+  tiebreak_rules,
+  standings_best_weeks,
+  standings_drop_weeks,
+  standings_min_weeks,
+  standings_rank_by,
+  created_at
+`;
+
+const GAME_COLUMNS = `
+  id,
+  season,
+  week,
+  home,
+  away,
+  kickoff,
+  status,
+  home_score,
+  away_score
+`;
+
+const PICK_WITH_GAME_COLUMNS = `
+  *,
+  games:game_id (
+    home,
+    away,
+    kickoff,
+    status,
+    home_score,
+    away_score
+  )
+`;
+
+const PICK_CONFLICT_KEY = 'league_id,user_id,season,week,game_id,market';
+
+// Postgres error code for a row that breaks a unique key
+const UNIQUE_VIOLATION = '23505';
+
+const TIEBREAKER_CONFLICT_KEY = 'league_id,user_id,season,week';
+
+type SupabaseError = { message: string; code?: string } | null;
+
+// Shapes of the joined selects, which the untyped client can't infer
+type MembershipRow = { role: LeagueRole; leagues: League | null };
+type SlateLineRow = LeagueSlateLine & { games: Game | null };
+
+function check(operation: string, error: SupabaseError) {
+  if (error) {
+    throw new RepositoryError(operation, error.message, error.code);
+  }
+}
+
+// Leagues
+
+export async function fetchUserLeagues(userId: string, role?: LeagueRole): Promise<LeagueWithRole[]> {
+  let query = supabase
+    .from('league_members')
+    .select(`role, leagues (${LEAGUE_COLUMNS})`)
+    .eq('user_id', userId);
+
+  if (role) {
+    query = query.eq('role', role);
+  }
+
+  const { data, error } = await query.overrideTypes<MembershipRow[], { merge: false }>();
+  check('fetchUserLeagues', error);
+
+  return (data || [])
+    .filter(row => row.leagues)
+    .map(row => ({ ...(row.leagues as League), role: row.role }));
+}
+
+export async function fetchLeagueWithRole(leagueId: string, userId: string): Promise<LeagueWithRole | null> {
+  const { data, error } = await supabase
+    .from('league_members')
+    .select(`role, leagues (${LEAGUE_COLUMNS})`)
+    .eq('league_id', leagueId)
+    .eq('user_id', userId)
+    .maybeSingle()
+    .overrideTypes<MembershipRow, { merge: false }>();
+  check('fetchLeagueWithRole', error);
+
+  if (!data?.leagues) return null;
+  return { ...data.leagues, role: data.role };
+}
+
+export async function fetchLeague(leagueId: string): Promise<League> {
+  const { data, error } = await supabase
+    .from('leagues')
+    .select(LEAGUE_COLUMNS)
+    .eq('id', leagueId)
+    .single()
+    .overrideTypes<League, { merge: false }>();
+  check('fetchLeague', error);
+
+  return data as League;
+}
+
+export async function createLeague(
+  userId: string,
+  input: PickFields<League, 'name' | 'pick_limit' | 'push_points' | 'scoring_mode' | 'league_type' | 'survivor_strikes' | 'pick_mode' | 'totals_pick_limit'>
+): Promise<League> {
+  const inviteCode = Math.random().toString(36).substring(2, 8).toUpperCase();
+
+  const { data, error } = await supabase
+    .from('leagues')
+    .insert({
+      ...input,
+      invite_code: inviteCode,
+      created_by: userId,
+    })
+    .select()
+    .single();
+  check('createLeague', error);
+
+  const league = data as League;
+  await addLeagueMember(league.id, userId, 'commish');
+  return league;
+}
+
+export async function updateLeagueSettings(leagueId: string, settings: LeagueSettings): Promise<void> {
+  const { error } = await supabase
+    .from('leagues')
+    .update(settings)
+    .eq('id', leagueId);
+  check('updateLeagueSettings', error);
+}
+
+export async function publishWeek(leagueId: string, season: number, week: number): Promise<PublishWeekResult> {
+  const { data, error } = await supabase.functions.invoke('publish_week', {
+    body: {
+      league_id: leagueId,
+      season,
+      week,
+    },
+  });
+  check('publishWeek', error);
+
+  return {
+    games_count: data?.games_count || 0,
+    lines_count: data?.lines_count || 0,
+  };
+}
+
+// Members
+
+export async function fetchLeagueMembers(leagueId: string): Promise<LeagueMemberWithEmail[]> {
+  const { data, error } = await supabase
+    .from('league_members')
+    .select(`
+      *,
+      users:user_id (
+        email
+      )
+    `)
+    .eq('league_id', leagueId)
+    .overrideTypes<LeagueMemberWithEmail[], { merge: false }>();
+  check('fetchLeagueMembers', error);
+
+  return data || [];
+}
+
+export async function addLeagueMember(leagueId: string, userId: string, role: LeagueRole): Promise<void> {
+  const { error } = await supabase
+    .from('league_members')
+    .insert({
+      league_id: leagueId,
+      user_id: userId,
+      role,
+    });
+  check('addLeagueMember', error);
+}
+
+/**
+ * Join the league matching an invite code as a player.
+ * Throws with code `INVALID_INVITE_CODE` or `ALREADY_MEMBER` for the
+ * expected user errors.
+ */
+export async function joinLeagueByInviteCode(userId: string, inviteCode: string): Promise<League> {
+  const { data: league, error: leagueError } = await supabase
+    .from('leagues')
+    .select(LEAGUE_COLUMNS)
+    .eq('invite_code', inviteCode.trim().toUpperCase())
+    .maybeSingle()
+    .overrideTypes<League, { merge: false }>();
+  check('joinLeagueByInviteCode', leagueError);
+
+  if (!league) {
+    throw new RepositoryError('joinLeagueByInviteCode', 'Invalid invite code', 'INVALID_INVITE_CODE');
+  }
+
+  const { id: leagueId } = league;
+  const { data: existing, error: memberError } = await supabase
+    .from('league_members')
+    .select('league_id')
+    .eq('league_id', leagueId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  check('joinLeagueByInviteCode', memberError);
+
+  if (existing) {
+    throw new RepositoryError('joinLeagueByInviteCode', 'You are already a member of this league', 'ALREADY_MEMBER');
+  }
+
+  await addLeagueMember(leagueId, userId, 'player');
+  return league;
+}
+
+// Slate
+
+export async function fetchSlate(leagueId: string, season: number, week: number): Promise<GameWithLine[]> {
+  const { data, error } = await supabase
+    .from('league_slate_lines')
+    .select(`
+      *,
+      games:game_id (${GAME_COLUMNS})
+    `)
+    .eq('league_id', leagueId)
+    .eq('season', season)
+    .eq('week', week)
+    .overrideTypes<SlateLineRow[], { merge: false }>();
+  check('fetchSlate', error);
+
+  return (data || [])
+    .filter(row => row.games)
+    .map(({ games, ...line }) => ({ game: games as Game, line }))
+    .sort((a, b) => new Date(a.game.kickoff).getTime() - new Date(b.game.kickoff).getTime());
+}
+
+// Flag `gameId` as the week's tiebreaker game, clearing any earlier choice
+export async function setTiebreakerGame(leagueId: string, season: number, week: number, gameId: string): Promise<void> {
+  const { error: clearError } = await supabase
+    .from('league_slate_lines')
+    .update({ is_tiebreaker: false })
+    .eq('league_id', leagueId)
+    .eq('season', season)
+    .eq('week', week);
+  check('setTiebreakerGame', clearError);
+
+  const { error } = await supabase
+    .from('league_slate_lines')
+    .update({ is_tiebreaker: true })
+    .eq('league_id', leagueId)
+    .eq('season', season)
+    .eq('week', week)
+    .eq('game_id', gameId);
+  check('setTiebreakerGame', error);
+}
+
+export async function fetchSeasonSchedule(season: number): Promise<ScheduleGame[]> {
+  const { data, error } = await supabase
+    .from('games')
+    // season_type is only present once the CFBD sync populates it
+    .select('*')
+    .eq('season', season)
+    .order('kickoff', { ascending: true });
+  check('fetchSeasonSchedule', error);
+
+  return (data || []) as ScheduleGame[];
+}
+
+/**
+ * Season of the next game to kick off, or of the most recent one once the
+ * schedule runs out. Null when the games table is empty.
+ */
+export async function fetchCurrentSeason(now: Date = new Date()): Promise<number | null> {
+  const { data: upcoming, error: upcomingError } = await supabase
+    .from('games')
+    .select('season')
+    .gte('kickoff', now.toISOString())
+    .order('kickoff', { ascending: true })
+    .limit(1);
+  check('fetchCurrentSeason', upcomingError);
+
+  if (upcoming?.[0]) return upcoming[0].season;
+
+  const { data: latest, error: latestError } = await supabase
+    .from('games')
+    .select('season')
+    .lt('kickoff', now.toISOString())
+    .order('kickoff', { ascending: false })
+    .limit(1);
+  check('fetchCurrentSeason', latestError);
+
+  return latest?.[0]?.season ?? null;
+}
+
+export async function fetchNextKickoff(season: number, week: number): Promise<Date | null> {
+  const { data, error } = await supabase
+    .from('games')
+    .select('kickoff')
+    .eq('season', season)
+    .eq('week', week)
+    .gte('kickoff', new Date().toISOString())
+    .order('kickoff', { ascending: true })
+    .limit(1);
+  check('fetchNextKickoff', error);
+
+  return data?.[0]?.kickoff ? new Date(data[0].kickoff) : null;
+}
+
+// Picks
+
+export async function fetchPicks(leagueId: string, userId: string, season: number, week: number): Promise<Pick[]> {
+  const { data, error } = await supabase
+    .from('picks')
+    .select('*')
+    .eq('league_id', leagueId)
+    .eq('user_id', userId)
+    .eq('season', season)
+    .eq('week', week);
+  check('fetchPicks', error);
+
+  return (data || []) as Pick[];
+}
+
+export async function fetchPickHistory(leagueId: string, userId: string): Promise<PickWithGame[]> {
+  const { data, error } = await supabase
+    .from('picks')
+    .select(PICK_WITH_GAME_COLUMNS)
+    .eq('league_id', leagueId)
+    .eq('user_id', userId)
+    .order('season', { ascending: false })
+    .order('week', { ascending: false })
+    .order('created_at', { ascending: false })
+    .overrideTypes<PickWithGame[], { merge: false }>();
+  check('fetchPickHistory', error);
+
+  return data || [];
+}
+
+// Every member's picks for a season, oldest week first
+export async function fetchLeaguePicks(leagueId: string, season: number): Promise<PickWithGame[]> {
+  const { data, error } = await supabase
+    .from('picks')
+    .select(PICK_WITH_GAME_COLUMNS)
+    .eq('league_id', leagueId)
+    .eq('season', season)
+    .order('week', { ascending: true })
+    .overrideTypes<PickWithGame[], { merge: false }>();
+  check('fetchLeaguePicks', error);
+
+  return data || [];
+}
+
+/**
+ * Every member's side of each game in a week, with picks the viewer can't
+ * see yet reduced to a count. Sides are fetched only for games whose picks
+ * have all unlocked, so hidden picks never leave the server.
+ */
+export async function fetchSlateConsensus(
+  leagueId: string,
+  season: number,
+  week: number,
+  viewerId: string
+): Promise<Record<string, GameConsensus>> {
+  const now = new Date();
+  const { data: picks, error } = await supabase
+    .from('picks')
+    .select('user_id, game_id, unlock_at')
+    .eq('league_id', leagueId)
+    .eq('season', season)
+    .eq('week', week)
+    .eq('market', 'spread');
+  check('fetchSlateConsensus', error);
+
+  const revealedGameIds = getRevealedGameIds(picks || [], viewerId, now);
+  let sides: ConsensusSide[] = [];
+  if (revealedGameIds.length > 0) {
+    const { data, error: sidesError } = await supabase
+      .from('picks')
+      .select('user_id, game_id, side')
+      .eq('league_id', leagueId)
+      .eq('season', season)
+      .eq('week', week)
+      .eq('market', 'spread')
+      .in('game_id', revealedGameIds);
+    check('fetchSlateConsensus', sidesError);
+    sides = data || [];
+  }
+
+  return buildSlateConsensus(picks || [], sides, viewerId, now);
+}
+
+function toPickRow(pick: Pick) {
+  return {
+    league_id: pick.league_id,
+    user_id: pick.user_id,
+    season: pick.season,
+    week: pick.week,
+    game_id: pick.game_id,
+    side: pick.side,
+    market: getPickMarket(pick.side),
+    line_value: pick.line_value,
+    confidence: pick.confidence ?? null,
+    unlock_at: pick.unlock_at,
+    locked: false,
+    edit_history: pick.edit_history ?? [],
+  };
+}
+
+export async function submitPicks(picks: Pick[]): Promise<void> {
+  const { error } = await supabase
+    .from('picks')
+    .upsert(picks.map(toPickRow), {
+      onConflict: PICK_CONFLICT_KEY,
+    });
+  check('submitPicks', error);
+}
+
+export async function deletePick(pick: Pick): Promise<void> {
+  const { error } = await supabase
+    .from('picks')
+    .delete()
+    .eq('league_id', pick.league_id)
+    .eq('user_id', pick.user_id)
+    .eq('season', pick.season)
+    .eq('week', pick.week)
+    .eq('game_id', pick.game_id)
+    .eq('market', getPickMarket(pick.side));
+  check('deletePick', error);
+}
+
+/**
+ * Send a change from the pick outbox (see lib/pick-outbox) only if the server
+ * copy is still the version it was made against. Updates and deletes are
+ * conditional on `updated_at`; a new pick checks that none has appeared.
+ */
+export async function sendQueuedPick(
+  entry: PickFields<OutboxEntry, 'op' | 'pick' | 'base_updated_at'>
+): Promise<SendResult> {
+  const { op, pick, base_updated_at: base } = entry;
+
+  if (base === null) {
+    const { data: existing, error: fetchError } = await supabase
+      .from('picks')
+      .select('updated_at')
+      .eq('league_id', pick.league_id)
+      .eq('user_id', pick.user_id)
+      .eq('season', pick.season)
+      .eq('week', pick.week)
+      .eq('game_id', pick.game_id)
+      .eq('market', getPickMarket(pick.side));
+    check('sendQueuedPick', fetchError);
+    if ((existing || []).length > 0) return 'conflict';
+
+    // Another write can still land between the check and the insert
+    const { error } = await supabase.from('picks').insert(toPickRow(pick));
+    if (error?.code === UNIQUE_VIOLATION) return 'conflict';
+    check('sendQueuedPick', error);
+    return 'sent';
+  }
+
+  const table = supabase.from('picks');
+  const query = op === 'delete' ? table.delete() : table.update(toPickRow(pick));
+  const { data, error } = await query
+    .eq('league_id', pick.league_id)
+    .eq('user_id', pick.user_id)
+    .eq('season', pick.season)
+    .eq('week', pick.week)
+    .eq('game_id', pick.game_id)
+    .eq('market', getPickMarket(pick.side))
+    .eq('updated_at', base)
+    .select('game_id');
+  check('sendQueuedPick', error);
+
+  return (data || []).length > 0 ? 'sent' : 'conflict';
+}
+
+// Tiebreakers
+
+export async function fetchTiebreaker(leagueId: string, userId: string, season: number, week: number): Promise<Tiebreaker | null> {
+  const { data, error } = await supabase
+    .from('tiebreakers')
+    .select('*')
+    .eq('league_id', leagueId)
+    .eq('user_id', userId)
+    .eq('season', season)
+    .eq('week', week);
+  check('fetchTiebreaker', error);
+
+  return (data?.[0] as Tiebreaker) ?? null;
+}
+
+export async function submitTiebreaker(
+  entry: PickFields<Tiebreaker, 'league_id' | 'user_id' | 'season' | 'week' | 'game_id' | 'total_points'>
+): Promise<void> {
+  const { error } = await supabase
+    .from('tiebreakers')
+    .upsert(entry, { onConflict: TIEBREAKER_CONFLICT_KEY });
+  check('submitTiebreaker', error);
+}
+
+type TiebreakInputs = {
+  entries: TiebreakerWithGame[];
+  picks: { user_id: string; week: number; created_at: string }[];
+};
+
+// Tiebreaker entries and pick times behind the standings' tie-break rules,
+// for a season, a single week or the weeks `firstWeek`..`lastWeek`
+async function fetchTiebreakInputs(
+  leagueId: string,
+  season: number,
+  firstWeek?: number,
+  lastWeek: number | undefined = firstWeek
+): Promise<TiebreakInputs> {
+  let entriesQuery = supabase
+    .from('tiebreakers')
+    .select('user_id, week, total_points, games:game_id (status, home_score, away_score)')
+    .eq('league_id', leagueId)
+    .eq('season', season);
+  let picksQuery = supabase
+    .from('picks')
+    .select('user_id, week, created_at')
+    .eq('league_id', leagueId)
+    .eq('season', season);
+  if (firstWeek !== undefined) {
+    entriesQuery = entriesQuery.gte('week', firstWeek);
+    picksQuery = picksQuery.gte('week', firstWeek);
+  }
+  if (lastWeek !== undefined) {
+    entriesQuery = entriesQuery.lte('week', lastWeek);
+    picksQuery = picksQuery.lte('week', lastWeek);
+  }
+
+  const [entries, picks] = await Promise.all([
+    entriesQuery.overrideTypes<TiebreakerWithGame[], { merge: false }>(),
+    picksQuery.overrideTypes<TiebreakInputs['picks'], { merge: false }>(),
+  ]);
+  check('fetchTiebreakInputs', entries.error);
+  check('fetchTiebreakInputs', picks.error);
+
+  return {
+    entries: entries.data || [],
+    picks: picks.data || [],
+  };
+}
+
+async function fetchTiebreakRecords(leagueId: string, season: number, standings: WeeklyStanding[], week?: number) {
+  const { entries, picks } = await fetchTiebreakInputs(leagueId, season, week);
+  return buildTiebreakRecords(standings, entries, picks);
+}
+
+// Standings
+
+export async function fetchWeeklyStandings(leagueId: string, season: number, week: number): Promise<RankedWeeklyStanding[]> {
+  const [league, { data, error }] = await Promise.all([
+    fetchLeague(leagueId),
+    supabase
+      .from('weekly_standings')
+      .select('*')
+      .eq('league_id', leagueId)
+      .eq('season', season)
+      .eq('week', week),
+  ]);
+  check('fetchWeeklyStandings', error);
+
+  const standings = (data || []) as WeeklyStanding[];
+  const records = await fetchTiebreakRecords(leagueId, season, standings, week);
+
+  return rankStandings(
+    standings,
+    (a, b) => b.points - a.points,
+    records,
+    league.tiebreak_rules ?? DEFAULT_TIEBREAK_RULES
+  );
+}
+
+// Season standings over `rows`, ranked with the league's rules
+function rankSeasonRows(
+  league: League,
+  rows: WeeklyStanding[],
+  { entries, picks }: TiebreakInputs
+): RankedSeasonStanding[] {
+  const standings = aggregateSeasonStandings(rows, league);
+
+  // Dropped weeks don't count toward tie-breaks either
+  return rankStandings(
+    standings,
+    compareSeasonStandings(league),
+    buildTiebreakRecords(getCountedRows(rows, standings), entries, picks),
+    league.tiebreak_rules ?? DEFAULT_TIEBREAK_RULES
+  );
+}
+
+export async function fetchSeasonStandings(leagueId: string, season: number): Promise<RankedSeasonStanding[]> {
+  const [league, { data, error }, inputs] = await Promise.all([
+    fetchLeague(leagueId),
+    supabase
+      .from('weekly_standings')
+      .select('*')
+      .eq('league_id', leagueId)
+      .eq('season', season),
+    fetchTiebreakInputs(leagueId, season),
+  ]);
+  check('fetchSeasonStandings', error);
+
+  return rankSeasonRows(league, (data || []) as WeeklyStanding[], inputs);
+}
+
+// Season rank and counted points after every graded week, for the standings chart
+export async function fetchRankHistory(leagueId: string, season: number): Promise<RankHistory> {
+  const [league, { data, error }, { entries, picks }] = await Promise.all([
+    fetchLeague(leagueId),
+    supabase
+      .from('weekly_standings')
+      .select('*')
+      .eq('league_id', leagueId)
+      .eq('season', season),
+    fetchTiebreakInputs(leagueId, season),
+  ]);
+  check('fetchRankHistory', error);
+
+  return buildRankHistory((data || []) as WeeklyStanding[], league, entries, picks);
+}
+
+// Awards
+
+/**
+ * Weekly awards for every week `isWeekFinal` says is over, and the season
+ * awards they add up to.
+ */
+export async function fetchAwards(
+  leagueId: string,
+  season: number,
+  isWeekFinal: (week: number) => boolean
+): Promise<AwardsSummary> {
+  const [{ data, error }, picks] = await Promise.all([
+    supabase
+      .from('weekly_standings')
+      .select('*')
+      .eq('league_id', leagueId)
+      .eq('season', season),
+    fetchLeaguePicks(leagueId, season),
+  ]);
+  check('fetchAwards', error);
+
+  const standings = (data || []) as WeeklyStanding[];
+  const weeks = Array.from(new Set(standings.map(row => row.week)))
+    .filter(isWeekFinal)
+    .sort((a, b) => b - a);
+  const weekly = weeks.flatMap(week => buildWeeklyAwards(week, standings, picks));
+
+  return { weekly, season: buildSeasonAwards(weekly) };
+}
+
+// Export
+
+/**
+ * Weekly standings, season standings over the range and every member's picks
+ * for `firstWeek`..`lastWeek` of a season, ranked with the league's rules
+ * applied to the range alone. Picks `viewerId` can't see yet are left out,
+ * as they are on the slate and member screens.
+ */
+export async function fetchLeagueExport(
+  leagueId: string,
+  season: number,
+  firstWeek: number,
+  lastWeek: number,
+  viewerId: string
+): Promise<LeagueExport> {
+  const [league, members, standingsResult, picksResult, inputs] = await Promise.all([
+    fetchLeague(leagueId),
+    fetchLeagueMembers(leagueId),
+    supabase
+      .from('weekly_standings')
+      .select('*')
+      .eq('league_id', leagueId)
+      .eq('season', season)
+      .gte('week', firstWeek)
+      .lte('week', lastWeek),
+    supabase
+      .from('picks')
+      .select(PICK_WITH_GAME_COLUMNS)
+      .eq('league_id', leagueId)
+      .eq('season', season)
+      .gte('week', firstWeek)
+      .lte('week', lastWeek)
+      .overrideTypes<PickWithGame[], { merge: false }>(),
+    fetchTiebreakInputs(leagueId, season, firstWeek, lastWeek),
+  ]);
+  check('fetchLeagueExport', standingsResult.error);
+  check('fetchLeagueExport', picksResult.error);
+
+  const rows = (standingsResult.data || []) as WeeklyStanding[];
+  const rules = league.tiebreak_rules ?? DEFAULT_TIEBREAK_RULES;
+
+  const weeks = Array.from(new Set(rows.map(row => row.week)));
+  const weeklyStandings = weeks.flatMap(week => {
+    const weekRows = rows.filter(row => row.week === week);
+    const records = buildTiebreakRecords(weekRows, inputs.entries, inputs.picks);
+    return rankStandings(weekRows, (a, b) => b.points - a.points, records, rules);
+  });
+
+  const emails: Record<string, string> = {};
+  members.forEach(member => {
+    if (member.users?.email) emails[member.user_id] = member.users.email;
+  });
+
+  return {
+    season,
+    firstWeek,
+    lastWeek,
+    pushPoints: league.push_points ?? 0,
+    emails,
+    weeklyStandings,
+    seasonStandings: rankSeasonRows(league, rows, inputs),
+    picks: (picksResult.data || []).filter(pick => isPickVisible(pick, viewerId)),
+  };
+}
+
+// Ledger
+
+const LEAGUE_DUES_CONFLICT_KEY = 'league_id,season,user_id';
+
+/**
+ * Who has paid the season's dues and what everyone has won, with weekly
+ * prizes final once `isWeekFinal` says so and season prizes once the season
+ * is archived.
+ */
+export async function fetchLedger(
+  leagueId: string,
+  season: number,
+  isWeekFinal: (week: number) => boolean
+): Promise<Ledger> {
+  const [league, members, standings, dues, weekly, archivedAt, { entries, picks }] = await Promise.all([
+    fetchLeague(leagueId),
+    fetchLeagueMembers(leagueId),
+    fetchSeasonStandings(leagueId, season),
+    supabase.from('league_dues').select('user_id, amount').eq('league_id', leagueId).eq('season', season),
+    supabase
+      .from('weekly_standings')
+      .select('user_id, week, points, losses')
+      .eq('league_id', leagueId)
+      .eq('season', season),
+    fetchSeasonArchivedAt(leagueId, season),
+    fetchTiebreakInputs(leagueId, season),
+  ]);
+  check('fetchLedger', dues.error);
+  check('fetchLedger', weekly.error);
+
+  const seasonFinal = !!archivedAt;
+  const payouts = [
+    ...buildSeasonPayouts(standings, league.season_payouts ?? [], seasonFinal),
+    ...buildWeeklyPayouts(
+      (weekly.data || []) as PickFields<WeeklyStanding, 'user_id' | 'week' | 'points' | 'losses'>[],
+      league.weekly_payout ?? 0,
+      league,
+      entries,
+      picks,
+      isWeekFinal
+    ),
+  ];
+
+  return buildLedger(
+    members.map(member => member.user_id),
+    (dues.data || []) as PickFields<LeagueDues, 'user_id' | 'amount'>[],
+    league,
+    payouts
+  );
+}
+
+// Record or clear a member's dues payment for the season
+export async function setDuesPaid(leagueId: string, season: number, userId: string, paid: boolean): Promise<void> {
+  if (!paid) {
+    const { error } = await supabase
+      .from('league_dues')
+      .delete()
+      .eq('league_id', leagueId)
+      .eq('season', season)
+      .eq('user_id', userId);
+    check('setDuesPaid', error);
+    return;
+  }
+
+  const league = await fetchLeague(leagueId);
+  const { error } = await supabase
+    .from('league_dues')
+    .upsert({
+      league_id: leagueId,
+      season,
+      user_id: userId,
+      amount: league.entry_fee ?? 0,
+      paid_at: new Date().toISOString(),
+    }, { onConflict: LEAGUE_DUES_CONFLICT_KEY });
+  check('setDuesPaid', error);
+}
+
+// Seasons
+
+const LEAGUE_SEASON_CONFLICT_KEY = 'league_id,season';
+
+export async function fetchLeagueSeasons(leagueId: string, currentSeason: number): Promise<SeasonSummary[]> {
+  const [records, champions, played] = await Promise.all([
+    supabase.from('league_seasons').select('season, completed_at').eq('league_id', leagueId),
+    supabase.from('league_champions').select('season, user_id').eq('league_id', leagueId),
+    supabase.from('weekly_standings').select('season').eq('league_id', leagueId),
+  ]);
+  check('fetchLeagueSeasons', records.error);
+  check('fetchLeagueSeasons', champions.error);
+  check('fetchLeagueSeasons', played.error);
+
+  return buildSeasonHistory(
+    (records.data || []) as PickFields<LeagueSeason, 'season' | 'completed_at'>[],
+    (champions.data || []) as PickFields<LeagueChampion, 'season' | 'user_id'>[],
+    ((played.data || []) as { season: number }[]).map(row => row.season),
+    currentSeason
+  );
+}
+
+// When `season` was archived, or null while it's still open
+export async function fetchSeasonArchivedAt(leagueId: string, season: number): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('league_seasons')
+    .select('completed_at')
+    .eq('league_id', leagueId)
+    .eq('season', season)
+    .maybeSingle();
+  check('fetchSeasonArchivedAt', error);
+
+  return (data as PickFields<LeagueSeason, 'completed_at'> | null)?.completed_at ?? null;
+}
+
+/**
+ * Archive `season` with its champions and open the next one. A seeded
+ * playoff's winner is the champion; otherwise it's whoever tops the standings.
+ * Members and settings stay on the league; survivor strikes and eliminations
+ * reset.
+ *
+ * Refuses a season that is already archived, still has weeks to play
+ * (`isWeekFinal`), or has playoff games left to decide.
+ */
+export async function startNewSeason(
+  leagueId: string,
+  season: number,
+  isWeekFinal: (week: number) => boolean
+): Promise<RankedSeasonStanding[]> {
+  const [archivedAt, schedule, standings, bracket] = await Promise.all([
+    fetchSeasonArchivedAt(leagueId, season),
+    fetchSeasonSchedule(season),
+    fetchSeasonStandings(leagueId, season),
+    fetchPlayoffBracket(leagueId, season, isWeekFinal),
+  ]);
+  if (archivedAt) {
+    throw new RepositoryError('startNewSeason', `Season ${season} is already archived`, 'SEASON_ARCHIVED');
+  }
+  const lastWeek = Math.max(...schedule.map(game => game.week));
+  if (schedule.length > 0 && !isWeekFinal(lastWeek)) {
+    throw new RepositoryError('startNewSeason', `Season ${season} runs through week ${lastWeek}`, 'SEASON_IN_PROGRESS');
+  }
+  if (bracket.rounds.length > 0 && !bracket.champion) {
+    throw new RepositoryError('startNewSeason', `Season ${season} playoffs are not finished`, 'PLAYOFFS_UNDECIDED');
+  }
+
+  const playoffChampion = bracket.champion;
+  const champions = playoffChampion
+    ? standings.filter(standing => standing.user_id === playoffChampion.user_id)
+    : getChampions(standings);
+
+  // Champions go in before the season is marked archived, so a rollover that
+  // fails partway can be run again
+  const { error: clearError } = await supabase
+    .from('league_champions')
+    .delete()
+    .eq('league_id', leagueId)
+    .eq('season', season);
+  check('startNewSeason', clearError);
+
+  if (champions.length > 0) {
+    const { error: championsError } = await supabase
+      .from('league_champions')
+      .insert(champions.map(champion => ({
+        league_id: leagueId,
+        season,
+        user_id: champion.user_id,
+        points: champion.total_points,
+      })));
+    check('startNewSeason', championsError);
+  }
+
+  const { error: archiveError } = await supabase
+    .from('league_seasons')
+    .upsert({ league_id: leagueId, season, completed_at: new Date().toISOString() }, { onConflict: LEAGUE_SEASON_CONFLICT_KEY });
+  check('startNewSeason', archiveError);
+
+  const { error: openError } = await supabase
+    .from('league_seasons')
+    .upsert({ league_id: leagueId, season: season + 1, completed_at: null }, { onConflict: LEAGUE_SEASON_CONFLICT_KEY });
+  check('startNewSeason', openError);
+
+  const { error: resetError } = await supabase
+    .from('league_members')
+    .update({ strikes: 0, eliminated_week: null })
+    .eq('league_id', leagueId);
+  check('startNewSeason', resetError);
+
+  return champions;
+}
+
+// Head-to-head
+
+export async function fetchMatchups(leagueId: string, season: number): Promise<Matchup[]> {
+  const { data, error } = await supabase
+    .from('matchups')
+    .select('*')
+    .eq('league_id', leagueId)
+    .eq('season', season)
+    .order('week', { ascending: true });
+  check('fetchMatchups', error);
+
+  return (data || []) as Matchup[];
+}
+
+/**
+ * Replace the schedule from `fromWeek` on with `pairings`, leaving weeks
+ * already played untouched.
+ */
+export async function saveMatchupSchedule(
+  leagueId: string,
+  season: number,
+  pairings: MatchupPairing[],
+  fromWeek: number
+): Promise<void> {
+  const { error: deleteError } = await supabase
+    .from('matchups')
+    .delete()
+    .eq('league_id', leagueId)
+    .eq('season', season)
+    .gte('week', fromWeek);
+  check('saveMatchupSchedule', deleteError);
+
+  const rows = pairings
+    .filter(pairing => pairing.week >= fromWeek)
+    .map(pairing => ({ league_id: leagueId, season, ...pairing }));
+  if (rows.length === 0) return;
+
+  const { error } = await supabase.from('matchups').insert(rows);
+  check('saveMatchupSchedule', error);
+}
+
+export async function fetchHeadToHead(
+  leagueId: string,
+  season: number,
+  isWeekFinal: (week: number) => boolean
+): Promise<HeadToHeadSummary> {
+  const [matchups, { data, error }] = await Promise.all([
+    fetchMatchups(leagueId, season),
+    supabase
+      .from('weekly_standings')
+      .select('user_id, week, points')
+      .eq('league_id', leagueId)
+      .eq('season', season),
+  ]);
+  check('fetchHeadToHead', error);
+
+  const results = scoreMatchups(matchups, (data || []) as PickFields<WeeklyStanding, 'user_id' | 'week' | 'points'>[], isWeekFinal);
+  return { results, records: buildHeadToHeadRecords(results) };
+}
+
+// Playoffs
+
+export async function fetchPlayoffSeeds(leagueId: string, season: number): Promise<PlayoffEntrant[]> {
+  const { data, error } = await supabase
+    .from('playoff_seeds')
+    .select('seed, user_id')
+    .eq('league_id', leagueId)
+    .eq('season', season)
+    .order('seed', { ascending: true });
+  check('fetchPlayoffSeeds', error);
+
+  return (data || []) as PickFields<PlayoffSeed, 'seed' | 'user_id'>[];
+}
+
+/**
+ * Seed the playoffs from the season standings through the league's last
+ * regular-season week, replacing any earlier seeding.
+ */
+export async function seedPlayoffBracket(leagueId: string, season: number): Promise<PlayoffEntrant[]> {
+  const league = await fetchLeague(leagueId);
+  if (!league.playoff_teams || league.playoff_after_week == null) {
+    throw new RepositoryError('seedPlayoffBracket', 'This league has no playoffs', 'NO_PLAYOFFS');
+  }
+
+  const [{ data, error }, inputs] = await Promise.all([
+    supabase
+      .from('weekly_standings')
+      .select('*')
+      .eq('league_id', leagueId)
+      .eq('season', season)
+      .lte('week', league.playoff_after_week),
+    fetchTiebreakInputs(leagueId, season),
+  ]);
+  check('seedPlayoffBracket', error);
+
+  const seeds = seedPlayoffs(rankSeasonRows(league, (data || []) as WeeklyStanding[], inputs), league.playoff_teams);
+
+  const { error: clearError } = await supabase
+    .from('playoff_seeds')
+    .delete()
+    .eq('league_id', leagueId)
+    .eq('season', season);
+  check('seedPlayoffBracket', clearError);
+
+  if (seeds.length > 0) {
+    const { error: insertError } = await supabase
+      .from('playoff_seeds')
+      .insert(seeds.map(seed => ({ league_id: leagueId, season, ...seed })));
+    check('seedPlayoffBracket', insertError);
+  }
+
+  return seeds;
+}
+
+/**
+ * The seeded bracket with every round scored from weekly standings; empty
+ * until the playoffs are seeded.
+ */
+export async function fetchPlayoffBracket(
+  leagueId: string,
+  season: number,
+  isWeekFinal: (week: number) => boolean
+): Promise<PlayoffBracket> {
+  const [league, seeds, schedule, { data, error }, { entries, picks }] = await Promise.all([
+    fetchLeague(leagueId),
+    fetchPlayoffSeeds(leagueId, season),
+    fetchSeasonSchedule(season),
+    supabase
+      .from('weekly_standings')
+      .select('*')
+      .eq('league_id', leagueId)
+      .eq('season', season),
+    fetchTiebreakInputs(leagueId, season),
+  ]);
+  check('fetchPlayoffBracket', error);
+
+  const weeks = getPlayoffWeeks(
+    league.playoff_after_week ?? 0,
+    getPlayoffRoundCount(seeds.length),
+    schedule.map(game => game.week)
+  );
+  return buildPlayoffBracket(seeds, weeks, (data || []) as WeeklyStanding[], league, entries, picks, isWeekFinal);
+}
+
+// Survivor
+
+/**
+ * Survivor board replayed from the season's picks. Weeks `isWeekFinal`
+ * reports as over count as a strike for anyone who didn't pick in them.
+ */
+export async function fetchSurvivorStandings(
+  leagueId: string,
+  season: number,
+  isWeekFinal: (week: number) => boolean
+): Promise<SurvivorEntry[]> {
+  const [league, members, picks, schedule] = await Promise.all([
+    fetchLeague(leagueId),
+    fetchLeagueMembers(leagueId),
+    fetchLeaguePicks(leagueId, season),
+    fetchSeasonSchedule(season),
+  ]);
+
+  return buildSurvivorStandings(
+    members.map(member => ({ user_id: member.user_id, user_email: member.users?.email || 'Unknown' })),
+    picks,
+    league.survivor_strikes ?? DEFAULT_SURVIVOR_STRIKES,
+    getSurvivorWeeks(picks, schedule.map(game => game.week), isWeekFinal)
+  );
+}
+
+/**
+ * Record each member's survivor strikes and elimination week on their
+ * `league_members` row, through the weeks `isWeekFinal` reports as graded.
+ * Rows that already match are left alone. Only commissioners can write other
+ * members' rows.
+ */
+export async function recordSurvivorStatus(
+  leagueId: string,
+  season: number,
+  isWeekFinal: (week: number) => boolean
+): Promise<SurvivorEntry[]> {
+  const [entries, members] = await Promise.all([
+    fetchSurvivorStandings(leagueId, season, isWeekFinal),
+    fetchLeagueMembers(leagueId),
+  ]);
+
+  for (const entry of entries) {
+    const member = members.find(candidate => candidate.user_id === entry.user_id);
+    if ((member?.strikes ?? 0) === entry.strikes && (member?.eliminated_week ?? null) === entry.eliminated_week) {
+      continue;
+    }
+
+    const { error } = await supabase
+      .from('league_members')
+      .update({ strikes: entry.strikes, eliminated_week: entry.eliminated_week })
+      .eq('league_id', leagueId)
+      .eq('user_id', entry.user_id);
+    check('recordSurvivorStatus', error);
+  }
+
+  return entries;
+}
@@ -0,0 +1,217 @@
+import type { League, LeagueSlateLine, PickFields } from './supabase';
+
+// Eastern-time schedule for a football week. Every deadline is defined in
+// America/New_York wall-clock time, so conversions go through Intl rather
+// than fixed UTC offsets and stay correct across DST changes.
+//
+// A week runs Tuesday through Monday and is anchored on its Saturday:
+//   EARLY    lines drop Tue 10:00 AM ET (Tue/Wed games)
+//   MAIN     lines drop Thu 10:00 AM ET (Thu-Sun games)
+//   LABORDAY lines drop Mon 10:00 AM ET (Monday games, after the Saturday)
+//   picks unlock for other members Sat 12:00 PM ET
+//   each pick locks at its game's kickoff, or in a league with a global lock
+//   at the league's weekly lock time (default Sat 12:00 PM ET) if that's
+//   earlier
+
+export type PublishWindow = NonNullable<LeagueSlateLine['publish_window']>;
+
+export type LockMode = NonNullable<League['lock_mode']>;
+
+// A weekday and Eastern wall-clock time that repeats each week
+export type WeeklyTime = {
+  weekday: number;  // 0 = Sunday
+  hour: number;
+  minute: number;
+};
+
+export type PickLockRules = Partial<PickFields<League, 'lock_mode' | 'global_lock_at'>> | null | undefined;
+
+export type WeekSchedule = {
+  anchor: Date;                         // Saturday 00:00 ET
+  unlockAt: Date;
+  drops: Record<PublishWindow, Date>;
+};
+
+export const EASTERN_TIME_ZONE = 'America/New_York';
+export const LINE_DROP_HOUR_ET = 10;
+export const PICK_UNLOCK_HOUR_ET = 12;
+export const DEFAULT_GLOBAL_LOCK_AT = 'Sat 12:00';
+
+// Day offsets from the Saturday anchor
+const WINDOW_DROP_OFFSETS: Record<PublishWindow, number> = {
+  EARLY: -4,
+  MAIN: -2,
+  LABORDAY: 2,
+};
+
+export const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+type CivilDate = { year: number; month: number; day: number };
+
+type EasternParts = CivilDate & {
+  hour: number;
+  minute: number;
+  weekday: number;  // 0 = Sunday
+};
+
+const easternFormatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: EASTERN_TIME_ZONE,
+  hourCycle: 'h23',
+  year: 'numeric',
+  month: 'numeric',
+  day: 'numeric',
+  hour: 'numeric',
+  minute: 'numeric',
+});
+
+export function getEasternParts(date: Date): EasternParts {
+  const parts: Record<string, number> = {};
+  easternFormatter.formatToParts(date).forEach(part => {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  });
+
+  const civil = { year: parts.year, month: parts.month, day: parts.day };
+  return { ...civil, hour: parts.hour % 24, minute: parts.minute, weekday: civilWeekday(civil) };
+}
+
+// Milliseconds Eastern time is ahead of UTC at `date` (negative: -4h or -5h)
+function getEasternOffsetMs(date: Date): number {
+  const parts = getEasternParts(date);
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  const wholeMinute = Math.floor(date.getTime() / 60000) * 60000;
+  return wallClock - wholeMinute;
+}
+
+/**
+ * The instant at which Eastern wall-clock time reads the given date and time.
+ * `month` is 1-based.
+ */
+export function easternTime(year: number, month: number, day: number, hour = 0, minute = 0): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  // The second pass settles times near a DST change, where the first guess
+  // lands on the other side of the transition
+  const guess = wallClock - getEasternOffsetMs(new Date(wallClock));
+  return new Date(wallClock - getEasternOffsetMs(new Date(guess)));
+}
+
+function civilWeekday({ year, month, day }: CivilDate): number {
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+function addDays({ year, month, day }: CivilDate, days: number): CivilDate {
+  const shifted = new Date(Date.UTC(year, month - 1, day + days));
+  return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() };
+}
+
+function atEasternTime(date: CivilDate, hour: number, minute = 0): Date {
+  return easternTime(date.year, date.month, date.day, hour, minute);
+}
+
+// Saturday of the Tuesday-Monday week containing `date`
+function getSaturdayAnchor(date: Date): CivilDate {
+  const parts = getEasternParts(date);
+  const daysToSaturday = parts.weekday === 0 ? -1 : parts.weekday === 1 ? -2 : 6 - parts.weekday;
+  return addDays(parts, daysToSaturday);
+}
+
+export function getWindowForKickoff(kickoff: Date): PublishWindow {
+  const weekday = getEasternParts(kickoff).weekday;
+  if (weekday === 1) return 'LABORDAY';
+  if (weekday === 2 || weekday === 3) return 'EARLY';
+  return 'MAIN';
+}
+
+/**
+ * Unlock and line-drop times for the week containing `kickoff`, usually the
+ * week's first kickoff.
+ */
+export function getWeekSchedule(kickoff: Date): WeekSchedule {
+  const saturday = getSaturdayAnchor(kickoff);
+  const dropAt = (window: PublishWindow) =>
+    atEasternTime(addDays(saturday, WINDOW_DROP_OFFSETS[window]), LINE_DROP_HOUR_ET);
+
+  return {
+    anchor: atEasternTime(saturday, 0),
+    unlockAt: atEasternTime(saturday, PICK_UNLOCK_HOUR_ET),
+    drops: {
+      EARLY: dropAt('EARLY'),
+      MAIN: dropAt('MAIN'),
+      LABORDAY: dropAt('LABORDAY'),
+    },
+  };
+}
+
+// Falls back to the window implied by the kickoff day when none is stored
+export function getLineDropAt(kickoff: Date, window?: PublishWindow | null): Date {
+  return getWeekSchedule(kickoff).drops[window ?? getWindowForKickoff(kickoff)];
+}
+
+/**
+ * Read a weekly time such as "Sat 12:00", "Saturday 12:00 PM" or "sat 7:30pm".
+ * Times without AM/PM are on a 24-hour clock. Returns null when unreadable.
+ */
+export function parseWeeklyTime(text: string): WeeklyTime | null {
+  const match = text.trim().match(/^([a-z]{3})[a-z]*\.?\s+(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/i);
+  if (!match) return null;
+
+  const weekday = WEEKDAYS.findIndex(day => day.toLowerCase() === match[1].toLowerCase());
+  const period = match[4]?.toLowerCase();
+  let hour = Number(match[2]);
+  const minute = Number(match[3] ?? 0);
+  if (weekday === -1 || minute > 59 || (period ? hour < 1 || hour > 12 : hour > 23)) return null;
+
+  if (period) hour = (hour % 12) + (period === 'pm' ? 12 : 0);
+  return { weekday, hour, minute };
+}
+
+// Stored form, e.g. "Sat 12:00"
+export function formatWeeklyTime({ weekday, hour, minute }: WeeklyTime): string {
+  return `${WEEKDAYS[weekday]} ${hour}:${String(minute).padStart(2, '0')}`;
+}
+
+// e.g. "Sat 12:00 PM ET"
+export function describeWeeklyTime({ weekday, hour, minute }: WeeklyTime): string {
+  return `${WEEKDAYS[weekday]} ${formatClock(hour, minute)} ET`;
+}
+
+// The weekly lock time a global-lock league uses, falling back to the default
+export function getGlobalLockTime(rules: PickLockRules): WeeklyTime {
+  return parseWeeklyTime(rules?.global_lock_at ?? '') ?? parseWeeklyTime(DEFAULT_GLOBAL_LOCK_AT)!;
+}
+
+/**
+ * When a pick on a game kicking off at `kickoff` locks. Per-game leagues lock
+ * at kickoff; global-lock leagues lock the whole week at the weekly lock time,
+ * and games that kick off before it still lock at kickoff.
+ */
+export function getPickLockAt(kickoff: Date, rules?: PickLockRules): Date {
+  if (rules?.lock_mode !== 'global') return kickoff;
+
+  const { weekday, hour, minute } = getGlobalLockTime(rules);
+  // Tue..Sat fall on or before the Saturday anchor, Sun and Mon after it
+  const daysFromSaturday = weekday >= 2 ? weekday - 6 : weekday + 1;
+  const lockAt = atEasternTime(addDays(getSaturdayAnchor(kickoff), daysFromSaturday), hour, minute);
+  return lockAt < kickoff ? lockAt : kickoff;
+}
+
+export function isPickLocked(kickoff: Date, rules?: PickLockRules, now: Date = new Date()): boolean {
+  return now >= getPickLockAt(kickoff, rules);
+}
+
+function formatClock(hour: number, minute: number): string {
+  const period = hour < 12 ? 'AM' : 'PM';
+  return `${hour % 12 || 12}:${String(minute).padStart(2, '0')} ${period}`;
+}
+
+// e.g. "Thu Sep 4, 10:00 AM ET"
+export function formatEasternTime(date: Date): string {
+  const parts = getEasternParts(date);
+  return `${WEEKDAYS[parts.weekday]} ${MONTHS[parts.month - 1]} ${parts.day}, ${formatClock(parts.hour, parts.minute)} ET`;
+}
+
+// Undated description of when a window drops, e.g. "Thu 10:00 AM ET"
+export function describeWindowDrop(window: PublishWindow): string {
+  const weekday = WEEKDAYS[(6 + WINDOW_DROP_OFFSETS[window] + 7) % 7];
+  return `${weekday} ${formatClock(LINE_DROP_HOUR_ET, 0)} ET`;
+}
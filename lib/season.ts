@@ -0,0 +1,136 @@
+import { fetchCurrentSeason, fetchSeasonSchedule, type ScheduleGame } from './repository';
+
+// Season calendar derived from the kickoffs in the `games` table, so every
+// screen agrees on the current season, the current week and the week range.
+
+export type SeasonWeek = {
+  week: number;
+  start: Date;         // Previous week's end, or a week before the first kickoff
+  end: Date;           // Grading buffer after the last kickoff, capped at the next week's first
+  firstKickoff: Date;
+  lastKickoff: Date;
+  isPostseason: boolean;
+};
+
+export type SeasonCalendar = {
+  season: number;
+  weeks: SeasonWeek[];
+  firstWeek: number;
+  lastWeek: number;
+  currentWeek: number;
+};
+
+// Week range used until the schedule for a season has been loaded
+export const DEFAULT_FIRST_WEEK = 1;
+export const DEFAULT_LAST_WEEK = 15;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// How long after the last kickoff a week stays current so results can post;
+// after that the app rolls forward to the next week's slate
+const GRADING_BUFFER_MS = 12 * HOUR_MS;
+
+/**
+ * Best guess at the season for a date when no games are loaded: January
+ * bowl games still belong to the previous season.
+ */
+export function guessSeason(now: Date = new Date()): number {
+  return now.getUTCMonth() === 0 ? now.getUTCFullYear() - 1 : now.getUTCFullYear();
+}
+
+// Bowl season starts after Army-Navy on the second Saturday of December
+function isPostseasonKickoff(season: number, kickoff: Date): boolean {
+  const firstOfDecember = new Date(Date.UTC(season, 11, 1));
+  const firstSaturday = 1 + ((6 - firstOfDecember.getUTCDay() + 7) % 7);
+  const sundayAfterArmyNavy = Date.UTC(season, 11, firstSaturday + 8, 12);
+  return kickoff.getTime() >= sundayAfterArmyNavy;
+}
+
+export function buildSeasonCalendar(season: number, games: ScheduleGame[], now: Date = new Date()): SeasonCalendar {
+  const byWeek = new Map<number, ScheduleGame[]>();
+  games.forEach(game => {
+    byWeek.set(game.week, [...(byWeek.get(game.week) || []), game]);
+  });
+
+  const sorted = Array.from(byWeek.entries())
+    .map(([week, weekGames]) => {
+      const kickoffs = weekGames.map(game => new Date(game.kickoff).getTime());
+      const firstKickoff = new Date(Math.min(...kickoffs));
+      return {
+        week,
+        firstKickoff,
+        lastKickoff: new Date(Math.max(...kickoffs)),
+        isPostseason: weekGames.some(game => game.season_type === 'postseason') ||
+          (weekGames.every(game => !game.season_type) && isPostseasonKickoff(season, firstKickoff)),
+      };
+    })
+    .sort((a, b) => a.week - b.week);
+
+  const weeks: SeasonWeek[] = [];
+  sorted.forEach((week, index) => {
+    const next = sorted[index + 1];
+    const previous = weeks[index - 1];
+    weeks.push({
+      ...week,
+      start: previous ? previous.end : new Date(week.firstKickoff.getTime() - 7 * DAY_MS),
+      end: new Date(Math.min(
+        week.lastKickoff.getTime() + GRADING_BUFFER_MS,
+        next ? next.firstKickoff.getTime() : Infinity,
+      )),
+    });
+  });
+
+  return {
+    season,
+    weeks,
+    firstWeek: weeks[0]?.week ?? DEFAULT_FIRST_WEEK,
+    lastWeek: weeks[weeks.length - 1]?.week ?? DEFAULT_LAST_WEEK,
+    currentWeek: getCurrentWeek(weeks, now),
+  };
+}
+
+/**
+ * The week whose window contains `now`: the first week that has not ended,
+ * or the final week once the season is over.
+ */
+export function getCurrentWeek(weeks: SeasonWeek[], now: Date = new Date()): number {
+  if (weeks.length === 0) return DEFAULT_FIRST_WEEK;
+  const current = weeks.find(week => now < week.end);
+  return (current || weeks[weeks.length - 1]).week;
+}
+
+export function getSeasonWeek(calendar: SeasonCalendar, week: number): SeasonWeek | undefined {
+  return calendar.weeks.find(candidate => candidate.week === week);
+}
+
+// A week is over once its grading buffer has passed
+export function isWeekComplete(calendar: SeasonCalendar | null, week: number, now: Date = new Date()): boolean {
+  const seasonWeek = calendar ? getSeasonWeek(calendar, week) : undefined;
+  return !!seasonWeek && now >= seasonWeek.end;
+}
+
+// The first week with no game kicked off yet, or null once every week has started
+export function getFirstUnstartedWeek(calendar: SeasonCalendar, now: Date = new Date()): number | null {
+  return calendar.weeks.find(week => now < week.firstKickoff)?.week ?? null;
+}
+
+export function clampWeek(calendar: SeasonCalendar | null, week: number): number {
+  const first = calendar?.firstWeek ?? DEFAULT_FIRST_WEEK;
+  const last = calendar?.lastWeek ?? DEFAULT_LAST_WEEK;
+  return Math.min(last, Math.max(first, week));
+}
+
+export function getWeekLabel(calendar: SeasonCalendar | null, week: number): string {
+  const seasonWeek = calendar ? getSeasonWeek(calendar, week) : undefined;
+  return seasonWeek?.isPostseason ? `Week ${week} · Bowls` : `Week ${week}`;
+}
+
+/**
+ * Load the calendar for a season, defaulting to the season in progress.
+ */
+export async function loadSeasonCalendar(season?: number, now: Date = new Date()): Promise<SeasonCalendar> {
+  const resolvedSeason = season ?? (await fetchCurrentSeason(now)) ?? guessSeason(now);
+  const games = await fetchSeasonSchedule(resolvedSeason);
+  return buildSeasonCalendar(resolvedSeason, games, now);
+}
@@ -0,0 +1,114 @@
+import type { League, PickFields, WeeklyStanding } from './supabase';
+
+// Season standings built from `weekly_standings` rows. Leagues can count only
+// part of each player's season ("best 10 weeks", "drop the lowest week"),
+// require a minimum number of weeks to qualify, and rank on points or win
+// percentage. Dropped weeks are left out of every season total; a week the
+// rest of the league played but a player missed counts as a 0-point week, so
+// it's the first to go. Players short of the minimum rank after everyone who
+// qualified.
+
+export type SeasonStanding = {
+  user_id: string;
+  user_email: string;
+  total_wins: number;
+  total_losses: number;
+  total_pushes: number;
+  total_points: number;
+  weeks_played: number;      // Every graded week, dropped or not
+  win_percentage: number;
+  dropped_weeks: number[];   // Weeks left out of the totals, missed ones included
+  qualified: boolean;
+};
+
+export type StandingsRules = Partial<PickFields<League,
+  'standings_best_weeks' | 'standings_drop_weeks' | 'standings_min_weeks' | 'standings_rank_by'
+>> | null | undefined;
+
+type WeekRow = PickFields<WeeklyStanding, 'user_id' | 'week' | 'wins' | 'losses' | 'pushes' | 'points' | 'user_email'>;
+
+/**
+ * Split one player's weeks into those that count and those dropped. The
+ * lowest-scoring weeks go first, the later week on a tie; at least one week
+ * always counts.
+ */
+export function splitCountedWeeks<T extends PickFields<WeeklyStanding, 'week' | 'points'>>(
+  weeks: T[],
+  rules: StandingsRules
+): { counted: T[]; dropped: T[] } {
+  const ranked = [...weeks].sort((a, b) => b.points - a.points || a.week - b.week);
+
+  let keep = ranked.length;
+  if (rules?.standings_best_weeks) keep = Math.min(keep, rules.standings_best_weeks);
+  if (rules?.standings_drop_weeks) keep = Math.min(keep, ranked.length - rules.standings_drop_weeks);
+  keep = Math.max(keep, Math.min(1, ranked.length));
+
+  return { counted: ranked.slice(0, keep), dropped: ranked.slice(keep) };
+}
+
+/**
+ * Aggregate weekly rows into one season row per player, in first-seen order.
+ */
+export function aggregateSeasonStandings(rows: WeekRow[], rules?: StandingsRules): SeasonStanding[] {
+  const byUser = new Map<string, WeekRow[]>();
+  rows.forEach(row => byUser.set(row.user_id, [...(byUser.get(row.user_id) ?? []), row]));
+
+  const leagueWeeks = Array.from(new Set(rows.map(row => row.week)));
+
+  return Array.from(byUser.values()).map(weeks => {
+    const missed: WeekRow[] = leagueWeeks
+      .filter(week => !weeks.some(row => row.week === week))
+      .map(week => ({ user_id: weeks[0].user_id, week, wins: 0, losses: 0, pushes: 0, points: 0 }));
+    const { counted, dropped } = splitCountedWeeks([...weeks, ...missed], rules);
+    const sum = (field: 'wins' | 'losses' | 'pushes' | 'points') =>
+      counted.reduce((total, week) => total + week[field], 0);
+
+    const wins = sum('wins');
+    const losses = sum('losses');
+    return {
+      user_id: weeks[0].user_id,
+      user_email: weeks.find(week => week.user_email)?.user_email || 'Unknown',
+      total_wins: wins,
+      total_losses: losses,
+      total_pushes: sum('pushes'),
+      total_points: sum('points'),
+      weeks_played: weeks.length,
+      win_percentage: wins + losses > 0 ? wins / (wins + losses) : 0,
+      dropped_weeks: dropped.map(week => week.week).sort((a, b) => a - b),
+      qualified: weeks.length >= (rules?.standings_min_weeks ?? 0),
+    };
+  });
+}
+
+/**
+ * Primary season order: qualified players first, then the league's ranking
+ * stat with the other as the fallback. Remaining ties go to the league's
+ * tie-break rules (see lib/tiebreakers).
+ */
+export function compareSeasonStandings(rules: StandingsRules) {
+  const byWinPercentage = rules?.standings_rank_by === 'win_percentage';
+
+  return (a: SeasonStanding, b: SeasonStanding): number => {
+    if (a.qualified !== b.qualified) return a.qualified ? -1 : 1;
+
+    const points = b.total_points - a.total_points;
+    const percentage = b.win_percentage - a.win_percentage;
+    return byWinPercentage ? percentage || points : points || percentage;
+  };
+}
+
+// Summary of a league's season counting rules, e.g. "Best 10 weeks • Ranked by win %"
+export function describeStandingsRules(rules: StandingsRules): string | null {
+  const parts: string[] = [];
+  if (rules?.standings_best_weeks) parts.push(`Best ${rules.standings_best_weeks} weeks`);
+  if (rules?.standings_drop_weeks) parts.push(`Lowest ${rules.standings_drop_weeks} dropped`);
+  if (rules?.standings_min_weeks) parts.push(`${rules.standings_min_weeks} weeks to qualify`);
+  if (rules?.standings_rank_by === 'win_percentage') parts.push('Ranked by win %');
+  return parts.length > 0 ? parts.join(' • ') : null;
+}
+
+// The weekly rows that count toward each player's season totals
+export function getCountedRows<T extends WeekRow>(rows: T[], standings: SeasonStanding[]): T[] {
+  return rows.filter(row => !standings.some(standing =>
+    standing.user_id === row.user_id && standing.dropped_weeks.includes(row.week)));
+}
@@ -14,6 +14,10 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
   },
 })
 
+// `Pick` below is the picks table, so this stands in for TypeScript's utility
+// of that name: the listed fields of a row type
+export type PickFields<T, K extends keyof T> = { [P in K]: T[P] };
+
 // Types for our database schema
 export type League = {
   id: string
@@ -22,6 +26,24 @@ export type League = {
   created_by: string
   pick_limit: number
   push_points: number
+  scoring_mode?: 'standard' | 'confidence'  // Confidence leagues weight each pick by a 1..N rank
+  league_type?: 'ats' | 'survivor'  // Survivor: one straight-up team a week, no repeats
+  pick_mode?: 'spread' | 'straight_up'  // Straight-up leagues pick outright winners, stored with a zero line
+  totals_pick_limit?: number | null  // Separate weekly limit for over/under picks; null counts them in pick_limit
+  survivor_strikes?: number  // Losses a survivor player can take before elimination (default 1)
+  standings_best_weeks?: number | null  // Count only each player's best N weeks in season standings
+  standings_drop_weeks?: number | null  // Drop each player's lowest N weeks from season standings
+  standings_min_weeks?: number | null  // Weeks played to qualify for season standings
+  standings_rank_by?: 'points' | 'win_percentage'  // Season ranking stat (default points)
+  head_to_head?: boolean  // Weekly head-to-head matchups alongside the cumulative standings
+  lock_mode?: 'per_game' | 'global'  // Picks lock at each kickoff, or all at once at global_lock_at (default per_game)
+  global_lock_at?: string | null  // Weekly Eastern lock time in global mode, e.g. "Sat 12:00"; null uses Saturday noon
+  playoff_teams?: number | null  // Top N in the season standings seeded into a playoff bracket; null for no playoffs
+  playoff_after_week?: number | null  // Last regular-season week; playoff rounds take the scheduled weeks after it
+  entry_fee?: number | null  // Dues per member each season, in dollars; null for a free league
+  weekly_payout?: number | null  // Prize for each week's high score, split on a tie
+  season_payouts?: number[] | null  // Prizes for 1st, 2nd, 3rd... in the season standings
+  tiebreak_rules?: ('tiebreaker' | 'head_to_head' | 'fewest_losses' | 'earliest_submission')[] | null  // Tie-break order after points; null uses the default
   created_at: string
 }
 
@@ -30,6 +52,8 @@ export type LeagueMember = {
   user_id: string
   role: 'commish' | 'player'
   joined_at: string
+  strikes?: number  // Survivor strikes this season, as of the last recorded week
+  eliminated_week?: number | null  // Survivor week the player was knocked out
 }
 
 export type Game = {
@@ -40,6 +64,9 @@ export type Game = {
   away: string
   kickoff: string
   status: string
+  season_type?: 'regular' | 'postseason'
+  home_score?: number | null  // Final (or live) score, null until the game starts
+  away_score?: number | null
   created_at: string
 }
 
@@ -50,11 +77,13 @@ export type LeagueSlateLine = {
   game_id: string
   spread_home: number
   spread_away: number
+  total?: number | null  // Over/under for the game, null when not offered
   source: string
   snapped_at: string
   lines_available?: boolean
   publish_window?: 'EARLY' | 'MAIN' | 'LABORDAY'
   lines_published_at?: string
+  is_tiebreaker?: boolean  // Commissioner-designated tiebreaker game for the week
 }
 
 export type Pick = {
@@ -63,16 +92,78 @@ export type Pick = {
   season: number
   week: number
   game_id: string
-  side: 'HOME' | 'AWAY'
-  line_value: number
+  side: 'HOME' | 'AWAY' | 'OVER' | 'UNDER'
+  market?: 'spread' | 'total'  // Follows from side; part of the pick's unique key
+  line_value: number  // Spread for HOME/AWAY, game total for OVER/UNDER
+  confidence?: number | null  // 1..N rank in confidence leagues, null otherwise
   locked: boolean
   unlock_at?: string  // When picks become visible to other members (default: Saturday 12:00 PM ET)
   result?: 'WIN' | 'LOSS' | 'PUSH'
   points?: number
+  edit_history?: PickEdit[] | null  // Earlier versions of the pick, oldest first
   created_at: string
   updated_at: string
 }
 
+// A pick as it stood before a change, possibly on another game
+export type PickEdit = {
+  game_id: string
+  side: Pick['side']
+  line_value: number
+  changed_at: string
+}
+
+export type Tiebreaker = {
+  league_id: string
+  user_id: string
+  season: number
+  week: number
+  game_id: string
+  total_points: number  // Predicted combined score of the tiebreaker game
+  created_at: string
+  updated_at: string
+}
+
+export type Matchup = {
+  league_id: string
+  season: number
+  week: number
+  home_user_id: string
+  away_user_id: string | null  // null when the home player has a bye
+  created_at: string
+}
+
+export type PlayoffSeed = {
+  league_id: string
+  season: number
+  seed: number  // 1 is the top seed
+  user_id: string
+  created_at: string
+}
+
+export type LeagueDues = {
+  league_id: string
+  season: number
+  user_id: string
+  amount: number  // Entry fee when the payment was recorded
+  paid_at: string
+}
+
+export type LeagueSeason = {
+  league_id: string
+  season: number
+  completed_at?: string | null  // Set when the commissioner starts the next season; archived from then on
+  created_at: string
+}
+
+export type LeagueChampion = {
+  league_id: string
+  season: number
+  user_id: string  // One row per champion; players tied at the top share the title
+  points: number  // Counted season points
+  created_at: string
+}
+
 export type LeaguePublishWindow = {
   id: string
   league_id: string
@@ -0,0 +1,134 @@
+import { getPickGrade, type PickResult } from './grading';
+import type { Game, Pick, PickFields } from './supabase';
+
+// Survivor (eliminator) leagues: each player picks one team a week to win
+// straight up, can use each team once per season and is out once their
+// losses reach the league's strike allowance. Picks reuse the `picks` table
+// as straight-up picks (see lib/pick-mode). Status is always replayed from the
+// picks rather than stored, so every screen sees the same eliminations as
+// soon as games are graded.
+
+export const DEFAULT_SURVIVOR_STRIKES = 1;
+
+type SurvivorPick = {
+  user_id: Pick['user_id'];
+  week: Pick['week'];
+  side: Pick['side'];
+  line_value: Pick['line_value'];
+  result?: Pick['result'];
+  points?: Pick['points'];
+  games: PickFields<Game, 'home' | 'away' | 'status' | 'home_score' | 'away_score'> | null;
+};
+
+// A finished week without a pick counts as a miss
+export type SurvivorResult = PickResult | 'MISSED';
+
+export type SurvivorWeek = {
+  week: number;
+  team: string | null;           // null for a missed week
+  result: SurvivorResult | null;  // null until the game is final
+};
+
+export type SurvivorEntry = {
+  user_id: string;
+  user_email: string;
+  alive: boolean;
+  strikes: number;
+  eliminated_week: number | null;
+  weeks: SurvivorWeek[];
+};
+
+export function getPickedTeam(pick: PickFields<SurvivorPick, 'side' | 'games'>): string {
+  if (!pick.games) return 'Unknown';
+  return pick.side === 'HOME' ? pick.games.home : pick.games.away;
+}
+
+/**
+ * Teams a player has already used this season, ignoring `exceptWeek` so a
+ * player can swap their pick for the week being edited.
+ */
+export function getUsedTeams(picks: SurvivorPick[], exceptWeek?: number): string[] {
+  return picks
+    .filter(pick => pick.week !== exceptWeek)
+    .map(getPickedTeam);
+}
+
+/**
+ * Weeks a survivor player must pick: every finished week from the pool's
+ * first pick on, so a pool started mid-season doesn't count the weeks before.
+ */
+export function getSurvivorWeeks(
+  poolPicks: PickFields<SurvivorPick, 'week'>[],
+  scheduleWeeks: number[],
+  isWeekFinal: (week: number) => boolean
+): number[] {
+  if (poolPicks.length === 0) return [];
+  const firstWeek = Math.min(...poolPicks.map(pick => pick.week));
+  return Array.from(new Set(scheduleWeeks))
+    .filter(week => week >= firstWeek && isWeekFinal(week))
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Replay one player's season in week order. A loss is a strike, and so is a
+ * week in `requiredWeeks` (see getSurvivorWeeks) without a pick; a tie (a
+ * PUSH on the zero line) survives.
+ */
+export function evaluateSurvivor(
+  picks: SurvivorPick[],
+  strikesAllowed: number = DEFAULT_SURVIVOR_STRIKES,
+  requiredWeeks: number[] = []
+): PickFields<SurvivorEntry, 'alive' | 'strikes' | 'eliminated_week' | 'weeks'> {
+  let strikes = 0;
+  let eliminatedWeek: number | null = null;
+
+  const weekNumbers = Array.from(new Set([...picks.map(pick => pick.week), ...requiredWeeks])).sort((a, b) => a - b);
+  const weeks: SurvivorWeek[] = [];
+  weekNumbers.forEach(week => {
+    const pick = picks.find(candidate => candidate.week === week);
+    // Weeks after elimination aren't owed a pick
+    if (!pick && eliminatedWeek !== null) return;
+
+    const result = pick ? getPickGrade(pick, pick.games, 0)?.result ?? null : 'MISSED';
+    if (eliminatedWeek === null && (result === 'LOSS' || result === 'MISSED')) {
+      strikes += 1;
+      if (strikes >= strikesAllowed) eliminatedWeek = week;
+    }
+    weeks.push({ week, team: pick ? getPickedTeam(pick) : null, result });
+  });
+
+  return { alive: eliminatedWeek === null, strikes, eliminated_week: eliminatedWeek, weeks };
+}
+
+/**
+ * Survivor board for a league: players still alive first, then the
+ * eliminated in the order they were knocked out, latest first.
+ */
+export function buildSurvivorStandings(
+  members: { user_id: string; user_email: string }[],
+  picks: SurvivorPick[],
+  strikesAllowed: number = DEFAULT_SURVIVOR_STRIKES,
+  requiredWeeks: number[] = []
+): SurvivorEntry[] {
+  return members
+    .map(member => ({
+      user_id: member.user_id,
+      user_email: member.user_email,
+      ...evaluateSurvivor(picks.filter(pick => pick.user_id === member.user_id), strikesAllowed, requiredWeeks),
+    }))
+    .sort((a, b) => {
+      if (a.alive !== b.alive) return a.alive ? -1 : 1;
+      if (a.eliminated_week !== b.eliminated_week) return (b.eliminated_week ?? 0) - (a.eliminated_week ?? 0);
+      if (a.strikes !== b.strikes) return a.strikes - b.strikes;
+      return a.user_email.localeCompare(b.user_email);
+    });
+}
+
+/**
+ * Reason a survivor pick is not allowed, or null when it is.
+ */
+export function validateSurvivorPick(team: string, usedTeams: string[], entry?: PickFields<SurvivorEntry, 'alive'>): string | null {
+  if (entry && !entry.alive) return 'You have been eliminated from this survivor pool';
+  if (usedTeams.includes(team)) return `You already used ${team} this season`;
+  return null;
+}
@@ -0,0 +1,442 @@
+// In-memory stand-in for the Supabase client, used to run the repository and
+// app flows under Jest. It implements the subset of the query builder the app
+// uses (select/eq/order/insert/upsert/update/delete plus `single` and
+// `overrideTypes`), embedded foreign-key selects like `games:game_id (...)`,
+// `auth.getUser` and the `publish_week` edge function, all over plain fixture
+// arrays.
+
+import type { PublishWeekResult } from '../repository';
+
+export type Row = Record<string, unknown>;
+
+export type FakeTables = Record<string, Row[]>;
+
+export type FakeUser = {
+  id: string;
+  email?: string;
+};
+
+type FakeError = {
+  message: string;
+  code?: string;
+};
+
+type FakeResult<T = unknown> = {
+  data: T | null;
+  error: FakeError | null;
+};
+
+type FunctionHandler = (body: Row, db: FakeTables) => FakeResult | Promise<FakeResult>;
+
+export type FakeSupabaseOptions = {
+  tables?: FakeTables;
+  user?: FakeUser | null;
+  functions?: Record<string, FunctionHandler>;
+  now?: () => Date;
+};
+
+// Tables keyed by composite columns rather than a generated `id`
+const COMPOSITE_KEY_TABLES = ['league_members', 'league_slate_lines', 'picks', 'weekly_standings'];
+
+type Filter = (row: Row) => boolean;
+
+type Order = {
+  column: string;
+  ascending: boolean;
+};
+
+type Embed = {
+  name: string;
+  foreignKey: string;
+  columns: string[];
+};
+
+type SelectSpec = {
+  columns: string[];
+  embeds: Embed[];
+};
+
+// Split on top-level commas, ignoring those inside embedded selects
+function splitTopLevel(value: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of value) {
+    if (char === '(') depth += 1;
+    if (char === ')') depth -= 1;
+    if (char === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.map(part => part.trim()).filter(Boolean);
+}
+
+function parseSelect(columns = '*'): SelectSpec {
+  const spec: SelectSpec = { columns: [], embeds: [] };
+  splitTopLevel(columns.replace(/\s+/g, ' ')).forEach(part => {
+    const embed = part.match(/^([\w]+)(?::([\w]+))?\s*\((.*)\)$/);
+    if (embed) {
+      const [, name, foreignKey, inner] = embed;
+      spec.embeds.push({
+        name,
+        // `leagues (...)` on league_members resolves through `league_id`
+        foreignKey: foreignKey || `${name.replace(/s$/, '')}_id`,
+        columns: splitTopLevel(inner),
+      });
+    } else {
+      spec.columns.push(part);
+    }
+  });
+  return spec;
+}
+
+function project(row: Row, columns: string[]): Row {
+  if (columns.length === 0 || columns.includes('*')) return { ...row };
+  return columns.reduce((acc, column) => {
+    acc[column] = row[column];
+    return acc;
+  }, {} as Row);
+}
+
+// Order two column values as Postgres would: numbers by value, everything
+// else (ISO timestamps included) as text. Null when either is missing, which
+// no range filter matches.
+function compareValues(a: unknown, b: unknown): number | null {
+  if (a === undefined || a === null || b === undefined || b === null) return null;
+  if (a === b) return 0;
+  if (typeof a === 'number' && typeof b === 'number') return a < b ? -1 : 1;
+  return String(a) < String(b) ? -1 : 1;
+}
+
+// Missing values sort last
+function compare(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === undefined || a === null) return 1;
+  if (b === undefined || b === null) return -1;
+  return compareValues(a, b) ?? 0;
+}
+
+function inRange(a: unknown, b: unknown, accept: (order: number) => boolean): boolean {
+  const order = compareValues(a, b);
+  return order !== null && accept(order);
+}
+
+class FakeQueryBuilder implements PromiseLike<FakeResult<Row | Row[]>> {
+  private action: 'select' | 'insert' | 'upsert' | 'update' | 'delete' = 'select';
+  private selectSpec: SelectSpec | null = null;
+  private filters: Filter[] = [];
+  private orders: Order[] = [];
+  private rowLimit: number | null = null;
+  private singleMode: 'single' | 'maybeSingle' | null = null;
+  private payload: Row[] = [];
+  private updateValues: Row = {};
+  private conflictColumns: string[] = [];
+
+  constructor(
+    private client: FakeSupabaseClient,
+    private table: string
+  ) {}
+
+  select(columns?: string) {
+    this.selectSpec = parseSelect(columns);
+    return this;
+  }
+
+  insert(rows: Row | Row[]) {
+    this.action = 'insert';
+    this.payload = Array.isArray(rows) ? rows : [rows];
+    return this;
+  }
+
+  upsert(rows: Row | Row[], options: { onConflict?: string } = {}) {
+    this.action = 'upsert';
+    this.payload = Array.isArray(rows) ? rows : [rows];
+    this.conflictColumns = (options.onConflict || 'id').split(',').map(column => column.trim());
+    return this;
+  }
+
+  update(values: Row) {
+    this.action = 'update';
+    this.updateValues = values;
+    return this;
+  }
+
+  delete() {
+    this.action = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push(row => row[column] === value);
+    return this;
+  }
+
+  neq(column: string, value: unknown) {
+    this.filters.push(row => row[column] !== value);
+    return this;
+  }
+
+  gt(column: string, value: unknown) {
+    this.filters.push(row => inRange(row[column], value, order => order > 0));
+    return this;
+  }
+
+  gte(column: string, value: unknown) {
+    this.filters.push(row => inRange(row[column], value, order => order >= 0));
+    return this;
+  }
+
+  lt(column: string, value: unknown) {
+    this.filters.push(row => inRange(row[column], value, order => order < 0));
+    return this;
+  }
+
+  lte(column: string, value: unknown) {
+    this.filters.push(row => inRange(row[column], value, order => order <= 0));
+    return this;
+  }
+
+  in(column: string, values: readonly unknown[]) {
+    this.filters.push(row => values.includes(row[column]));
+    return this;
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}) {
+    this.orders.push({ column, ascending: options.ascending !== false });
+    return this;
+  }
+
+  limit(count: number) {
+    this.rowLimit = count;
+    return this;
+  }
+
+  single() {
+    this.singleMode = 'single';
+    return this;
+  }
+
+  maybeSingle() {
+    this.singleMode = 'maybeSingle';
+    return this;
+  }
+
+  // Only narrows the result type in the real client
+  overrideTypes() {
+    return this;
+  }
+
+  then<TResult1 = FakeResult<Row | Row[]>, TResult2 = never>(
+    onfulfilled?: ((value: FakeResult<Row | Row[]>) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve()
+      .then(() => this.execute())
+      .then(onfulfilled, onrejected);
+  }
+
+  private execute(): FakeResult<Row | Row[]> {
+    const rows = this.client.table(this.table);
+    let affected: Row[];
+
+    switch (this.action) {
+      case 'insert': {
+        const error = this.client.validate(this.table, this.payload);
+        if (error) return { data: null, error };
+        affected = this.payload.map(row => this.client.withDefaults(this.table, row));
+        rows.push(...affected);
+        break;
+      }
+      case 'upsert': {
+        const error = this.client.validate(this.table, this.payload);
+        if (error) return { data: null, error };
+        affected = this.payload.map(row => {
+          const existing = rows.find(candidate =>
+            this.conflictColumns.every(column => candidate[column] === row[column])
+          );
+          if (existing) {
+            Object.assign(existing, row, { updated_at: this.client.now().toISOString() });
+            return existing;
+          }
+          const inserted = this.client.withDefaults(this.table, row);
+          rows.push(inserted);
+          return inserted;
+        });
+        break;
+      }
+      case 'update':
+        affected = rows.filter(row => this.matches(row));
+        affected.forEach(row => Object.assign(row, this.updateValues, { updated_at: this.client.now().toISOString() }));
+        break;
+      case 'delete':
+        affected = rows.filter(row => this.matches(row));
+        this.client.replaceTable(this.table, rows.filter(row => !affected.includes(row)));
+        break;
+      default:
+        affected = rows.filter(row => this.matches(row));
+    }
+
+    // Writes only return rows when chained with .select()
+    if (this.action !== 'select' && !this.selectSpec) {
+      return { data: null, error: null };
+    }
+
+    let result = this.sort(affected).map(row => this.shape(row));
+    if (this.rowLimit !== null) {
+      result = result.slice(0, this.rowLimit);
+    }
+
+    if (this.singleMode) {
+      if (result.length === 1) return { data: result[0], error: null };
+      if (result.length === 0 && this.singleMode === 'maybeSingle') return { data: null, error: null };
+      return {
+        data: null,
+        error: { code: 'PGRST116', message: 'JSON object requested, multiple (or no) rows returned' },
+      };
+    }
+
+    return { data: result, error: null };
+  }
+
+  private matches(row: Row) {
+    return this.filters.every(filter => filter(row));
+  }
+
+  private sort(rows: Row[]) {
+    if (this.orders.length === 0) return rows;
+    return [...rows].sort((a, b) => {
+      for (const { column, ascending } of this.orders) {
+        const result = compare(a[column], b[column]);
+        if (result !== 0) return ascending ? result : -result;
+      }
+      return 0;
+    });
+  }
+
+  private shape(row: Row): Row {
+    const spec = this.selectSpec || parseSelect('*');
+    const shaped = project(row, spec.columns);
+    spec.embeds.forEach(embed => {
+      const related = this.client.table(embed.name).find(candidate => candidate.id === row[embed.foreignKey]);
+      shaped[embed.name] = related ? project(related, embed.columns) : null;
+    });
+    return shaped;
+  }
+}
+
+export class FakeSupabaseClient {
+  db: FakeTables;
+  user: FakeUser | null;
+  now: () => Date;
+  private functionHandlers: Record<string, FunctionHandler>;
+  private nextId = 1;
+
+  constructor(options: FakeSupabaseOptions = {}) {
+    this.db = JSON.parse(JSON.stringify(options.tables || {}));
+    this.user = options.user === undefined ? null : options.user;
+    this.now = options.now || (() => new Date());
+    this.functionHandlers = { publish_week: publishWeek, ...options.functions };
+  }
+
+  auth = {
+    getUser: async () => ({ data: { user: this.user }, error: null }),
+  };
+
+  functions = {
+    invoke: async (name: string, options: { body?: Row } = {}): Promise<FakeResult> => {
+      const handler = this.functionHandlers[name];
+      if (!handler) {
+        return { data: null, error: { message: `Function ${name} not found` } };
+      }
+      return handler(options.body || {}, this.db);
+    },
+  };
+
+  from(table: string) {
+    return new FakeQueryBuilder(this, table);
+  }
+
+  signInAs(user: FakeUser | null) {
+    this.user = user;
+  }
+
+  table(name: string): Row[] {
+    if (!this.db[name]) {
+      this.db[name] = [];
+    }
+    return this.db[name];
+  }
+
+  replaceTable(name: string, rows: Row[]) {
+    this.db[name] = rows;
+  }
+
+  withDefaults(table: string, row: Row): Row {
+    const timestamp = this.now().toISOString();
+    const defaults: Row = { created_at: timestamp, updated_at: timestamp };
+    if (!COMPOSITE_KEY_TABLES.includes(table) && row.id === undefined) {
+      defaults.id = `${table}-${this.nextId++}`;
+    }
+    return { ...defaults, ...row };
+  }
+
+  // Mirrors the backend trigger that rejects picks before lines are published
+  validate(table: string, rows: Row[]): FakeError | null {
+    if (table !== 'picks') return null;
+    const invalid = rows.find(pick => !this.table('league_slate_lines').some(line =>
+      line.league_id === pick.league_id &&
+      line.season === pick.season &&
+      line.week === pick.week &&
+      line.game_id === pick.game_id &&
+      line.lines_available !== false
+    ));
+    return invalid
+      ? { code: 'P0001', message: `Lines not yet available for game ${invalid.game_id}` }
+      : null;
+  }
+}
+
+// Snapshot the week's games into league_slate_lines using any seeded `odds`
+function publishWeek(body: Row, db: FakeTables): FakeResult<PublishWeekResult> {
+  const { league_id, season, week } = body;
+  const games = (db.games || []).filter(game => game.season === season && game.week === week);
+  const odds = db.odds || [];
+  db.league_slate_lines = db.league_slate_lines || [];
+
+  let linesCount = 0;
+  games.forEach(game => {
+    const line = odds.find(candidate => candidate.game_id === game.id);
+    if (line) linesCount += 1;
+
+    const slateLine = {
+      league_id,
+      season,
+      week,
+      game_id: game.id,
+      spread_home: line ? line.spread_home : null,
+      spread_away: line ? -Number(line.spread_home) : null,
+      total: line ? line.total ?? null : null,
+      source: line ? 'fake_odds' : 'cfbd_schedule_preview',
+      snapped_at: new Date().toISOString(),
+      lines_available: !!line,
+    };
+    const existing = db.league_slate_lines.findIndex(candidate =>
+      candidate.league_id === league_id && candidate.game_id === game.id
+    );
+    if (existing >= 0) {
+      db.league_slate_lines[existing] = slateLine;
+    } else {
+      db.league_slate_lines.push(slateLine);
+    }
+  });
+
+  return { data: { games_count: games.length, lines_count: linesCount }, error: null };
+}
+
+export function createFakeSupabase(options: FakeSupabaseOptions = {}) {
+  return new FakeSupabaseClient(options);
+}
@@ -0,0 +1,59 @@
+import type { FakeTables, FakeUser } from './fake-supabase';
+
+// Seed data for the fake client: one league with a commissioner and two
+// players, a published week 1 slate and graded week 1-2 standings.
+
+export const COMMISH: FakeUser = { id: 'user-commish', email: 'commish@example.com' };
+export const PLAYER: FakeUser = { id: 'user-player', email: 'player@example.com' };
+export const OUTSIDER: FakeUser = { id: 'user-outsider', email: 'outsider@example.com' };
+
+export const LEAGUE_ID = 'league-1';
+export const INVITE_CODE = 'ABC123';
+export const SEASON = 2025;
+
+export function createFixtures(): FakeTables {
+  return {
+    users: [COMMISH, PLAYER, OUTSIDER],
+    leagues: [
+      {
+        id: LEAGUE_ID,
+        name: 'Saturday Degenerates',
+        invite_code: INVITE_CODE,
+        created_by: COMMISH.id,
+        pick_limit: 3,
+        push_points: 0.5,
+        created_at: '2025-08-01T12:00:00Z',
+      },
+    ],
+    league_members: [
+      { league_id: LEAGUE_ID, user_id: COMMISH.id, role: 'commish', joined_at: '2025-08-01T12:00:00Z' },
+      { league_id: LEAGUE_ID, user_id: PLAYER.id, role: 'player', joined_at: '2025-08-02T12:00:00Z' },
+    ],
+    games: [
+      { id: 'game-1', season: SEASON, week: 1, home: 'Ohio State', away: 'Texas', kickoff: '2025-08-30T16:00:00Z', status: 'scheduled' },
+      { id: 'game-2', season: SEASON, week: 1, home: 'LSU', away: 'Clemson', kickoff: '2025-08-30T23:30:00Z', status: 'scheduled' },
+      { id: 'game-3', season: SEASON, week: 1, home: 'Georgia Tech', away: 'Colorado', kickoff: '2025-08-29T00:00:00Z', status: 'scheduled' },
+      { id: 'game-4', season: SEASON, week: 1, home: 'Virginia Tech', away: 'South Carolina', kickoff: '2025-08-31T19:00:00Z', status: 'scheduled' },
+      { id: 'game-5', season: SEASON, week: 2, home: 'Michigan', away: 'Oklahoma', kickoff: '2025-09-06T23:30:00Z', status: 'scheduled' },
+    ],
+    odds: [
+      { game_id: 'game-1', spread_home: -1.5, total: 52.5 },
+      { game_id: 'game-2', spread_home: 3.5 },
+      { game_id: 'game-3', spread_home: 4 },
+      { game_id: 'game-5', spread_home: -6.5 },
+    ],
+    league_slate_lines: [
+      { league_id: LEAGUE_ID, season: SEASON, week: 1, game_id: 'game-1', spread_home: -1.5, spread_away: 1.5, total: 52.5, source: 'fake_odds', snapped_at: '2025-08-28T14:00:00Z', lines_available: true, publish_window: 'MAIN' },
+      { league_id: LEAGUE_ID, season: SEASON, week: 1, game_id: 'game-2', spread_home: 3.5, spread_away: -3.5, source: 'fake_odds', snapped_at: '2025-08-28T14:00:00Z', lines_available: true, publish_window: 'MAIN' },
+      { league_id: LEAGUE_ID, season: SEASON, week: 1, game_id: 'game-3', spread_home: 4, spread_away: -4, source: 'fake_odds', snapped_at: '2025-08-28T14:00:00Z', lines_available: true, publish_window: 'MAIN' },
+      { league_id: LEAGUE_ID, season: SEASON, week: 1, game_id: 'game-4', spread_home: null, spread_away: null, source: 'cfbd_schedule_preview', snapped_at: '2025-08-28T14:00:00Z', lines_available: false, publish_window: 'LABORDAY' },
+    ],
+    picks: [],
+    weekly_standings: [
+      { league_id: LEAGUE_ID, user_id: COMMISH.id, season: SEASON, week: 1, wins: 2, losses: 1, pushes: 0, points: 2, user_email: COMMISH.email },
+      { league_id: LEAGUE_ID, user_id: PLAYER.id, season: SEASON, week: 1, wins: 1, losses: 1, pushes: 1, points: 1.5, user_email: PLAYER.email },
+      { league_id: LEAGUE_ID, user_id: COMMISH.id, season: SEASON, week: 2, wins: 0, losses: 3, pushes: 0, points: 0, user_email: COMMISH.email },
+      { league_id: LEAGUE_ID, user_id: PLAYER.id, season: SEASON, week: 2, wins: 3, losses: 0, pushes: 0, points: 3, user_email: PLAYER.email },
+    ],
+  };
+}
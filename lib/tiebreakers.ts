@@ -0,0 +1,197 @@
+import { isGameFinal } from './grading';
+import type { Game, League, Pick, PickFields, Tiebreaker, WeeklyStanding } from './supabase';
+
+// Tie-breaking for weekly and season standings. Players level on points are
+// separated by the league's rules in order: each rule only splits the players
+// still tied after the rules before it, and players no rule separates share a
+// rank.
+//
+// Week-based rules compare tied players week by week and rank them by their
+// record against the rest of the tied group:
+//   tiebreaker           closer prediction of the tiebreaker game's total
+//   head_to_head         more points that week
+//   earliest_submission  first pick of the week made earlier
+// fewest_losses compares losses over the whole period.
+
+export type TiebreakRule = NonNullable<League['tiebreak_rules']>[number];
+
+export const TIEBREAK_RULES: { rule: TiebreakRule; label: string }[] = [
+  { rule: 'tiebreaker', label: 'Tiebreaker Prediction' },
+  { rule: 'head_to_head', label: 'Head-to-Head' },
+  { rule: 'fewest_losses', label: 'Fewest Losses' },
+  { rule: 'earliest_submission', label: 'Earliest Submission' },
+];
+
+export const DEFAULT_TIEBREAK_RULES: TiebreakRule[] = TIEBREAK_RULES.map(({ rule }) => rule);
+
+// One player's week, as far as tie-breaking is concerned
+export type TiebreakWeek = {
+  week: number;
+  points: number;
+  tiebreaker_delta: number | null;  // Distance from the actual total; null without an entry or final score
+  submitted_at: string | null;      // First pick of the week
+};
+
+export type TiebreakRecord = {
+  user_id: string;
+  losses: number;
+  weeks: TiebreakWeek[];
+};
+
+export type Ranked<T> = T & { rank: number };
+
+type ScoredGame = PickFields<Game, 'status' | 'home_score' | 'away_score'>;
+
+export type TiebreakerWithGame = PickFields<Tiebreaker, 'user_id' | 'week' | 'total_points'> & {
+  games: ScoredGame | null;
+};
+
+// When a player submitted a pick, for the earliest-submission tie-break
+export type PickSubmission = PickFields<Pick, 'user_id' | 'week' | 'created_at'>;
+
+type SlateGame = {
+  game: PickFields<Game, 'id' | 'kickoff'>;
+  line: { is_tiebreaker?: boolean };
+};
+
+// Negative when `a` takes the week
+type WeekComparator = (a: TiebreakWeek, b: TiebreakWeek) => number;
+
+function compareNullsLast(a: number | null, b: number | null): number {
+  if (a === null || b === null) return (a === null ? 1 : 0) - (b === null ? 1 : 0);
+  return a - b;
+}
+
+function toTime(timestamp: string | null): number | null {
+  return timestamp ? new Date(timestamp).getTime() : null;
+}
+
+const WEEK_COMPARATORS: Record<Exclude<TiebreakRule, 'fewest_losses'>, WeekComparator> = {
+  tiebreaker: (a, b) => compareNullsLast(a.tiebreaker_delta, b.tiebreaker_delta),
+  head_to_head: (a, b) => b.points - a.points,
+  earliest_submission: (a, b) => compareNullsLast(toTime(a.submitted_at), toTime(b.submitted_at)),
+};
+
+/**
+ * The week's tiebreaker game: the one the commissioner flagged, otherwise the
+ * last kickoff on the slate.
+ */
+export function getTiebreakerGame<T extends SlateGame>(slate: T[]): T | null {
+  const flagged = slate.find(item => item.line.is_tiebreaker);
+  if (flagged) return flagged;
+
+  return slate.reduce<T | null>((last, item) =>
+    !last || new Date(item.game.kickoff) >= new Date(last.game.kickoff) ? item : last, null);
+}
+
+// How far a prediction missed the final combined score, null until the game is final
+export function getTiebreakerDelta(totalPoints: number, game: ScoredGame | null): number | null {
+  if (!game || !isGameFinal(game)) return null;
+  return Math.abs(totalPoints - ((game.home_score as number) + (game.away_score as number)));
+}
+
+/**
+ * Collect each player's tie-break data from their weekly standings rows,
+ * tiebreaker entries and pick timestamps.
+ */
+export function buildTiebreakRecords(
+  standings: PickFields<WeeklyStanding, 'user_id' | 'week' | 'points' | 'losses'>[],
+  entries: TiebreakerWithGame[],
+  picks: PickSubmission[]
+): TiebreakRecord[] {
+  const records = new Map<string, TiebreakRecord>();
+
+  standings.forEach(standing => {
+    const entry = entries.find(candidate =>
+      candidate.user_id === standing.user_id && candidate.week === standing.week);
+    const submissions = picks
+      .filter(pick => pick.user_id === standing.user_id && pick.week === standing.week)
+      .map(pick => pick.created_at)
+      .sort();
+
+    const record = records.get(standing.user_id) ?? { user_id: standing.user_id, losses: 0, weeks: [] };
+    record.losses += standing.losses;
+    record.weeks.push({
+      week: standing.week,
+      points: standing.points,
+      tiebreaker_delta: entry ? getTiebreakerDelta(entry.total_points, entry.games) : null,
+      submitted_at: submissions[0] ?? null,
+    });
+    records.set(standing.user_id, record);
+  });
+
+  return Array.from(records.values());
+}
+
+// Higher is better
+function scoreInGroup(rule: TiebreakRule, record: TiebreakRecord, group: TiebreakRecord[]): number {
+  if (rule === 'fewest_losses') return -record.losses;
+
+  const compare = WEEK_COMPARATORS[rule];
+  let score = 0;
+  group.forEach(other => {
+    if (other === record) return;
+    record.weeks.forEach(week => {
+      const otherWeek = other.weeks.find(candidate => candidate.week === week.week);
+      if (otherWeek) score -= Math.sign(compare(week, otherWeek));
+    });
+  });
+  return score;
+}
+
+// Split tied rows into ordered tiers, applying one rule at a time
+function breakTie<T extends { user_id: string }>(
+  tied: T[],
+  rules: TiebreakRule[],
+  recordFor: (userId: string) => TiebreakRecord
+): T[][] {
+  if (tied.length < 2 || rules.length === 0) return [tied];
+
+  const [rule, ...rest] = rules;
+  const group = tied.map(row => recordFor(row.user_id));
+  const scored = tied
+    .map((row, index) => ({ row, score: scoreInGroup(rule, group[index], group) }))
+    .sort((a, b) => b.score - a.score);
+
+  const tiers: T[][] = [];
+  scored.forEach(({ row, score }, index) => {
+    if (index > 0 && score === scored[index - 1].score) {
+      tiers[tiers.length - 1].push(row);
+    } else {
+      tiers.push([row]);
+    }
+  });
+
+  return tiers.flatMap(tier => breakTie(tier, rest, recordFor));
+}
+
+/**
+ * Order `rows` by `compare`, then break ties with `rules`. Rows still tied
+ * after every rule share a rank.
+ */
+export function rankStandings<T extends { user_id: string }>(
+  rows: T[],
+  compare: (a: T, b: T) => number,
+  records: TiebreakRecord[],
+  rules: TiebreakRule[] = DEFAULT_TIEBREAK_RULES
+): Ranked<T>[] {
+  const recordFor = (userId: string) =>
+    records.find(record => record.user_id === userId) ?? { user_id: userId, losses: 0, weeks: [] };
+
+  const sorted = [...rows].sort(compare);
+  const ranked: Ranked<T>[] = [];
+
+  let start = 0;
+  while (start < sorted.length) {
+    let end = start + 1;
+    while (end < sorted.length && compare(sorted[start], sorted[end]) === 0) end += 1;
+
+    breakTie(sorted.slice(start, end), rules, recordFor).forEach(tier => {
+      const rank = ranked.length + 1;
+      tier.forEach(row => ranked.push({ ...row, rank }));
+    });
+    start = end;
+  }
+
+  return ranked;
+}